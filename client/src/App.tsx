@@ -1,12 +1,13 @@
 import { Routes, Route, Navigate } from 'react-router-dom';
-import { useAuth } from './context/AuthContext';
+import { useAuth, ADMIN_PERMISSIONS } from './context/AuthContext';
 import Login from './pages/Login';
+import Recover from './pages/Recover';
 import Dashboard from './pages/Dashboard';
 import Admin from './pages/Admin';
 import Layout from './components/Layout';
 
 function ProtectedRoute({ children, adminOnly = false }: { children: React.ReactNode; adminOnly?: boolean }) {
-  const { user, loading } = useAuth();
+  const { user, loading, hasPermission } = useAuth();
 
   if (loading) {
     return <div className="container">Loading...</div>;
@@ -16,7 +17,7 @@ function ProtectedRoute({ children, adminOnly = false }: { children: React.React
     return <Navigate to="/login" replace />;
   }
 
-  if (adminOnly && user.role !== 'admin-role') {
+  if (adminOnly && !ADMIN_PERMISSIONS.some(hasPermission)) {
     return <Navigate to="/" replace />;
   }
 
@@ -33,6 +34,7 @@ function App() {
   return (
     <Routes>
       <Route path="/login" element={user ? <Navigate to="/" replace /> : <Login />} />
+      <Route path="/recover" element={user ? <Navigate to="/" replace /> : <Recover />} />
       <Route
         path="/"
         element={
@@ -0,0 +1,384 @@
+import { useState, useEffect, useMemo } from 'react';
+import { membersApi, dataApi, measurementTypesApi, MeasurementType } from '../utils/api';
+import { encodeMeasurement, checkMeasurementValue, displayUnit } from '../utils/measurements';
+import { useCrypto } from '../context/CryptoContext';
+import { useAuth } from '../context/AuthContext';
+import { readSpreadsheet, Rows } from '../utils/spreadsheet';
+import {
+  IMPORT_FIELDS, IMPORT_FIELD_LABELS, ColumnMapping, ExistingMember, ImportRow,
+  guessMapping, guessWeightUnit, buildImportRows
+} from '../utils/importer';
+
+// Records per request, kept well below the server's bulk limit
+const BATCH_SIZE = 100;
+const PREVIEW_ROWS = 100;
+
+type Step = 'file' | 'map' | 'preview' | 'importing' | 'done';
+
+interface ImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Imports members and weight records from a CSV or XLSX file. The file is read and every
+// field encrypted in the browser; the server only receives ciphertexts and numbers.
+export default function ImportWizard({ onClose, onImported }: ImportWizardProps) {
+  const { encrypt, decrypt, searchTokens } = useCrypto();
+  const { hasPermission } = useAuth();
+  const canCreateWeight = hasPermission('weight:create');
+
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<Rows>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [attachToExisting, setAttachToExisting] = useState(true);
+  const [progress, setProgress] = useState('');
+  const [result, setResult] = useState<{ members: number; weights: number } | null>(null);
+  const [error, setError] = useState('');
+  // Decrypted, non-deleted members, to recognise people already on record; null while loading
+  const [existingMembers, setExistingMembers] = useState<ExistingMember[] | null>(null);
+  // Imported weights are measurements of the built-in weight type
+  const [weightType, setWeightType] = useState<MeasurementType | null>(null);
+  // Unit of the weight column; empty for the unit the user displays weights in
+  const [weightUnit, setWeightUnit] = useState('');
+  const [sensitiveDates, setSensitiveDates] = useState(false);
+
+  useEffect(() => {
+    loadExistingMembers().then(setExistingMembers).catch(err => setError(err.message || 'Failed to load members'));
+    Promise.all([dataApi.sensitivity(), measurementTypesApi.list()])
+      .then(([{ dates }, types]) => {
+        setSensitiveDates(dates);
+        setWeightType(types.find(t => t.key === 'weight') ?? null);
+      })
+      .catch(err => setError(err.message || 'Failed to load settings'));
+  }, []);
+
+  // Fields failing verification are left empty, so such members match no row
+  async function loadExistingMembers(): Promise<ExistingMember[]> {
+    const members = await membersApi.list({ deleted: 'exclude' });
+    return Promise.all(members.map(async m => {
+      const field = (column: 'name' | 'surname' | 'birthdate') => m[column]
+        ? decrypt(m[column]!, { table: 'members', column, recordId: m.id }).catch(() => '')
+        : '';
+      return { id: m.id, name: await field('name'), surname: await field('surname'), birthdate: await field('birthdate') };
+    }));
+  }
+
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const columnName = (index: number) => header[index]?.trim() || `Column ${index + 1}`;
+
+  const importUnit = weightUnit || (weightType ? displayUnit(weightType) : 'kg');
+
+  const importRows = useMemo<ImportRow[]>(
+    () => mapping && existingMembers
+      ? buildImportRows(dataRows, mapping, hasHeader ? 2 : 1, existingMembers,
+        weight => weightType && checkMeasurementValue(weightType, { value: weight }, importUnit))
+      : [],
+    [rows, hasHeader, mapping, existingMembers, weightType, importUnit]
+  );
+
+  const summary = useMemo(() => {
+    const valid = importRows.filter(r => r.errors.length === 0);
+    return {
+      invalid: importRows.length - valid.length,
+      newMembers: valid.filter(r => r.match.type === 'new').length,
+      existing: valid.filter(r => r.match.type === 'existing').length,
+      weights: canCreateWeight
+        ? valid.filter(r => r.weight && (r.match.type !== 'existing' || attachToExisting)).length
+        : 0
+    };
+  }, [importRows, attachToExisting, canCreateWeight]);
+
+  async function handleFile(file: File) {
+    setError('');
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.length === 0) {
+        throw new Error('The file contains no rows');
+      }
+      setFileName(file.name);
+      setRows(parsed);
+    } catch (err: any) {
+      setError(err.message || 'Failed to read file');
+    }
+  }
+
+  function handleContinueToMapping() {
+    const guessed = hasHeader ? guessMapping(rows[0]) : Object.fromEntries(IMPORT_FIELDS.map(f => [f, -1])) as ColumnMapping;
+    setMapping(guessed);
+    setWeightUnit(hasHeader ? guessWeightUnit(rows[0][guessed.weight]) ?? '' : '');
+    setStep('map');
+  }
+
+  function handleContinueToPreview() {
+    if (mapping!.name < 0 && mapping!.surname < 0) {
+      setError('Map at least the name or the surname column');
+      return;
+    }
+    setError('');
+    setStep('preview');
+  }
+
+  async function handleImport() {
+    setStep('importing');
+    setError('');
+    const valid = importRows.filter(r => r.errors.length === 0);
+    const newRows = valid.filter(r => r.match.type === 'new');
+    // File line of each new member -> its record id
+    const memberIds = new Map<number, number>();
+    let weightCount = 0;
+
+    try {
+      for (let start = 0; start < newRows.length; start += BATCH_SIZE) {
+        const batch = newRows.slice(start, start + BATCH_SIZE);
+        setProgress(`Creating members ${start + 1}-${start + batch.length} of ${newRows.length}...`);
+
+        // The ciphertexts are bound to the ids the members will get. The records are only
+        // created with their fields, so a failed batch leaves nothing behind
+        const { nextId } = await membersApi.nextId();
+        const ids = batch.map((_, i) => nextId + i);
+        const members = await Promise.all(batch.map(async (row, i) => {
+          const fields: Record<string, string> = {};
+          for (const [column, value] of Object.entries(row.member)) {
+            if (value) {
+              fields[column] = await encrypt(value, { table: 'members', column, recordId: ids[i] });
+            }
+          }
+          return { id: ids[i], ...fields, searchTokens: await searchTokens(row.member) };
+        }));
+        await membersApi.bulkCreate(members);
+        batch.forEach((row, i) => memberIds.set(row.line, ids[i]));
+      }
+
+      if (canCreateWeight && weightType) {
+        const weights = valid.flatMap(row => {
+          if (!row.weight) return [];
+          const memberId = row.match.type === 'new' ? memberIds.get(row.line)
+            : row.match.type === 'repeat' ? memberIds.get(row.match.line)
+            : attachToExisting ? row.match.memberId : undefined;
+          return memberId ? [{ memberId, ...row.weight }] : [];
+        });
+        for (let start = 0; start < weights.length; start += BATCH_SIZE) {
+          const batch = weights.slice(start, start + BATCH_SIZE);
+          setProgress(`Adding weight records ${start + 1}-${start + batch.length} of ${weights.length}...`);
+          // Weights and dates the deployment treats as sensitive are encrypted like member PII
+          await dataApi.bulkCreate(await Promise.all(batch.map(async ({ memberId, weight, date }) => ({
+            memberId,
+            type: weightType.key,
+            ...await encodeMeasurement(memberId, weightType, { value: { value: weight }, unit: importUnit, date }, sensitiveDates, encrypt)
+          }))));
+          weightCount += batch.length;
+        }
+      }
+
+      setResult({ members: memberIds.size, weights: weightCount });
+      setStep('done');
+    } catch (err: any) {
+      // Batches already stored stay; report how far the import got
+      setResult({ members: memberIds.size, weights: weightCount });
+      setError(err.message || 'Import failed');
+      setStep('done');
+    } finally {
+      setProgress('');
+      if (memberIds.size > 0 || weightCount > 0) {
+        onImported();
+      }
+    }
+  }
+
+  function rowStatus(row: ImportRow): { text: string; color: string } {
+    if (row.errors.length > 0) return { text: row.errors.join('; '), color: '#dc3545' };
+    if (row.match.type === 'existing') return { text: `Existing member #${row.match.memberId}`, color: '#856404' };
+    if (row.match.type === 'repeat') return { text: `Same member as line ${row.match.line}`, color: '#0c5460' };
+    return { text: 'New member', color: '#155724' };
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#fff',
+        borderRadius: 8,
+        padding: 25,
+        maxWidth: step === 'preview' ? 900 : 550,
+        width: '90%',
+        maxHeight: '85vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ marginBottom: 15 }}>Import Members</h3>
+
+        {error && (
+          <div style={{ padding: 10, marginBottom: 15, backgroundColor: '#f8d7da', color: '#721c24', borderRadius: 4, fontSize: 13 }}>
+            {error}
+          </div>
+        )}
+
+        {step === 'file' && (
+          <>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              Choose a CSV or XLSX file with one row per member or weight measurement. The file is read
+              and encrypted in your browser; the server never sees its contents in plain text.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv"
+              onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+              style={{ marginBottom: 10 }}
+            />
+            {rows.length > 0 && (
+              <p style={{ fontSize: 13, marginBottom: 10 }}>
+                {fileName}: {rows.length} row(s), {columnCount} column(s)
+              </p>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, marginBottom: 20 }}>
+              <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+              First row contains column names
+            </label>
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+              <button className="btn" onClick={onClose}>Cancel</button>
+              <button className="btn btn-primary" onClick={handleContinueToMapping} disabled={rows.length === 0}>
+                Next
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'map' && mapping && (
+          <>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              Choose the column holding each field, and the unit of the weights. Weight and measurement
+              date are optional; rows with both add a weight record to their member.
+            </p>
+            {IMPORT_FIELDS.map(field => (
+              <div key={field} style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 10 }}>
+                <label style={{ width: 140, fontSize: 13 }}>{IMPORT_FIELD_LABELS[field]}</label>
+                <select
+                  value={mapping[field]}
+                  onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                  style={{ flex: 1, padding: 6 }}
+                  disabled={(field === 'weight' || field === 'date') && !canCreateWeight}
+                >
+                  <option value={-1}>(not imported)</option>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <option key={i} value={i}>{columnName(i)}</option>
+                  ))}
+                </select>
+                {field === 'weight' && weightType && Object.keys(weightType.units).length > 1 && (
+                  <select
+                    value={importUnit}
+                    onChange={e => setWeightUnit(e.target.value)}
+                    title="Unit of the weights in the file"
+                    style={{ width: 70, padding: 6 }}
+                    disabled={!canCreateWeight}
+                  >
+                    {Object.keys(weightType.units).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                )}
+              </div>
+            ))}
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end', marginTop: 20 }}>
+              <button className="btn" onClick={() => setStep('file')}>Back</button>
+              <button className="btn btn-primary" onClick={handleContinueToPreview} disabled={!existingMembers}>
+                {existingMembers ? 'Next' : 'Loading members...'}
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div style={{ fontSize: 13, marginBottom: 15 }}>
+              <div>{summary.newMembers} new member(s) will be created</div>
+              <div>{summary.existing} row(s) match members already on record and create no new member</div>
+              <div>{summary.weights} weight record(s) will be added</div>
+              {summary.invalid > 0 && (
+                <div style={{ color: '#dc3545' }}>{summary.invalid} row(s) have errors and will be skipped</div>
+              )}
+            </div>
+            {summary.existing > 0 && canCreateWeight && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, marginBottom: 15 }}>
+                <input type="checkbox" checked={attachToExisting} onChange={e => setAttachToExisting(e.target.checked)} />
+                Add weights of rows matching existing members to those members
+              </label>
+            )}
+            <table style={{ fontSize: 12 }}>
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  <th>Name</th>
+                  <th>Surname</th>
+                  <th>Birthdate</th>
+                  <th>Email</th>
+                  <th>Gender</th>
+                  <th>Weight</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {importRows.slice(0, PREVIEW_ROWS).map(row => {
+                  const status = rowStatus(row);
+                  return (
+                    <tr key={row.line}>
+                      <td>{row.line}</td>
+                      <td>{row.member.name}</td>
+                      <td>{row.member.surname}</td>
+                      <td>{row.member.birthdate}</td>
+                      <td>{row.member.email}</td>
+                      <td>{row.member.gender}</td>
+                      <td>{row.weight ? `${row.weight.weight} ${importUnit} (${row.weight.date})` : ''}</td>
+                      <td style={{ color: status.color }}>{status.text}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {importRows.length > PREVIEW_ROWS && (
+              <p style={{ fontSize: 12, color: '#666', marginTop: 10 }}>
+                Showing the first {PREVIEW_ROWS} of {importRows.length} rows.
+              </p>
+            )}
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end', marginTop: 20 }}>
+              <button className="btn" onClick={() => setStep('map')}>Back</button>
+              <button
+                className="btn btn-primary"
+                onClick={handleImport}
+                disabled={summary.newMembers === 0 && summary.weights === 0}
+              >
+                Import
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'importing' && (
+          <p style={{ fontSize: 13 }}>{progress || 'Importing...'}</p>
+        )}
+
+        {step === 'done' && result && (
+          <>
+            <p style={{ fontSize: 13, marginBottom: 20 }}>
+              {error ? 'Imported before the error: ' : 'Imported '}
+              {result.members} member(s) and {result.weights} weight record(s).
+            </p>
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <button className="btn btn-primary" onClick={onClose}>Close</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom';
-import { useAuth } from '../context/AuthContext';
+import { useAuth, ADMIN_PERMISSIONS } from '../context/AuthContext';
 import { useCrypto } from '../context/CryptoContext';
 
 interface LayoutProps {
@@ -7,7 +7,7 @@ interface LayoutProps {
 }
 
 export default function Layout({ children }: LayoutProps) {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const { clearKeys, hasDataKey, needsKeySetup, needsRelogin } = useCrypto();
   const location = useLocation();
 
@@ -43,7 +43,7 @@ export default function Layout({ children }: LayoutProps) {
           <Link to="/" className={isActive('/') ? 'active' : ''}>
             Dashboard
           </Link>
-          {user?.role === 'admin-role' && (
+          {ADMIN_PERMISSIONS.some(hasPermission) && (
             <Link to="/admin" className={isActive('/admin') ? 'active' : ''}>
               Admin
             </Link>
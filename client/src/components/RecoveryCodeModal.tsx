@@ -0,0 +1,60 @@
+interface RecoveryCodeModalProps {
+  code: string;
+  onClose: () => void;
+}
+
+// Shows a freshly created recovery code once - it is not stored anywhere in readable form
+export default function RecoveryCodeModal({ code, onClose }: RecoveryCodeModalProps) {
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#fff',
+        borderRadius: 8,
+        padding: 25,
+        maxWidth: 500,
+        width: '90%'
+      }}>
+        <h3 style={{ marginBottom: 15 }}>Your Recovery Code</h3>
+        <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+          Print this code or write it down and keep it somewhere safe. If you forget your password,
+          it lets you restore access on the "Forgot password?" page without an administrator.
+          It is shown only once.
+        </p>
+
+        <div style={{
+          fontFamily: 'monospace',
+          fontSize: 20,
+          textAlign: 'center',
+          padding: 15,
+          marginBottom: 20,
+          backgroundColor: '#f8f9fa',
+          border: '1px solid #dee2e6',
+          borderRadius: 4,
+          letterSpacing: 1
+        }}>
+          {code}
+        </div>
+
+        <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+          <button className="btn" onClick={() => window.print()}>
+            Print
+          </button>
+          <button className="btn btn-primary" onClick={onClose}>
+            I have saved it
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState, useEffect } from 'react';
+import { dataApi, membersApi, measurementGoalsApi, MeasurementType, MeasurementRecord } from '../utils/api';
+import {
+  decodeMeasurement, convertMeasurement, checkMeasurementValue, displayUnit, encryptGoal, decryptGoal
+} from '../utils/measurements';
+import {
+  TrendPoint, toTrendPoints, movingAverage, weeklyRateOfChange, bodyMassIndex, bmiCategory, axisTicks
+} from '../utils/trends';
+import { useCrypto } from '../context/CryptoContext';
+
+// Most members compared side by side
+const MAX_MEMBERS = 5;
+const COLORS = ['#007bff', '#dc3545', '#28a745', '#fd7e14', '#6f42c1'];
+const CHART = { width: 760, height: 300, left: 55, right: 15, top: 15, bottom: 35 };
+
+interface TrendMember {
+  id: number;
+  // Decrypted name only while the Dashboard shows decrypted data, otherwise "Member #id"
+  label: string;
+}
+
+interface TrendViewProps {
+  showDecrypted: boolean;
+  types: MeasurementType[];
+  initialMemberIds: number[];
+  canSetGoals: boolean;
+  onClose: () => void;
+}
+
+// Weights in the unit the user displays them in, the latest height in cm and the goal
+interface MemberSeries {
+  points: TrendPoint[];
+  latestHeightCm: number | null;
+  goal: number | null;
+  // Records whose encrypted parts failed verification, left out
+  failed: number;
+}
+
+function round(value: number, decimals = 1): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+function signedRound(value: number): string {
+  return `${value >= 0 ? '+' : ''}${round(value, 2)}`;
+}
+
+// Weight history of one or more members as a line chart with moving averages, rate of change,
+// BMI where a height is recorded, and goals. Everything is decrypted and computed in the
+// browser; goals are stored encrypted like measurements.
+export default function TrendView({ showDecrypted, types, initialMemberIds, canSetGoals, onClose }: TrendViewProps) {
+  const { encrypt, decrypt } = useCrypto();
+  const weightType = types.find(t => t.key === 'weight');
+  const heightType = types.find(t => t.key === 'height');
+  const unit = weightType ? displayUnit(weightType) : 'kg';
+
+  // Every member on record, not just the pages the Dashboard has loaded; null while loading
+  const [members, setMembers] = useState<TrendMember[] | null>(null);
+  const [memberIds, setMemberIds] = useState<number[]>(initialMemberIds.slice(0, MAX_MEMBERS));
+  const [series, setSeries] = useState<Record<number, MemberSeries>>({});
+  const [averageDays, setAverageDays] = useState(7);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [goalInputs, setGoalInputs] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    loadMembers().then(setMembers).catch(err => setError(err.message || 'Failed to load members'));
+  }, []);
+
+  useEffect(() => {
+    const missing = memberIds.filter(id => !series[id]);
+    if (missing.length === 0 || !weightType) return;
+    setLoading(true);
+    Promise.all(missing.map(async id => [id, await loadSeries(id)] as const))
+      .then(loaded => setSeries(prev => ({ ...prev, ...Object.fromEntries(loaded) })))
+      .catch(err => setError(err.message || 'Failed to load measurements'))
+      .finally(() => setLoading(false));
+  }, [memberIds]);
+
+  async function loadMembers(): Promise<TrendMember[]> {
+    const list = await membersApi.list({ deleted: 'exclude' });
+    return Promise.all(list.map(async m => {
+      const field = (column: 'name' | 'surname') => showDecrypted && m[column]
+        ? decrypt(m[column]!, { table: 'members', column, recordId: m.id }).catch(() => '')
+        : '';
+      const name = `${await field('name')} ${await field('surname')}`.trim();
+      return { id: m.id, label: name || `Member #${m.id}` };
+    }));
+  }
+
+  // Records failing verification are counted and left out rather than failing the whole view
+  async function decodeAll(records: MeasurementRecord[]) {
+    const decoded = await Promise.all(records.map(r => decodeMeasurement(r, decrypt).catch(() => null)));
+    return { decoded: decoded.filter(d => d !== null), failed: decoded.filter(d => d === null).length };
+  }
+
+  async function loadSeries(memberId: number): Promise<MemberSeries> {
+    const [weights, heights, goals] = await Promise.all([
+      dataApi.list({ memberId, type: 'weight', deleted: 'exclude' }),
+      heightType ? dataApi.list({ memberId, type: heightType.key, deleted: 'exclude' }) : Promise.resolve([]),
+      measurementGoalsApi.list(memberId)
+    ]);
+    const weight = await decodeAll(weights);
+    const height = await decodeAll(heights);
+
+    const points = toTrendPoints(weight.decoded.map(w => ({
+      date: w.date,
+      value: convertMeasurement(weightType!, w.value, w.unit, unit).value
+    })));
+    // BMI needs the height in cm; a custom height type may not convert to it
+    const heightsCm = heightType && Object.prototype.hasOwnProperty.call(heightType.units, 'cm')
+      ? toTrendPoints(height.decoded.map(h => ({ date: h.date, value: convertMeasurement(heightType, h.value, h.unit, 'cm').value })))
+      : [];
+    const goal = goals.find(g => g.type === 'weight');
+    const goalValue = goal
+      ? await decryptGoal(goal, decrypt).then(v => convertMeasurement(weightType!, v, goal.unit, unit).value).catch(() => null)
+      : null;
+
+    return {
+      points,
+      latestHeightCm: heightsCm.length > 0 ? heightsCm[heightsCm.length - 1].value : null,
+      goal: goalValue,
+      failed: weight.failed + height.failed + (goal && goalValue === null ? 1 : 0)
+    };
+  }
+
+  function toggleMember(id: number) {
+    setMemberIds(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+  }
+
+  async function handleSaveGoal(memberId: number) {
+    const input = goalInputs[memberId] ?? '';
+    setError('');
+    try {
+      if (input.trim() === '') {
+        if (series[memberId].goal !== null) await measurementGoalsApi.delete(memberId, 'weight');
+        setSeries(prev => ({ ...prev, [memberId]: { ...prev[memberId], goal: null } }));
+      } else {
+        const value = { value: parseFloat(input) };
+        const invalid = checkMeasurementValue(weightType!, value, unit);
+        if (invalid) {
+          setError(invalid);
+          return;
+        }
+        await measurementGoalsApi.set(memberId, 'weight', unit, await encryptGoal(memberId, value, encrypt));
+        setSeries(prev => ({ ...prev, [memberId]: { ...prev[memberId], goal: value.value } }));
+      }
+      setGoalInputs(prev => {
+        const { [memberId]: _, ...rest } = prev;
+        return rest;
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save goal');
+    }
+  }
+
+  const shown = memberIds.filter(id => series[id]).map((id, i) => ({
+    id,
+    label: members?.find(m => m.id === id)?.label ?? `Member #${id}`,
+    color: COLORS[i % COLORS.length],
+    ...series[id],
+    average: averageDays > 0 ? movingAverage(series[id].points, averageDays) : []
+  }));
+
+  // Axes cover every shown point, average and goal
+  const times = shown.flatMap(s => s.points.map(p => p.time));
+  const values = shown.flatMap(s => [...s.points.map(p => p.value), ...(s.goal !== null ? [s.goal] : [])]);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const padding = Math.max((Math.max(...values) - Math.min(...values)) * 0.05, 0.5);
+  const minValue = Math.min(...values) - padding;
+  const maxValue = Math.max(...values) + padding;
+  const plotWidth = CHART.width - CHART.left - CHART.right;
+  const plotHeight = CHART.height - CHART.top - CHART.bottom;
+  const x = (time: number) => CHART.left + (maxTime > minTime ? (time - minTime) / (maxTime - minTime) : 0.5) * plotWidth;
+  const y = (value: number) => CHART.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+  const line = (points: TrendPoint[]) => points.map(p => `${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  const dateTicks = maxTime > minTime
+    ? Array.from({ length: 6 }, (_, i) => minTime + (maxTime - minTime) * i / 5)
+    : [minTime];
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: '#fff',
+        borderRadius: 8,
+        padding: 25,
+        maxWidth: 900,
+        width: '90%',
+        maxHeight: '90vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ marginBottom: 10 }}>Weight Trends</h3>
+        <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+          Decrypted and computed in this browser; nothing shown here is sent anywhere.
+          Compare up to {MAX_MEMBERS} members.
+        </p>
+
+        {error && (
+          <div style={{ padding: 10, marginBottom: 15, backgroundColor: '#f8d7da', color: '#721c24', borderRadius: 4, fontSize: 13 }}>
+            {error}
+          </div>
+        )}
+        {!weightType && <div className="error">The weight measurement type is missing</div>}
+
+        <div style={{ display: 'flex', gap: 15, marginBottom: 15, flexWrap: 'wrap', alignItems: 'flex-start', fontSize: 13 }}>
+          <div style={{ maxHeight: 120, overflowY: 'auto', border: '1px solid #ddd', borderRadius: 4, padding: 8, minWidth: 220 }}>
+            {!members && <span style={{ color: '#666' }}>Loading members...</span>}
+            {members?.map(m => (
+              <label key={m.id} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={memberIds.includes(m.id)}
+                  onChange={() => toggleMember(m.id)}
+                  disabled={!memberIds.includes(m.id) && memberIds.length >= MAX_MEMBERS}
+                />
+                {m.label}
+              </label>
+            ))}
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            Moving average
+            <select className="input" value={averageDays} onChange={e => setAverageDays(Number(e.target.value))} style={{ width: 110 }}>
+              <option value={0}>Off</option>
+              <option value={7}>7 days</option>
+              <option value={30}>30 days</option>
+              <option value={90}>90 days</option>
+            </select>
+          </label>
+          {loading && <span style={{ color: '#666' }}>Decrypting...</span>}
+        </div>
+
+        {times.length === 0 ? (
+          <p style={{ fontSize: 14, color: '#666', marginBottom: 15 }}>
+            {memberIds.length === 0 ? 'Select members to compare.' : 'No weight measurements for the selected members.'}
+          </p>
+        ) : (
+          <svg
+            viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+            style={{ width: '100%', height: 'auto', marginBottom: 10, fontSize: 11 }}
+            role="img"
+            aria-label="Weight over time"
+          >
+            {axisTicks(minValue, maxValue, 6).map(tick => (
+              <g key={tick}>
+                <line x1={CHART.left} x2={CHART.width - CHART.right} y1={y(tick)} y2={y(tick)} stroke="#eee" />
+                <text x={CHART.left - 6} y={y(tick) + 4} textAnchor="end" fill="#666">{tick}</text>
+              </g>
+            ))}
+            {dateTicks.map(time => (
+              <text key={time} x={x(time)} y={CHART.height - 12} textAnchor="middle" fill="#666">
+                {new Date(time).toISOString().split('T')[0]}
+              </text>
+            ))}
+            <text x={12} y={CHART.top + plotHeight / 2} transform={`rotate(-90 12 ${CHART.top + plotHeight / 2})`} textAnchor="middle" fill="#666">
+              {unit}
+            </text>
+            {shown.map(s => (
+              <g key={s.id}>
+                {s.goal !== null && (
+                  <>
+                    <line
+                      x1={CHART.left} x2={CHART.width - CHART.right} y1={y(s.goal)} y2={y(s.goal)}
+                      stroke={s.color} strokeDasharray="6 4" strokeWidth={1.5}
+                    />
+                    <text x={CHART.width - CHART.right - 4} y={y(s.goal) - 4} textAnchor="end" fill={s.color}>
+                      Goal {round(s.goal)} {unit}
+                    </text>
+                  </>
+                )}
+                <polyline points={line(s.points)} fill="none" stroke={s.color} strokeOpacity={averageDays > 0 ? 0.35 : 1} strokeWidth={1.5} />
+                {s.points.map((p, i) => (
+                  <circle key={i} cx={x(p.time)} cy={y(p.value)} r={3} fill={s.color}>
+                    <title>{`${s.label}: ${round(p.value, 2)} ${unit} on ${p.date}`}</title>
+                  </circle>
+                ))}
+                {averageDays > 0 && <polyline points={line(s.average)} fill="none" stroke={s.color} strokeWidth={2.5} />}
+              </g>
+            ))}
+          </svg>
+        )}
+
+        {shown.length > 0 && (
+          <table style={{ fontSize: 13, marginBottom: 15 }}>
+            <thead>
+              <tr>
+                <th>Member</th>
+                <th>Latest</th>
+                <th>Change</th>
+                <th>Per week (30 days)</th>
+                <th>Per week (all)</th>
+                <th>BMI</th>
+                <th>Goal ({unit})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(s => {
+                const first = s.points[0];
+                const latest = s.points[s.points.length - 1];
+                const recentRate = weeklyRateOfChange(s.points, 30);
+                const overallRate = weeklyRateOfChange(s.points);
+                const latestKg = latest && weightType ? convertMeasurement(weightType, { value: latest.value }, unit, 'kg').value : null;
+                const bmi = latestKg !== null && s.latestHeightCm !== null ? bodyMassIndex(latestKg, s.latestHeightCm) : null;
+                return (
+                  <tr key={s.id}>
+                    <td>
+                      <span style={{ display: 'inline-block', width: 10, height: 10, backgroundColor: s.color, marginRight: 6 }} />
+                      {s.label}
+                      {s.failed > 0 && (
+                        <div style={{ fontSize: 11, color: '#dc3545' }}>{s.failed} record(s) failed verification and are left out</div>
+                      )}
+                    </td>
+                    <td>{latest ? `${round(latest.value, 2)} ${unit} (${latest.date})` : '-'}</td>
+                    <td>{latest && s.points.length > 1 ? `${signedRound(latest.value - first.value)} ${unit} since ${first.date}` : '-'}</td>
+                    <td>{recentRate !== null ? `${signedRound(recentRate)} ${unit}` : '-'}</td>
+                    <td>{overallRate !== null ? `${signedRound(overallRate)} ${unit}` : '-'}</td>
+                    <td title={s.latestHeightCm !== null ? `Height ${round(s.latestHeightCm)} cm` : 'Record a height to compute BMI'}>
+                      {bmi !== null ? `${round(bmi)} (${bmiCategory(bmi)})` : '-'}
+                    </td>
+                    <td>
+                      {canSetGoals ? (
+                        <div style={{ display: 'flex', gap: 5, alignItems: 'center' }}>
+                          <input
+                            type="number"
+                            className="input"
+                            step="any"
+                            value={goalInputs[s.id] ?? (s.goal !== null ? round(s.goal, 2) : '')}
+                            onChange={e => setGoalInputs(prev => ({ ...prev, [s.id]: e.target.value }))}
+                            placeholder="None"
+                            style={{ width: 80, padding: 4 }}
+                          />
+                          {goalInputs[s.id] !== undefined && (
+                            <button className="btn" style={{ padding: '4px 8px', fontSize: 12 }} onClick={() => handleSaveGoal(s.id)}>
+                              Save
+                            </button>
+                          )}
+                        </div>
+                      ) : s.goal !== null ? round(s.goal, 2) : '-'}
+                      {s.goal !== null && latest && (
+                        <div style={{ fontSize: 11, color: '#666' }}>{signedRound(s.goal - latest.value)} {unit} to go</div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button className="btn" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
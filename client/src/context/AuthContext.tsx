@@ -1,11 +1,23 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authApi } from '../utils/api';
-import { deriveKEK, storeKEK, getStoredKEK, clearStoredKEK } from '../utils/crypto';
+import { authApi, keysApi } from '../utils/api';
+import {
+  deriveKEK,
+  legacyKdfParams,
+  decryptPrivateKey,
+  encryptPrivateKey,
+  storeKEK,
+  getStoredKEK,
+  clearStoredKEK
+} from '../utils/crypto';
+
+// Capabilities that give access to a tab of the admin panel
+export const ADMIN_PERMISSIONS = ['user:read', 'keys:rotate', 'keys:escrow', 'audit:read', 'roles:manage'];
 
 interface User {
   id: number;
   username: string;
   role: string;
+  permissions: string[];
 }
 
 interface AuthContextType {
@@ -14,6 +26,7 @@ interface AuthContextType {
   loading: boolean;
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  hasPermission: (permission: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -52,15 +65,41 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const { user } = await authApi.login(username, password);
     setUser(user);
 
-    // Derive KEK from password (using username as salt)
+    // Derive KEK from password with the user's KDF parameters
     if (username !== 'seed') {
-      const derivedKek = await deriveKEK(password, `dcsdemo-kek-${username}`);
+      const derivedKek = await deriveUserKek(user.id, username, password);
       setKek(derivedKek);
       // Store KEK in IndexedDB for session persistence (survives page refresh)
       await storeKEK(derivedKek);
     }
   }
 
+  // Users still on the legacy derivation (or an outdated policy) get new parameters from the server;
+  // their private key is re-encrypted under the new KEK, transparently on this login
+  async function deriveUserKek(userId: number, username: string, password: string): Promise<CryptoKey> {
+    const keyInfo = await keysApi.get(userId).catch(() => null);
+    const currentKek = await deriveKEK(password, keyInfo?.kdf_params ?? legacyKdfParams(username));
+
+    if (!keyInfo?.kdf_upgrade || !keyInfo.encrypted_private_key) {
+      return currentKek;
+    }
+
+    try {
+      const privateKey = await decryptPrivateKey(keyInfo.encrypted_private_key, currentKek);
+      const upgradedKek = await deriveKEK(password, keyInfo.kdf_upgrade);
+      await keysApi.upgradeKdf(await encryptPrivateKey(privateKey, upgradedKek), keyInfo.kdf_upgrade);
+      return upgradedKek;
+    } catch (e) {
+      // e.g. the password changed since key setup - CryptoContext reports that case
+      console.error('KDF upgrade failed, keeping current parameters:', e);
+      return currentKek;
+    }
+  }
+
+  function hasPermission(permission: string): boolean {
+    return !!user?.permissions.includes(permission);
+  }
+
   async function logout() {
     await authApi.logout();
     setUser(null);
@@ -70,7 +109,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ user, kek, loading, login, logout }}>
+    <AuthContext.Provider value={{ user, kek, loading, login, logout, hasPermission }}>
       {children}
     </AuthContext.Provider>
   );
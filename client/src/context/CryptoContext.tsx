@@ -11,21 +11,62 @@ import {
   wrapDataKey,
   importPublicKey,
   encryptPrivateKey,
-  decryptPrivateKey
+  decryptPrivateKey,
+  generateRecoveryCode,
+  deriveRecoveryKeys,
+  exportDataKey,
+  importDataKey,
+  wrapSecret,
+  unwrapSecret,
+  getKeyVersion,
+  isCurrentEnvelope,
+  IntegrityError,
+  CipherContext,
+  deriveBlindIndexKey,
+  blindIndexToken
 } from '../utils/crypto';
-import { keysApi } from '../utils/api';
+import { keysApi, rotationApi, recoveryApi, escrowApi, membersApi, dataApi, measurementTypesApi, MeasurementValues, EscrowStatus, EscrowCeremony } from '../utils/api';
+import { memberSearchTerms, queryTerms, SEARCH_FIELDS } from '../utils/search';
+import { encodeMeasurement, decodeMeasurement } from '../utils/measurements';
+import { split, combine } from '../utils/shamir';
 import { useAuth } from './AuthContext';
 
+// Progress of a data key rotation, per table: rows re-encrypted and rows that failed
+export type RotationProgress = Record<string, { done: number; failed: number }>;
+
+const ROTATION_BATCH_SIZE = 50;
+const SEARCH_INDEX_BATCH_SIZE = 200;
+const MEASUREMENT_CONVERSION_BATCH_SIZE = 100;
+
+// Plaintext of the searchable member fields
+export type SearchableMember = Partial<Record<typeof SEARCH_FIELDS[number], string | null>>;
+
+// Known plaintext stored encrypted with an escrow, to verify a reassembled data key
+const ESCROW_KEY_CHECK = 'dcsdemo-escrow-key-check';
+
 interface CryptoContextType {
   publicKey: string | null;
   hasDataKey: boolean;
+  dataKeyVersion: number | null;
+  pendingKeyVersion: number | null;
   needsKeySetup: boolean;
   needsRelogin: boolean;
   loading: boolean;
-  setupKeys: () => Promise<void>;
-  encrypt: (data: string) => Promise<string>;
-  decrypt: (encryptedData: string) => Promise<string>;
+  setupKeys: (withRecoveryCode?: boolean) => Promise<string | null>;
+  createRecoveryCode: () => Promise<string>;
+  encrypt: (data: string, context?: CipherContext) => Promise<string>;
+  decrypt: (encryptedData: string, context?: CipherContext) => Promise<string>;
+  searchTokens: (member: SearchableMember) => Promise<string[]>;
+  searchQuery: (query: string) => Promise<string>;
+  rebuildSearchIndex: () => Promise<{ indexed: number; failed: number }>;
+  convertMeasurements: (onProgress?: (converted: number) => void) => Promise<{ converted: number; failed: number }>;
   wrapKeyForUser: (userPublicKey: string) => Promise<string>;
+  wrapPendingKeyForUser: (userPublicKey: string) => Promise<string | undefined>;
+  startKeyRotation: () => Promise<void>;
+  runKeyRotation: (onProgress: (progress: RotationProgress) => void) => Promise<RotationProgress>;
+  createEscrow: (threshold: number, custodians: Array<{ user_id: number; public_key: string }>) => Promise<void>;
+  approveCeremony: (ceremony: EscrowCeremony, myShare: NonNullable<EscrowStatus['myShare']>) => Promise<void>;
+  completeCeremony: (ceremony: EscrowCeremony, escrow: NonNullable<EscrowStatus['escrow']>) => Promise<void>;
   clearKeys: () => Promise<void>;
   reloadKeys: () => Promise<void>;
 }
@@ -35,7 +76,11 @@ const CryptoContext = createContext<CryptoContextType | null>(null);
 export function CryptoProvider({ children }: { children: ReactNode }) {
   const { user, kek } = useAuth();
   const [keyPair, setKeyPair] = useState<CryptoKeyPair | null>(null);
-  const [dataKey, setDataKey] = useState<CryptoKey | null>(null);
+  // Data keys by version: the current key, plus the pending key while a rotation is running
+  const [dataKeys, setDataKeys] = useState<Record<number, CryptoKey>>({});
+  const [dataKeyVersion, setDataKeyVersion] = useState<number | null>(null);
+  const [pendingKeyVersion, setPendingKeyVersion] = useState<number | null>(null);
+  const dataKey = dataKeyVersion !== null ? dataKeys[dataKeyVersion] ?? null : null;
   const [publicKeyString, setPublicKeyString] = useState<string | null>(null);
   const [needsKeySetup, setNeedsKeySetup] = useState(false);
   const [needsRelogin, setNeedsRelogin] = useState(false);
@@ -64,7 +109,7 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
   async function loadKeys() {
     if (!user) {
       setKeyPair(null);
-      setDataKey(null);
+      clearDataKeys();
       setPublicKeyString(null);
       setNeedsKeySetup(false);
       setNeedsRelogin(false);
@@ -104,13 +149,7 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
           setKeyPair({ privateKey, publicKey });
           setPublicKeyString(keyInfo.public_key);
 
-          // Try to unwrap data key if available
-          if (keyInfo.wrapped_data_key &&
-              keyInfo.wrapped_data_key !== 'SEED_WRAPPED_KEY_PLACEHOLDER' &&
-              keyInfo.wrapped_data_key !== '') {
-            const unwrapped = await unwrapDataKey(keyInfo.wrapped_data_key, privateKey);
-            setDataKey(unwrapped);
-          }
+          await loadDataKeys(keyInfo, privateKey);
 
           setNeedsKeySetup(false);
           setNeedsRelogin(false);
@@ -133,7 +172,8 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  async function setupKeys(): Promise<void> {
+  // Returns the recovery code if one was requested and created
+  async function setupKeys(withRecoveryCode = false): Promise<string | null> {
     if (!user || user.username === 'seed') {
       throw new Error('Cannot set up keys for seed user');
     }
@@ -157,9 +197,10 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
 
     let wrappedKey: string | undefined;
     if (!systemHasKey) {
-      // This is the first real user - generate the system data key
+      // This is the first real user - generate the system data key (version 1)
       const newDataKey = await generateDataKey();
-      setDataKey(newDataKey);
+      setDataKeys({ 1: newDataKey });
+      setDataKeyVersion(1);
 
       // Wrap it with our own public key
       wrappedKey = await wrapDataKey(newDataKey, newKeyPair.publicKey);
@@ -178,10 +219,7 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
         setKeyPair({ privateKey, publicKey });
         setPublicKeyString(result.public_key!);
 
-        if (result.wrapped_data_key) {
-          const unwrapped = await unwrapDataKey(result.wrapped_data_key, privateKey);
-          setDataKey(unwrapped);
-        }
+        await loadDataKeys(await keysApi.get(user.id), privateKey);
       } catch (e) {
         throw new Error('Failed to decrypt existing keys. Password may have changed since initial setup.');
       }
@@ -190,28 +228,190 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
     // Store in IndexedDB for session persistence (optional, for convenience)
     await storeKeyPair(newKeyPair);
 
+    // Keys set up on another device may already have a recovery code
+    const recoveryCode = withRecoveryCode && !result.existing
+      ? await storeRecoveryCopy(newKeyPair.privateKey)
+      : null;
+
     setNeedsKeySetup(false);
     setNeedsRelogin(false);
+    return recoveryCode;
   }
 
-  async function encrypt(data: string): Promise<string> {
-    if (!dataKey) {
+  // Encrypt a second copy of the private key with a key derived from a new recovery code
+  async function storeRecoveryCopy(privateKey: CryptoKey): Promise<string> {
+    const code = generateRecoveryCode();
+    const { kek: recoveryKek, token } = await deriveRecoveryKeys(code);
+    await recoveryApi.enable(await encryptPrivateKey(privateKey, recoveryKek), token);
+    return code;
+  }
+
+  // Create a recovery code (replacing any previous one)
+  async function createRecoveryCode(): Promise<string> {
+    if (!keyPair) {
+      throw new Error('Set up encryption keys first');
+    }
+    return storeRecoveryCopy(keyPair.privateKey);
+  }
+
+  // Unwrap the current data key and, during a rotation, the pending one
+  async function loadDataKeys(
+    keyInfo: Awaited<ReturnType<typeof keysApi.get>>,
+    privateKey: CryptoKey
+  ): Promise<void> {
+    const keys: Record<number, CryptoKey> = {};
+    let current: number | null = null;
+    let pending: number | null = null;
+
+    if (keyInfo.wrapped_data_key &&
+        keyInfo.wrapped_data_key !== 'SEED_WRAPPED_KEY_PLACEHOLDER' &&
+        keyInfo.wrapped_data_key !== '') {
+      current = keyInfo.data_key_version || 1;
+      keys[current] = await unwrapDataKey(keyInfo.wrapped_data_key, privateKey);
+    }
+
+    if (keyInfo.pending_wrapped_data_key && keyInfo.pending_data_key_version) {
+      pending = keyInfo.pending_data_key_version;
+      keys[pending] = await unwrapDataKey(keyInfo.pending_wrapped_data_key, privateKey);
+    }
+
+    setDataKeys(keys);
+    setDataKeyVersion(current);
+    setPendingKeyVersion(pending);
+  }
+
+  function clearDataKeys() {
+    setDataKeys({});
+    setDataKeyVersion(null);
+    setPendingKeyVersion(null);
+  }
+
+  // New data is written with the pending key during a rotation, so it never needs re-encryption.
+  // With a context the ciphertext is bound to its table, column and record.
+  async function encrypt(data: string, context?: CipherContext): Promise<string> {
+    const version = pendingKeyVersion ?? dataKeyVersion;
+    if (version === null || !dataKeys[version]) {
       throw new Error('No data key available');
     }
-    return encryptData(data, dataKey);
+    return encryptData(data, dataKeys[version], version, context);
   }
 
-  async function decrypt(encryptedData: string): Promise<string> {
+  // Throws IntegrityError when a bound ciphertext does not verify against the given context
+  async function decrypt(encryptedData: string, context?: CipherContext): Promise<string> {
     if (!dataKey) {
       throw new Error('No data key available');
     }
     try {
-      return await decryptData(encryptedData, dataKey);
-    } catch {
+      const key = dataKeys[getKeyVersion(encryptedData)];
+      if (!key) {
+        return encryptedData; // Encrypted with a key version we don't hold
+      }
+      return await decryptData(encryptedData, key, context);
+    } catch (e) {
+      if (e instanceof IntegrityError) {
+        throw e;
+      }
       return encryptedData; // Return as-is if decryption fails
     }
   }
 
+  async function tokensFor(member: SearchableMember, key: CryptoKey): Promise<string[]> {
+    const indexKey = await deriveBlindIndexKey(key);
+    return Promise.all(memberSearchTerms(member).map(term => blindIndexToken(indexKey, term)));
+  }
+
+  // Blind index tokens of a member, under the key new data is written with (see encrypt)
+  async function searchTokens(member: SearchableMember): Promise<string[]> {
+    const version = pendingKeyVersion ?? dataKeyVersion;
+    if (version === null || !dataKeys[version]) {
+      throw new Error('No data key available');
+    }
+    return tokensFor(member, dataKeys[version]);
+  }
+
+  // The q parameter of a member search: every word as a token under each data key held,
+  // since during a rotation members are indexed under either key
+  async function searchQuery(query: string): Promise<string> {
+    const indexKeys = await Promise.all(Object.values(dataKeys).map(deriveBlindIndexKey));
+    const terms = await Promise.all(queryTerms(query).map(async term =>
+      (await Promise.all(indexKeys.map(key => blindIndexToken(key, term)))).join('|')
+    ));
+    return terms.join(',');
+  }
+
+  // Recompute the search tokens of every member, e.g. of members created before the search index.
+  // Members whose fields fail verification are skipped.
+  async function rebuildSearchIndex(): Promise<{ indexed: number; failed: number }> {
+    if (!dataKey) {
+      throw new Error('No data key available');
+    }
+    const members = await membersApi.list();
+    const entries: Array<{ id: number; searchTokens: string[] }> = [];
+    let failed = 0;
+
+    for (const member of members) {
+      try {
+        const plaintext: SearchableMember = {};
+        for (const column of SEARCH_FIELDS) {
+          const value = member[column];
+          if (value) {
+            const key = dataKeys[getKeyVersion(value)];
+            if (!key) {
+              throw new Error(`No key for version ${getKeyVersion(value)}`);
+            }
+            plaintext[column] = await decryptData(value, key, { table: 'members', column, recordId: member.id });
+          }
+        }
+        entries.push({ id: member.id, searchTokens: await searchTokens(plaintext) });
+      } catch (e) {
+        console.error(`Failed to index member ${member.id}:`, e);
+        failed++;
+      }
+    }
+
+    for (let start = 0; start < entries.length; start += SEARCH_INDEX_BATCH_SIZE) {
+      await membersApi.updateSearchIndex(entries.slice(start, start + SEARCH_INDEX_BATCH_SIZE));
+    }
+    return { indexed: entries.length, failed };
+  }
+
+  // Re-store existing measurement records the way their type's sensitivity and the date setting
+  // now require: encrypt what became sensitive, decrypt what no longer is.
+  // Records whose ciphertexts fail verification are skipped.
+  async function convertMeasurements(onProgress?: (converted: number) => void): Promise<{ converted: number; failed: number }> {
+    if (!dataKey) {
+      throw new Error('No data key available');
+    }
+    const [{ dates }, types] = await Promise.all([dataApi.sensitivity(), measurementTypesApi.list()]);
+    let converted = 0;
+    let failed = 0;
+    let afterId = 0;
+
+    while (true) {
+      const { rows } = await dataApi.getConversionBatch(afterId, MEASUREMENT_CONVERSION_BATCH_SIZE);
+      if (rows.length === 0) break;
+      afterId = rows[rows.length - 1].id;
+
+      const batch: Array<{ id: number } & MeasurementValues> = [];
+      for (const row of rows) {
+        try {
+          const type = types.find(t => t.key === row.type)!;
+          const measurement = await decodeMeasurement(row, decrypt);
+          batch.push({ id: row.id, ...await encodeMeasurement(row.member_id, type, measurement, dates, encrypt) });
+        } catch (e) {
+          console.error(`Failed to convert measurement record ${row.id}:`, e);
+          failed++;
+        }
+      }
+      if (batch.length > 0) {
+        await dataApi.storeConversionBatch(batch);
+        converted += batch.length;
+        onProgress?.(converted);
+      }
+    }
+    return { converted, failed };
+  }
+
   async function wrapKeyForUser(userPublicKey: string): Promise<string> {
     if (!dataKey) {
       throw new Error('No data key available - cannot grant access');
@@ -221,10 +421,194 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
     return wrapDataKey(dataKey, importedPubKey);
   }
 
+  // During a rotation, newly granted users need the pending data key as well
+  async function wrapPendingKeyForUser(userPublicKey: string): Promise<string | undefined> {
+    if (pendingKeyVersion === null) {
+      return undefined;
+    }
+    const importedPubKey = await importPublicKey(userPublicKey);
+    return wrapDataKey(dataKeys[pendingKeyVersion], importedPubKey);
+  }
+
+  // Generate the next data key version and wrap it for every user holding the current one
+  async function startKeyRotation(): Promise<void> {
+    if (!dataKey || !keyPair || !user) {
+      throw new Error('No data key available - cannot rotate');
+    }
+    if (pendingKeyVersion !== null) {
+      throw new Error('A data key rotation is already in progress');
+    }
+
+    const newDataKey = await generateDataKey();
+    const recipients = await rotationApi.recipients();
+
+    const wrappedKeys: Array<{ userId: number; wrappedDataKey: string }> = [];
+    for (const recipient of recipients) {
+      const recipientKey = recipient.user_id === user.id
+        ? keyPair.publicKey
+        : await importPublicKey(recipient.public_key);
+      wrappedKeys.push({
+        userId: recipient.user_id,
+        wrappedDataKey: await wrapDataKey(newDataKey, recipientKey)
+      });
+    }
+
+    const { toVersion } = await rotationApi.start(wrappedKeys);
+    setDataKeys(keys => ({ ...keys, [toVersion]: newDataKey }));
+    setPendingKeyVersion(toVersion);
+  }
+
+  // Re-encrypt everything still using an older key version, batch by batch.
+  // Progress lives in the data itself (ciphertexts carry their key version),
+  // so an interrupted run is resumed by simply calling this again.
+  // Every ciphertext is re-encrypted bound to its record; rows that fail verification are not rotated.
+  // Members are re-indexed for search under the new key as they are re-encrypted.
+  async function runKeyRotation(onProgress: (progress: RotationProgress) => void): Promise<RotationProgress> {
+    if (pendingKeyVersion === null) {
+      throw new Error('No data key rotation in progress');
+    }
+    const newKey = dataKeys[pendingKeyVersion];
+    const progress: RotationProgress = {};
+
+    for (const table of ['members', 'member_history', 'users', 'llm_settings', 'data', 'measurement_goals']) {
+      progress[table] = { done: 0, failed: 0 };
+      let afterId = 0;
+
+      while (true) {
+        const { contextTable, columns, rows } = await rotationApi.getBatch(table, afterId, ROTATION_BATCH_SIZE);
+        if (rows.length === 0) break;
+
+        const reencrypted: Array<Record<string, any>> = [];
+        for (const row of rows) {
+          afterId = row.id;
+          try {
+            const updated: Record<string, any> = { id: row.id };
+            const searchable: SearchableMember = {};
+            const indexed = table === 'members';
+            for (const col of columns) {
+              const value = row[col];
+              const isSearchable = indexed && (SEARCH_FIELDS as readonly string[]).includes(col);
+              if (!value || (isCurrentEnvelope(value, pendingKeyVersion) && !isSearchable)) {
+                updated[col] = value;
+                continue;
+              }
+              const key = dataKeys[getKeyVersion(value)];
+              if (!key) {
+                throw new Error(`No key for version ${getKeyVersion(value)}`);
+              }
+              const context: CipherContext = { table: contextTable, column: col, recordId: row.record_id };
+              const plaintext = await decryptData(value, key, context);
+              if (isSearchable) {
+                searchable[col as keyof SearchableMember] = plaintext;
+              }
+              updated[col] = isCurrentEnvelope(value, pendingKeyVersion)
+                ? value
+                : await encryptData(plaintext, newKey, pendingKeyVersion, context);
+            }
+            if (indexed) {
+              updated.searchTokens = await tokensFor(searchable, newKey);
+            }
+            reencrypted.push(updated);
+          } catch (e) {
+            console.error(`Failed to re-encrypt ${table} row ${row.id}:`, e);
+            progress[table].failed++;
+          }
+        }
+
+        if (reencrypted.length > 0) {
+          await rotationApi.storeBatch(table, reencrypted);
+          progress[table].done += reencrypted.length;
+        }
+        onProgress({ ...progress });
+      }
+    }
+
+    const failed = Object.values(progress).reduce((sum, p) => sum + p.failed, 0);
+    if (failed === 0) {
+      await rotationApi.complete();
+      await loadKeys();
+    }
+
+    return progress;
+  }
+
+  // Split the current data key into Shamir shares, one wrapped for each custodian
+  async function createEscrow(
+    threshold: number,
+    custodians: Array<{ user_id: number; public_key: string }>
+  ): Promise<void> {
+    if (!dataKey || dataKeyVersion === null) {
+      throw new Error('No data key available - cannot create escrow');
+    }
+
+    const raw = await exportDataKey(dataKey);
+    const shares = split(raw, custodians.length, threshold);
+    raw.fill(0);
+
+    const wrappedShares = [];
+    for (let i = 0; i < custodians.length; i++) {
+      const publicKey = await importPublicKey(custodians[i].public_key);
+      wrappedShares.push({
+        userId: custodians[i].user_id,
+        shareIndex: shares[i].x,
+        wrappedShare: await wrapSecret(new Uint8Array(shares[i].y), publicKey)
+      });
+    }
+
+    const keyCheck = await encryptData(ESCROW_KEY_CHECK, dataKey, dataKeyVersion);
+    await escrowApi.create(threshold, keyCheck, wrappedShares);
+  }
+
+  // Custodian: unwrap own share and re-wrap it for the ceremony's target admin
+  async function approveCeremony(
+    ceremony: EscrowCeremony,
+    myShare: NonNullable<EscrowStatus['myShare']>
+  ): Promise<void> {
+    if (!keyPair) {
+      throw new Error('Encryption keys not loaded');
+    }
+    const share = await unwrapSecret(myShare.wrappedShare, keyPair.privateKey);
+    const targetKey = await importPublicKey(ceremony.targetPublicKey);
+    await escrowApi.approve(ceremony.id, await wrapSecret(share, targetKey));
+    share.fill(0);
+  }
+
+  // Target admin: reassemble the data key from the released shares and grant it to ourselves
+  async function completeCeremony(
+    ceremony: EscrowCeremony,
+    escrow: NonNullable<EscrowStatus['escrow']>
+  ): Promise<void> {
+    if (!keyPair) {
+      throw new Error('Encryption keys not loaded');
+    }
+
+    const shares = [];
+    for (const approval of ceremony.approvals) {
+      if (approval.releasedShare) {
+        shares.push({ x: approval.shareIndex, y: await unwrapSecret(approval.releasedShare, keyPair.privateKey) });
+      }
+    }
+    if (shares.length < escrow.threshold) {
+      throw new Error(`${escrow.threshold - shares.length} more approval(s) required`);
+    }
+
+    const raw = combine(shares);
+    const recoveredKey = await importDataKey(new Uint8Array(raw));
+    raw.fill(0);
+
+    const check = await decryptData(escrow.keyCheck, recoveredKey).catch(() => null);
+    if (check !== ESCROW_KEY_CHECK) {
+      throw new Error('The reassembled key does not match the escrow - a released share is invalid');
+    }
+
+    await escrowApi.complete(ceremony.id, await wrapDataKey(recoveredKey, keyPair.publicKey));
+    await loadKeys();
+  }
+
   async function clearKeys(): Promise<void> {
     await clearStoredKeys();
     setKeyPair(null);
-    setDataKey(null);
+    clearDataKeys();
     setPublicKeyString(null);
     setNeedsKeySetup(false);
   }
@@ -238,13 +622,26 @@ export function CryptoProvider({ children }: { children: ReactNode }) {
       value={{
         publicKey: publicKeyString,
         hasDataKey: !!dataKey,
+        dataKeyVersion,
+        pendingKeyVersion,
         needsKeySetup,
         needsRelogin,
         loading,
         setupKeys,
+        createRecoveryCode,
         encrypt,
         decrypt,
+        searchTokens,
+        searchQuery,
+        rebuildSearchIndex,
+        convertMeasurements,
         wrapKeyForUser,
+        wrapPendingKeyForUser,
+        startKeyRotation,
+        runKeyRotation,
+        createEscrow,
+        approveCeremony,
+        completeCeremony,
         clearKeys,
         reloadKeys
       }}
@@ -1,6 +1,8 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { llmApi, LlmSettings } from '../utils/api';
 import { useCrypto } from './CryptoContext';
+import { useAuth } from './AuthContext';
+import { CipherContext } from '../utils/crypto';
 import { LLM_SYSTEM_PROMPT, MaskMapping, unmaskResponse } from '../utils/masking';
 
 interface LlmContextType {
@@ -19,6 +21,7 @@ interface LlmContextType {
 const LlmContext = createContext<LlmContextType | null>(null);
 
 export function LlmProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
   const { encrypt, decrypt, hasDataKey } = useCrypto();
   const [settings, setSettings] = useState<LlmSettings | null>(null);
   const [loading, setLoading] = useState(true);
@@ -28,16 +31,21 @@ export function LlmProvider({ children }: { children: ReactNode }) {
     loadSettings();
   }, []);
 
+  // The API key ciphertext is bound to its owner (llm_settings rows are keyed by user)
+  function apiKeyContext(): CipherContext {
+    return { table: 'llm_settings', column: 'encrypted_api_key', recordId: user!.id };
+  }
+
   useEffect(() => {
     // Decrypt API key when settings and data key are available
-    if (settings?.encryptedApiKey && hasDataKey) {
-      decrypt(settings.encryptedApiKey)
+    if (settings?.encryptedApiKey && hasDataKey && user) {
+      decrypt(settings.encryptedApiKey, apiKeyContext())
         .then(key => setDecryptedApiKey(key))
         .catch(err => console.error('Failed to decrypt API key:', err));
     } else {
       setDecryptedApiKey(null);
     }
-  }, [settings, hasDataKey, decrypt]);
+  }, [settings, hasDataKey, decrypt, user]);
 
   async function loadSettings() {
     setLoading(true);
@@ -52,11 +60,11 @@ export function LlmProvider({ children }: { children: ReactNode }) {
   }
 
   async function saveApiKey(apiKey: string, endpoint?: string) {
-    if (!hasDataKey) {
+    if (!hasDataKey || !user) {
       throw new Error('No data key available');
     }
 
-    const encryptedApiKey = await encrypt(apiKey);
+    const encryptedApiKey = await encrypt(apiKey, apiKeyContext());
     await llmApi.updateSettings({
       provider: 'gemini',
       endpoint: endpoint || settings?.endpoint,
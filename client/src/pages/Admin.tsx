@@ -1,16 +1,28 @@
 import { useState, useEffect } from 'react';
-import { usersApi, keysApi, auditApi, AuditLog } from '../utils/api';
-import { useCrypto } from '../context/CryptoContext';
+import {
+  usersApi, keysApi, auditApi, rotationApi, escrowApi, rolesApi, membersApi, erasuresApi, dataApi,
+  AuditLog, RotationStatus, EscrowStatus, Role, RolePermissions, Member, ErasureRequest, ErasureReceipt,
+  measurementTypesApi, MeasurementType, MeasurementSensitivity, ValueComponent
+} from '../utils/api';
+import { useAuth } from '../context/AuthContext';
+import { useCrypto, RotationProgress } from '../context/CryptoContext';
+import { downloadFile } from '../utils/export';
 
 interface User {
   id: number;
   username: string;
   name: string;
   surname: string;
+  birthdate: string;
+  email: string;
   role_name: string;
   is_active: number;
 }
 
+// Encrypted PII columns of a user, editable from the users tab
+const USER_PII_FIELDS = ['name', 'surname', 'birthdate', 'email'] as const;
+type UserPii = Record<typeof USER_PII_FIELDS[number], string>;
+
 interface UserKeyInfo {
   userId: number;
   hasPublicKey: boolean;
@@ -18,21 +30,62 @@ interface UserKeyInfo {
   publicKey: string;
 }
 
-interface Role {
-  id: number;
-  name: string;
+type AdminTab = 'users' | 'keys' | 'escrow' | 'roles' | 'erasures' | 'measurements' | 'sensitivity' | 'audit';
+
+// Capability needed to open each tab
+const TAB_PERMISSIONS: Record<AdminTab, string> = {
+  users: 'user:read',
+  keys: 'keys:rotate',
+  escrow: 'keys:escrow',
+  roles: 'roles:manage',
+  erasures: 'member:erase',
+  measurements: 'measurement_type:manage',
+  sensitivity: 'weight:sensitivity',
+  audit: 'audit:read'
+};
+
+const TAB_LABELS: Record<AdminTab, string> = {
+  users: 'Users',
+  keys: 'Data Key',
+  escrow: 'Key Escrow',
+  roles: 'Roles',
+  erasures: 'Erasures',
+  measurements: 'Measurement Types',
+  sensitivity: 'Data Sensitivity',
+  audit: 'Audit Log'
+};
+
+// Value component as edited in the new measurement type form
+interface ComponentInput {
+  key: string;
+  label: string;
+  min: string;
+  max: string;
+  integer: boolean;
 }
 
-type AdminTab = 'users' | 'audit';
+const EMPTY_COMPONENT: ComponentInput = { key: 'value', label: '', min: '', max: '', integer: false };
+
+function describeComponent(c: ValueComponent) {
+  const range = c.min !== undefined || c.max !== undefined ? ` ${c.min ?? ''}–${c.max ?? ''}` : '';
+  return `${c.label}${range}${c.integer ? ', whole numbers' : ''}`;
+}
 
 export default function Admin() {
-  const { encrypt, wrapKeyForUser, hasDataKey } = useCrypto();
-  const [activeTab, setActiveTab] = useState<AdminTab>('users');
+  const { user: currentUser, hasPermission } = useAuth();
+  const tabs = (Object.keys(TAB_PERMISSIONS) as AdminTab[]).filter(tab => hasPermission(TAB_PERMISSIONS[tab]));
+  const {
+    encrypt, decrypt, wrapKeyForUser, wrapPendingKeyForUser, hasDataKey,
+    dataKeyVersion, pendingKeyVersion, startKeyRotation, runKeyRotation, convertMeasurements,
+    createEscrow, approveCeremony, completeCeremony
+  } = useCrypto();
+  const [activeTab, setActiveTab] = useState<AdminTab>(tabs[0] ?? 'users');
   const [users, setUsers] = useState<User[]>([]);
   const [userKeys, setUserKeys] = useState<Record<number, UserKeyInfo>>({});
   const [roles, setRoles] = useState<Role[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionStatus, setActionStatus] = useState<Record<number, string>>({});
+  const [bootstrap, setBootstrap] = useState<Awaited<ReturnType<typeof keysApi.bootstrapStatus>> | null>(null);
 
   // Audit state
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
@@ -43,6 +96,51 @@ export default function Admin() {
   const [filterAction, setFilterAction] = useState<string>('');
   const AUDIT_PAGE_SIZE = 25;
 
+  // Data key rotation state
+  const [rotationStatus, setRotationStatus] = useState<RotationStatus | null>(null);
+  const [rotationProgress, setRotationProgress] = useState<RotationProgress | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [rotationError, setRotationError] = useState('');
+
+  // Key escrow state
+  const [escrowStatus, setEscrowStatus] = useState<EscrowStatus | null>(null);
+  const [escrowCandidates, setEscrowCandidates] = useState<Array<{ user_id: number; username: string; public_key: string }>>([]);
+  const [selectedCustodians, setSelectedCustodians] = useState<Set<number>>(new Set());
+  const [escrowThreshold, setEscrowThreshold] = useState(2);
+  const [ceremonyTargetId, setCeremonyTargetId] = useState<number | ''>('');
+  const [escrowBusy, setEscrowBusy] = useState(false);
+  const [escrowError, setEscrowError] = useState('');
+  const [escrowMessage, setEscrowMessage] = useState('');
+
+  // Roles state
+  const [rolePermissions, setRolePermissions] = useState<RolePermissions | null>(null);
+  const [newRoleName, setNewRoleName] = useState('');
+  const [rolesError, setRolesError] = useState('');
+
+  // Erasure state
+  const [erasures, setErasures] = useState<ErasureRequest[]>([]);
+  const [erasureMembers, setErasureMembers] = useState<Array<{ id: number; label: string }>>([]);
+  const [erasureMemberId, setErasureMemberId] = useState<number | ''>('');
+  const [erasureReason, setErasureReason] = useState('');
+  const [erasureError, setErasureError] = useState('');
+  const [erasureReceipt, setErasureReceipt] = useState<ErasureReceipt | null>(null);
+
+  // Measurement types state
+  const [measurementTypes, setMeasurementTypes] = useState<MeasurementType[]>([]);
+  const [measurementTypesError, setMeasurementTypesError] = useState('');
+  const [newTypeKey, setNewTypeKey] = useState('');
+  const [newTypeName, setNewTypeName] = useState('');
+  const [newTypeUnit, setNewTypeUnit] = useState('');
+  const [newTypeSensitive, setNewTypeSensitive] = useState(false);
+  const [newTypeComponents, setNewTypeComponents] = useState<ComponentInput[]>([EMPTY_COMPONENT]);
+
+  // Measurement sensitivity state
+  const [measurementSensitivity, setMeasurementSensitivity] = useState<MeasurementSensitivity | null>(null);
+  const [sensitiveDatesInput, setSensitiveDatesInput] = useState(false);
+  const [convertingMeasurements, setConvertingMeasurements] = useState(false);
+  const [sensitivityError, setSensitivityError] = useState('');
+  const [sensitivityMessage, setSensitivityMessage] = useState('');
+
   // New user form
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -50,13 +148,25 @@ export default function Admin() {
   const [surname, setSurname] = useState('');
   const [birthdate, setBirthdate] = useState('');
   const [email, setEmail] = useState('');
-  const [roleId, setRoleId] = useState('');
+  const [roleName, setRoleName] = useState('');
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
+  // Edit user modal
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [editFields, setEditFields] = useState<UserPii>({ name: '', surname: '', birthdate: '', email: '' });
+  const [editSaving, setEditSaving] = useState(false);
+  const [editError, setEditError] = useState('');
+
   useEffect(() => {
-    loadData();
+    keysApi.bootstrapStatus().then(setBootstrap).catch(() => setBootstrap(null));
+    if (hasPermission('user:read')) {
+      loadData();
+    }
+    if (hasPermission('keys:rotate')) {
+      loadRotationStatus();
+    }
   }, []);
 
   useEffect(() => {
@@ -66,6 +176,404 @@ export default function Admin() {
     }
   }, [activeTab, auditPage, filterAction]);
 
+  useEffect(() => {
+    if (activeTab === 'keys') {
+      loadRotationStatus();
+    }
+    if (activeTab === 'escrow') {
+      loadEscrow();
+    }
+    if (activeTab === 'roles') {
+      loadRoles();
+    }
+    if (activeTab === 'erasures') {
+      loadErasures();
+    }
+    if (activeTab === 'measurements') {
+      loadMeasurementTypes();
+    }
+    if (activeTab === 'sensitivity') {
+      loadMeasurementSensitivity();
+    }
+  }, [activeTab]);
+
+  async function loadMeasurementTypes() {
+    try {
+      setMeasurementTypes(await measurementTypesApi.list());
+    } catch (err: any) {
+      setMeasurementTypesError(err.message || 'Failed to load measurement types');
+    }
+  }
+
+  async function runMeasurementTypeAction(action: () => Promise<unknown>) {
+    setMeasurementTypesError('');
+    try {
+      await action();
+    } catch (err: any) {
+      setMeasurementTypesError(err.message || 'Measurement type update failed');
+    }
+    loadMeasurementTypes();
+  }
+
+  function updateNewTypeComponent(index: number, update: Partial<ComponentInput>) {
+    setNewTypeComponents(prev => prev.map((c, i) => i === index ? { ...c, ...update } : c));
+  }
+
+  function handleCreateMeasurementType(e: React.FormEvent) {
+    e.preventDefault();
+    const components: ValueComponent[] = newTypeComponents.map(c => ({
+      key: c.key.trim(),
+      label: c.label.trim(),
+      ...(c.min !== '' ? { min: Number(c.min) } : {}),
+      ...(c.max !== '' ? { max: Number(c.max) } : {}),
+      ...(c.integer ? { integer: true } : {})
+    }));
+    runMeasurementTypeAction(async () => {
+      await measurementTypesApi.create(newTypeKey.trim(), {
+        name: newTypeName.trim(),
+        unit: newTypeUnit.trim(),
+        valueSchema: { components },
+        sensitive: newTypeSensitive
+      });
+      setNewTypeKey('');
+      setNewTypeName('');
+      setNewTypeUnit('');
+      setNewTypeSensitive(false);
+      setNewTypeComponents([EMPTY_COMPONENT]);
+    });
+  }
+
+  function handleEditMeasurementType(type: MeasurementType) {
+    const name = prompt(`Name of ${type.key}:`, type.name);
+    if (name === null) return;
+    // Bounds are in the unit, so it only changes while nothing has been recorded in it
+    const unit = type.built_in || type.record_count > 0 ? type.unit : prompt(`Unit of ${type.key}:`, type.unit);
+    if (unit === null) return;
+    runMeasurementTypeAction(() => measurementTypesApi.update(type.key, { name: name.trim(), unit: unit.trim() }));
+  }
+
+  function handleToggleTypeSensitive(type: MeasurementType) {
+    const message = type.sensitive
+      ? `Store ${type.name} values in plaintext again? Existing records must then be converted (Data Sensitivity tab).`
+      : `Encrypt ${type.name} values? The server can no longer sort by them, and existing records must be converted (Data Sensitivity tab).`;
+    if (confirm(message)) {
+      runMeasurementTypeAction(() => measurementTypesApi.update(type.key, { name: type.name, unit: type.unit, sensitive: !type.sensitive }));
+    }
+  }
+
+  function handleDeleteMeasurementType(type: MeasurementType) {
+    if (confirm(`Delete measurement type ${type.name}?`)) {
+      runMeasurementTypeAction(() => measurementTypesApi.delete(type.key));
+    }
+  }
+
+  async function loadMeasurementSensitivity() {
+    try {
+      const sensitivity = await dataApi.sensitivity();
+      setMeasurementSensitivity(sensitivity);
+      setSensitiveDatesInput(sensitivity.dates);
+    } catch (err: any) {
+      setSensitivityError(err.message || 'Failed to load data sensitivity');
+    }
+  }
+
+  async function handleSaveSensitivity(e: React.FormEvent) {
+    e.preventDefault();
+    setSensitivityError('');
+    setSensitivityMessage('');
+    try {
+      const sensitivity = await dataApi.updateSensitivity(sensitiveDatesInput);
+      setMeasurementSensitivity(sensitivity);
+      setSensitivityMessage('Saved. New measurements are stored accordingly.');
+    } catch (err: any) {
+      setSensitivityError(err.message || 'Failed to save data sensitivity');
+    }
+  }
+
+  // Encrypts or decrypts existing records in this browser; safe to run again after an interruption
+  async function handleConvertMeasurements() {
+    setConvertingMeasurements(true);
+    setSensitivityError('');
+    setSensitivityMessage('');
+    try {
+      const { converted, failed } = await convertMeasurements(count => setSensitivityMessage(`${count} record(s) converted...`));
+      setSensitivityMessage(`${converted} record(s) converted.`);
+      if (failed > 0) {
+        setSensitivityError(`${failed} record(s) could not be decrypted and were left as they are.`);
+      }
+    } catch (err: any) {
+      setSensitivityError(err.message || 'Conversion failed');
+    } finally {
+      setConvertingMeasurements(false);
+      loadMeasurementSensitivity();
+    }
+  }
+
+  async function loadErasures() {
+    try {
+      const [requests, members] = await Promise.all([erasuresApi.list(), membersApi.list()]);
+      setErasures(requests);
+      setErasureMembers(await Promise.all(members.map(async (m: Member) => ({ id: m.id, label: await memberLabel(m) }))));
+    } catch (error) {
+      console.error('Error loading erasures:', error);
+    }
+  }
+
+  // Decrypted name of a member for the erasure form, falling back to the id
+  async function memberLabel(member: Member): Promise<string> {
+    const parts: string[] = [];
+    for (const column of ['name', 'surname'] as const) {
+      const value = member[column];
+      if (!value || !hasDataKey) continue;
+      try {
+        parts.push(await decrypt(value, { table: 'members', column, recordId: member.id }));
+      } catch {
+        // Unreadable values are left out
+      }
+    }
+    const name = parts.join(' ').trim();
+    return `#${member.id}${name ? ` ${name}` : ''}${member.deleted ? ' (deleted)' : ''}`;
+  }
+
+  async function handleRequestErasure(e: React.FormEvent) {
+    e.preventDefault();
+    if (erasureMemberId === '') return;
+    setErasureError('');
+    try {
+      await erasuresApi.create(erasureMemberId, erasureReason);
+      setErasureMemberId('');
+      setErasureReason('');
+      loadErasures();
+    } catch (err: any) {
+      setErasureError(err.message || 'Failed to request erasure');
+    }
+  }
+
+  async function handleExecuteErasure(request: ErasureRequest) {
+    if (!confirm(`Erase member #${request.member_id}? Their encrypted data, history and measurements are deleted permanently.`)) {
+      return;
+    }
+    setErasureError('');
+    try {
+      setErasureReceipt(await erasuresApi.execute(request.id));
+      loadErasures();
+    } catch (err: any) {
+      setErasureError(err.message || 'Failed to erase member');
+    }
+  }
+
+  async function handleCancelErasure(request: ErasureRequest) {
+    setErasureError('');
+    try {
+      await erasuresApi.cancel(request.id);
+      loadErasures();
+    } catch (err: any) {
+      setErasureError(err.message || 'Failed to cancel erasure request');
+    }
+  }
+
+  async function handleShowReceipt(request: ErasureRequest) {
+    setErasureError('');
+    try {
+      setErasureReceipt(await erasuresApi.receipt(request.id));
+    } catch (err: any) {
+      setErasureError(err.message || 'Failed to load receipt');
+    }
+  }
+
+  function handleDownloadReceipt(receipt: ErasureReceipt) {
+    downloadFile(`erasure-receipt-${receipt.receipt.requestId}.json`, JSON.stringify(receipt, null, 2), 'application/json');
+  }
+
+  async function loadRoles() {
+    try {
+      const [rolesResult, permissionsResult] = await Promise.all([rolesApi.list(), rolesApi.getPermissions()]);
+      setRoles(rolesResult);
+      setRolePermissions(permissionsResult);
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  }
+
+  // Runs a role change, then reloads roles and capabilities
+  async function runRoleAction(action: () => Promise<unknown>) {
+    setRolesError('');
+    try {
+      await action();
+    } catch (err: any) {
+      setRolesError(err.message || 'Role update failed');
+    }
+    loadRoles();
+  }
+
+  function handleTogglePermission(roleId: number, permission: string) {
+    const role = rolePermissions!.roles.find(r => r.id === roleId)!;
+    const next = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : [...role.permissions, permission];
+    runRoleAction(() => rolesApi.setPermissions(roleId, next));
+  }
+
+  function handleCreateRole(e: React.FormEvent) {
+    e.preventDefault();
+    runRoleAction(async () => {
+      await rolesApi.create(newRoleName.trim());
+      setNewRoleName('');
+    });
+  }
+
+  function handleRenameRole(role: Role) {
+    const name = prompt(`New name for ${role.name}:`, role.name);
+    if (name && name.trim() !== role.name) {
+      runRoleAction(() => rolesApi.rename(role.id, name.trim()));
+    }
+  }
+
+  function handleDeleteRole(role: Role) {
+    if (confirm(`Delete role ${role.name}?`)) {
+      runRoleAction(() => rolesApi.delete(role.id));
+    }
+  }
+
+  async function handleChangeUserRole(user: User, roleId: number) {
+    const role = roles.find(r => r.id === roleId);
+    if (!role || !confirm(`Change the role of ${user.username} to ${role.name}?`)) {
+      return;
+    }
+    setActionStatus(prev => ({ ...prev, [user.id]: 'Changing role...' }));
+    try {
+      await usersApi.setRole(user.id, roleId);
+      setActionStatus(prev => ({ ...prev, [user.id]: 'Role changed' }));
+      loadData();
+    } catch (err: any) {
+      setActionStatus(prev => ({ ...prev, [user.id]: `Error: ${err.message}` }));
+    }
+  }
+
+  async function loadEscrow() {
+    try {
+      const [status, candidates] = await Promise.all([escrowApi.status(), escrowApi.candidates()]);
+      setEscrowStatus(status);
+      setEscrowCandidates(candidates);
+    } catch (error) {
+      console.error('Error loading escrow:', error);
+    }
+  }
+
+  // Runs an escrow step, then reloads the escrow state
+  async function runEscrowAction(action: () => Promise<void>, message: string) {
+    setEscrowBusy(true);
+    setEscrowError('');
+    setEscrowMessage('');
+    try {
+      await action();
+      setEscrowMessage(message);
+    } catch (err: any) {
+      setEscrowError(err.message || 'Escrow action failed');
+    } finally {
+      setEscrowBusy(false);
+      loadEscrow();
+    }
+  }
+
+  function toggleCustodian(userId: number) {
+    setSelectedCustodians(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  }
+
+  function handleCreateEscrow() {
+    const custodians = escrowCandidates.filter(c => selectedCustodians.has(c.user_id));
+    if (!confirm(
+      `Split the data key into ${custodians.length} shares? Any ${escrowThreshold} custodians together ` +
+      'can then recover the data key. This replaces the existing escrow.'
+    )) {
+      return;
+    }
+    runEscrowAction(async () => {
+      await createEscrow(escrowThreshold, custodians);
+      setSelectedCustodians(new Set());
+    }, 'Escrow created');
+  }
+
+  function handleStartCeremony() {
+    const targetId = ceremonyTargetId || currentUser!.id;
+    runEscrowAction(async () => { await escrowApi.startCeremony(targetId); }, 'Recovery ceremony started');
+  }
+
+  function handleApproveCeremony() {
+    const { ceremony, myShare } = escrowStatus!;
+    if (!confirm(`Release your share so that ${ceremony!.targetUsername} can recover the data key?`)) {
+      return;
+    }
+    runEscrowAction(() => approveCeremony(ceremony!, myShare!), 'Your share was released');
+  }
+
+  function handleCompleteCeremony() {
+    const { ceremony, escrow } = escrowStatus!;
+    runEscrowAction(() => completeCeremony(ceremony!, escrow!), 'Data key recovered - you now have access');
+  }
+
+  function handleCancelCeremony() {
+    if (!confirm('Cancel the recovery ceremony? Released shares are discarded.')) {
+      return;
+    }
+    runEscrowAction(async () => { await escrowApi.cancel(escrowStatus!.ceremony!.id); }, 'Ceremony cancelled');
+  }
+
+  async function loadRotationStatus() {
+    try {
+      setRotationStatus(await rotationApi.status());
+    } catch (error) {
+      console.error('Error loading rotation status:', error);
+    }
+  }
+
+  async function handleRotateKey() {
+    if (!confirm(
+      'Rotate the data key? A new key is generated, all encrypted data is re-encrypted in this browser ' +
+      'and every user with access receives the new key.'
+    )) {
+      return;
+    }
+
+    setRotating(true);
+    setRotationError('');
+    setRotationProgress(null);
+    try {
+      await startKeyRotation();
+      loadRotationStatus();
+    } catch (err: any) {
+      setRotationError(err.message || 'Failed to start rotation');
+    } finally {
+      setRotating(false);
+    }
+  }
+
+  // Re-encrypts with the pending key; safe to run again after an interruption
+  async function handleContinueRotation() {
+    setRotating(true);
+    setRotationError('');
+    try {
+      const progress = await runKeyRotation(setRotationProgress);
+      const failed = Object.values(progress).reduce((sum, p) => sum + p.failed, 0);
+      if (failed > 0) {
+        setRotationError(`${failed} row(s) could not be decrypted and still use the old key. Rotation not completed.`);
+      }
+    } catch (err: any) {
+      setRotationError(err.message || 'Rotation failed');
+    } finally {
+      setRotating(false);
+      loadRotationStatus();
+    }
+  }
+
   async function loadAuditLogs() {
     setAuditLoading(true);
     try {
@@ -97,12 +605,12 @@ export default function Admin() {
     try {
       const [usersResult, rolesResult] = await Promise.all([
         usersApi.list(),
-        keysApi.getRoles()
+        rolesApi.list()
       ]);
       setUsers(usersResult);
       setRoles(rolesResult);
-      if (rolesResult.length > 0 && !roleId) {
-        setRoleId(rolesResult.find(r => r.name === 'view-role')?.name || rolesResult[0].name);
+      if (rolesResult.length > 0 && !roleName) {
+        setRoleName(rolesResult.find(r => r.name === 'view-role')?.name || rolesResult[0].name);
       }
 
       // Load key info for each user
@@ -158,7 +666,7 @@ export default function Admin() {
         surname: '',
         birthdate: '',
         email: '',
-        roleId,
+        roleName,
         publicKey: '' // User will set this up on first login
       });
 
@@ -187,7 +695,8 @@ export default function Admin() {
     setActionStatus({ ...actionStatus, [userId]: 'Granting...' });
     try {
       const wrappedKey = await wrapKeyForUser(keyInfo.publicKey);
-      await keysApi.grant(userId, wrappedKey);
+      const pendingWrappedKey = await wrapPendingKeyForUser(keyInfo.publicKey);
+      await keysApi.grant(userId, wrappedKey, pendingWrappedKey);
       setActionStatus({ ...actionStatus, [userId]: 'Access granted!' });
       loadData();
     } catch (err: any) {
@@ -195,6 +704,28 @@ export default function Admin() {
     }
   }
 
+  async function handleRevokeAccess(userId: number) {
+    if (!confirm('Revoke this user\'s data access? Their wrapped data key is removed and they are logged out.')) {
+      return;
+    }
+
+    setActionStatus({ ...actionStatus, [userId]: 'Revoking...' });
+    try {
+      await keysApi.revoke(userId);
+      setActionStatus({ ...actionStatus, [userId]: 'Access revoked.' });
+      loadData();
+      loadRotationStatus();
+      if (confirm(
+        'Access revoked. The user may still have a cached copy of the data key. ' +
+        'Rotate the data key now to make that copy useless?'
+      )) {
+        setActiveTab('keys');
+      }
+    } catch (err: any) {
+      setActionStatus({ ...actionStatus, [userId]: `Error: ${err.message}` });
+    }
+  }
+
   async function handleResetKeys(userId: number) {
     if (!confirm('Reset this user\'s keys? They will need to set up keys again and you\'ll need to grant access again.')) {
       return;
@@ -210,6 +741,82 @@ export default function Admin() {
     }
   }
 
+  async function handleOpenEditUser(user: User) {
+    // Each field is bound to this user's record, see CipherContext
+    const fields = { name: '', surname: '', birthdate: '', email: '' };
+    for (const column of USER_PII_FIELDS) {
+      if (user[column]) {
+        try {
+          fields[column] = await decrypt(user[column], { table: 'users', column, recordId: user.id });
+        } catch {
+          fields[column] = '';
+        }
+      }
+    }
+    setEditFields(fields);
+    setEditError('');
+    setEditingUser(user);
+  }
+
+  async function handleSaveUser(e: React.FormEvent) {
+    e.preventDefault();
+    const user = editingUser!;
+    setEditSaving(true);
+    setEditError('');
+    try {
+      const update: Partial<Record<keyof UserPii, string | null>> = {};
+      for (const column of USER_PII_FIELDS) {
+        const value = editFields[column].trim();
+        update[column] = value ? await encrypt(value, { table: 'users', column, recordId: user.id }) : null;
+      }
+      await usersApi.update(user.id, update);
+      setEditingUser(null);
+      setActionStatus(prev => ({ ...prev, [user.id]: 'Profile updated' }));
+      loadData();
+    } catch (err: any) {
+      setEditError(err.message || 'Failed to update user');
+    } finally {
+      setEditSaving(false);
+    }
+  }
+
+  async function handleToggleActive(user: User) {
+    const deactivate = !!user.is_active;
+    if (deactivate && !confirm(`Deactivate ${user.username}? They are logged out and can't log in until reactivated.`)) {
+      return;
+    }
+
+    setActionStatus(prev => ({ ...prev, [user.id]: deactivate ? 'Deactivating...' : 'Reactivating...' }));
+    try {
+      if (deactivate) {
+        await usersApi.deactivate(user.id);
+      } else {
+        await usersApi.reactivate(user.id);
+      }
+      setActionStatus(prev => ({ ...prev, [user.id]: deactivate ? 'Deactivated' : 'Reactivated' }));
+      loadData();
+    } catch (err: any) {
+      setActionStatus(prev => ({ ...prev, [user.id]: `Error: ${err.message}` }));
+    }
+  }
+
+  async function handleDeleteUser(user: User) {
+    if (!confirm(
+      `Permanently delete ${user.username}? Their keys, recovery code and LLM settings are deleted too. ` +
+      'This cannot be undone.'
+    )) {
+      return;
+    }
+
+    setActionStatus(prev => ({ ...prev, [user.id]: 'Deleting...' }));
+    try {
+      await usersApi.delete(user.id);
+      loadData();
+    } catch (err: any) {
+      setActionStatus(prev => ({ ...prev, [user.id]: `Error: ${err.message}` }));
+    }
+  }
+
   function getKeyStatus(userId: number) {
     const info = userKeys[userId];
     if (!info) return <span style={{ color: '#999' }}>Loading...</span>;
@@ -238,13 +845,41 @@ export default function Admin() {
       'USER_CREATE': '#007bff',
       'USER_UPDATE': '#007bff',
       'USER_DEACTIVATE': '#ffc107',
+      'USER_REACTIVATE': '#28a745',
+      'USER_DELETE': '#dc3545',
       'KEY_SETUP': '#6f42c1',
       'KEY_RESET': '#fd7e14',
       'ACCESS_GRANT': '#20c997',
+      'ACCESS_REVOKE': '#dc3545',
+      'KEY_ROTATE': '#6f42c1',
+      'KDF_UPGRADE': '#6f42c1',
+      'RECOVERY_SETUP': '#6f42c1',
+      'KEY_RECOVER': '#fd7e14',
+      'KEY_ESCROW': '#6f42c1',
+      'ESCROW_CEREMONY': '#fd7e14',
+      'PERMISSION_CHANGE': '#6f42c1',
+      'ROLE_CREATE': '#17a2b8',
+      'ROLE_UPDATE': '#6f42c1',
+      'ROLE_DELETE': '#dc3545',
       'WEIGHT_CREATE': '#e83e8c',
       'WEIGHT_DELETE': '#dc3545',
+      'WEIGHT_RESTORE': '#28a745',
+      'WEIGHT_IMPORT': '#e83e8c',
+      'WEIGHT_SENSITIVITY_UPDATE': '#6f42c1',
+      'MEASUREMENT_TYPE_CREATE': '#e83e8c',
+      'MEASUREMENT_TYPE_UPDATE': '#e83e8c',
+      'MEASUREMENT_TYPE_DELETE': '#dc3545',
       'MEMBER_CREATE': '#17a2b8',
-      'MEMBER_DELETE': '#dc3545'
+      'MEMBER_UPDATE': '#17a2b8',
+      'MEMBER_DELETE': '#dc3545',
+      'MEMBER_RESTORE': '#28a745',
+      'MEMBER_EXPORT': '#fd7e14',
+      'MEMBER_IMPORT': '#17a2b8',
+      'TRASH_RETENTION_UPDATE': '#6c757d',
+      'TRASH_PURGE': '#dc3545',
+      'ERASURE_REQUEST': '#fd7e14',
+      'ERASURE_COMPLETE': '#dc3545',
+      'ERASURE_CANCEL': '#6c757d'
     };
     return (
       <span style={{
@@ -268,21 +903,51 @@ export default function Admin() {
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 }}>
           <h2>Admin Panel</h2>
           <div className="tabs">
-            <button
-              className={`tab ${activeTab === 'users' ? 'active' : ''}`}
-              onClick={() => setActiveTab('users')}
-            >
-              Users
-            </button>
-            <button
-              className={`tab ${activeTab === 'audit' ? 'active' : ''}`}
-              onClick={() => setActiveTab('audit')}
-            >
-              Audit Log
-            </button>
+            {tabs.map(tab => (
+              <button
+                key={tab}
+                className={`tab ${activeTab === tab ? 'active' : ''}`}
+                onClick={() => setActiveTab(tab)}
+              >
+                {TAB_LABELS[tab]}
+              </button>
+            ))}
           </div>
         </div>
 
+        {bootstrap && !bootstrap.seedRetired && (
+          <div style={{
+            backgroundColor: '#e7f1ff',
+            border: '1px solid #b6d4fe',
+            borderRadius: 8,
+            padding: 20,
+            marginBottom: 20
+          }}>
+            <h3 style={{ margin: 0, marginBottom: 10 }}>First-Run Setup</h3>
+            <ol style={{ margin: 0, paddingLeft: 20, fontSize: 14, lineHeight: 1.8 }}>
+              {[
+                { done: bootstrap.adminCreated, text: 'Create a real admin user (admin-role) in the Users tab' },
+                {
+                  done: bootstrap.adminHasDataKey,
+                  text: 'Log in as that admin and set up encryption keys - this generates the data key'
+                },
+                { done: bootstrap.seedRetired, text: 'The seed account is then deactivated automatically' }
+              ].map(step => (
+                <li key={step.text} style={{ color: step.done ? '#28a745' : undefined }}>
+                  {step.done ? '\u2713 ' : ''}{step.text}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {rotationStatus?.rotationRequired && activeTab !== 'keys' && (
+          <div className="error" style={{ marginBottom: 20 }}>
+            Data key rotation required: {rotationStatus.rotationRequired}.{' '}
+            <a href="#" onClick={(e) => { e.preventDefault(); setActiveTab('keys'); }}>Rotate the data key</a>
+          </div>
+        )}
+
         {activeTab === 'users' && (
           <>
             {!hasDataKey && (
@@ -292,7 +957,7 @@ export default function Admin() {
             )}
 
             {/* Pending Access Requests - Prominent Section */}
-        {pendingAccessUsers.length > 0 && (
+        {pendingAccessUsers.length > 0 && hasPermission('keys:grant') && (
           <div style={{
             backgroundColor: '#fff3cd',
             border: '2px solid #ffc107',
@@ -358,6 +1023,8 @@ export default function Admin() {
           </div>
         )}
 
+        {hasPermission('user:create') && (
+        <>
         <h3>Create New User</h3>
         <form onSubmit={handleCreateUser} style={{ marginBottom: 30 }}>
           {error && <div className="error">{error}</div>}
@@ -388,8 +1055,8 @@ export default function Admin() {
               <label>Role</label>
               <select
                 className="input"
-                value={roleId}
-                onChange={(e) => setRoleId(e.target.value)}
+                value={roleName}
+                onChange={(e) => setRoleName(e.target.value)}
               >
                 {roles.map((role) => (
                   <option key={role.id} value={role.name}>
@@ -408,6 +1075,8 @@ export default function Admin() {
             {creating ? 'Creating...' : 'Create User'}
           </button>
         </form>
+        </>
+        )}
 
         <h3>Existing Users</h3>
         {loading ? (
@@ -419,6 +1088,7 @@ export default function Admin() {
                 <th>ID</th>
                 <th>Username</th>
                 <th>Role</th>
+                <th>Status</th>
                 <th>Key Status</th>
                 <th>Actions</th>
               </tr>
@@ -428,7 +1098,27 @@ export default function Admin() {
                 <tr key={u.id}>
                   <td>{u.id}</td>
                   <td>{u.username}</td>
-                  <td>{u.role_name}</td>
+                  <td>
+                    {hasPermission('roles:assign') && u.id !== currentUser?.id ? (
+                      <select
+                        className="input"
+                        value={roles.find(r => r.name === u.role_name)?.id ?? ''}
+                        onChange={(e) => handleChangeUserRole(u, parseInt(e.target.value))}
+                        style={{ padding: '3px 6px', fontSize: 12, width: 'auto' }}
+                      >
+                        {roles.map(role => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      u.role_name
+                    )}
+                  </td>
+                  <td>
+                    {u.is_active
+                      ? <span style={{ color: '#28a745' }}>Active</span>
+                      : <span style={{ color: '#dc3545' }}>Deactivated</span>}
+                  </td>
                   <td>{getKeyStatus(u.id)}</td>
                   <td>
                     <div style={{ display: 'flex', gap: 5, alignItems: 'center', flexWrap: 'wrap' }}>
@@ -439,28 +1129,70 @@ export default function Admin() {
                               Waiting for public key...
                             </span>
                           ) : userKeys[u.id]?.hasWrappedKey ? (
-                            <span style={{ color: '#28a745', fontSize: 12 }}>
-                              Access granted
-                            </span>
+                            <>
+                              <span style={{ color: '#28a745', fontSize: 12 }}>
+                                Access granted
+                              </span>
+                              {hasPermission('keys:revoke') && (
+                                <button
+                                  className="btn btn-danger"
+                                  style={{ padding: '5px 10px', fontSize: 12 }}
+                                  onClick={() => handleRevokeAccess(u.id)}
+                                >
+                                  Revoke Access
+                                </button>
+                              )}
+                            </>
                           ) : (
                             <button
                               className="btn btn-primary"
                               style={{ padding: '5px 10px', fontSize: 12 }}
                               onClick={() => handleGrantAccess(u.id)}
-                              disabled={!hasDataKey}
+                              disabled={!hasDataKey || !hasPermission('keys:grant')}
                             >
                               Grant Access
                             </button>
                           )}
-                          <button
-                            className="btn btn-danger"
-                            style={{ padding: '5px 10px', fontSize: 12 }}
-                            onClick={() => handleResetKeys(u.id)}
-                          >
-                            Reset Keys
-                          </button>
+                          {hasPermission('keys:reset') && (
+                            <button
+                              className="btn btn-danger"
+                              style={{ padding: '5px 10px', fontSize: 12 }}
+                              onClick={() => handleResetKeys(u.id)}
+                            >
+                              Reset Keys
+                            </button>
+                          )}
+                          {hasPermission('user:update') && (
+                            <button
+                              className="btn"
+                              style={{ padding: '5px 10px', fontSize: 12 }}
+                              onClick={() => handleOpenEditUser(u)}
+                              disabled={!hasDataKey}
+                              title={hasDataKey ? '' : 'You need the data key to edit encrypted fields'}
+                            >
+                              Edit
+                            </button>
+                          )}
                         </>
                       )}
+                      {u.id !== currentUser?.id && hasPermission('user:deactivate') && (
+                        <button
+                          className="btn"
+                          style={{ padding: '5px 10px', fontSize: 12 }}
+                          onClick={() => handleToggleActive(u)}
+                        >
+                          {u.is_active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      )}
+                      {u.id !== currentUser?.id && hasPermission('user:delete') && (
+                        <button
+                          className="btn btn-danger"
+                          style={{ padding: '5px 10px', fontSize: 12 }}
+                          onClick={() => handleDeleteUser(u)}
+                        >
+                          Delete
+                        </button>
+                      )}
                       {actionStatus[u.id] && (
                         <span style={{ fontSize: 11, marginLeft: 5 }}>{actionStatus[u.id]}</span>
                       )}
@@ -474,6 +1206,663 @@ export default function Admin() {
           </>
         )}
 
+        {activeTab === 'keys' && (
+          <>
+            <h3>Data Key Rotation</h3>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              Rotating generates a new data key, re-encrypts all member and user PII and LLM API keys
+              in this browser, and re-wraps the new key for every user with access. Rotate after a
+              suspected key compromise or after revoking a user's access.
+            </p>
+
+            <div style={{ marginBottom: 15, fontSize: 14 }}>
+              <div>Current key version: <strong>{rotationStatus?.currentVersion ?? dataKeyVersion ?? '-'}</strong></div>
+              {rotationStatus?.rotation && (
+                <div style={{ marginTop: 5 }}>
+                  Rotation to version <strong>{rotationStatus.rotation.toVersion}</strong> in progress since{' '}
+                  {new Date(rotationStatus.rotation.startedAt).toLocaleString()}
+                  <ul style={{ margin: '5px 0 0 20px', fontSize: 13 }}>
+                    {Object.entries(rotationStatus.rotation.remaining).map(([table, count]) => (
+                      <li key={table}>{table}: {count} row(s) remaining</li>
+                    ))}
+                  </ul>
+                  {rotationStatus.rotation.accessRevokedAt && (
+                    <div style={{ marginTop: 5, color: '#dc3545', fontSize: 13 }}>
+                      Access was revoked during this rotation, after the new key was handed out. Complete it,
+                      then rotate again.
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {rotationStatus?.rotationRequired && (
+              <div className="error">
+                Rotation required: {rotationStatus.rotationRequired}. Until the rotation completes,
+                revoked users holding a cached copy of the data key can still decrypt data.
+              </div>
+            )}
+
+            {rotationError && <div className="error">{rotationError}</div>}
+
+            {rotationProgress && (
+              <div style={{ marginBottom: 15, fontSize: 13 }}>
+                {Object.entries(rotationProgress).map(([table, p]) => (
+                  <div key={table}>
+                    {table}: {p.done} re-encrypted{p.failed > 0 && <span style={{ color: '#dc3545' }}>, {p.failed} failed</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {pendingKeyVersion === null ? (
+              <button
+                className="btn btn-primary"
+                onClick={handleRotateKey}
+                disabled={!hasDataKey || rotating || !!rotationStatus?.rotation}
+                title={rotationStatus?.rotation ? 'Log in again to load the pending key' : ''}
+              >
+                {rotating ? 'Starting...' : 'Rotate Data Key'}
+              </button>
+            ) : (
+              <button
+                className="btn btn-primary"
+                onClick={handleContinueRotation}
+                disabled={rotating}
+              >
+                {rotating ? 'Re-encrypting...' : `Re-encrypt Data with Key Version ${pendingKeyVersion}`}
+              </button>
+            )}
+          </>
+        )}
+
+        {activeTab === 'escrow' && (() => {
+          const escrow = escrowStatus?.escrow;
+          const ceremony = escrowStatus?.ceremony;
+          const isTarget = ceremony?.targetUserId === currentUser?.id;
+          const hasApproved = ceremony?.approvals.some(a => a.userId === currentUser?.id);
+
+          return (
+            <>
+              <h3>Data Key Escrow</h3>
+              <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+                Splits the data key into Shamir shares, each encrypted for one admin custodian. If every admin
+                holding the data key loses access, a quorum of custodians can release their shares to an admin,
+                whose browser reassembles the data key. No single custodian (nor the server) can recover it alone.
+              </p>
+
+              {escrowError && <div className="error">{escrowError}</div>}
+              {escrowMessage && <div className="success">{escrowMessage}</div>}
+
+              <div style={{ marginBottom: 20, fontSize: 14 }}>
+                {escrow ? (
+                  <>
+                    <div>
+                      Escrow of key version <strong>{escrow.dataKeyVersion}</strong>:{' '}
+                      <strong>{escrow.threshold}</strong> of <strong>{escrow.custodians.length}</strong> custodians
+                      required (created {new Date(escrow.createdAt).toLocaleString()})
+                    </div>
+                    <div style={{ marginTop: 5, fontSize: 13 }}>
+                      Custodians: {escrow.custodians.map(c => c.username).join(', ')}
+                    </div>
+                    {escrow.stale && (
+                      <div className="error" style={{ marginTop: 10 }}>
+                        The data key was rotated since this escrow was created. Create a new escrow.
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div>No escrow exists yet.</div>
+                )}
+              </div>
+
+              <h4 style={{ marginBottom: 10 }}>{escrow ? 'Replace Escrow' : 'Create Escrow'}</h4>
+              <div style={{ marginBottom: 10, fontSize: 13 }}>
+                {escrowCandidates.map(c => (
+                  <label key={c.user_id} style={{ marginRight: 15 }}>
+                    <input
+                      type="checkbox"
+                      checked={selectedCustodians.has(c.user_id)}
+                      onChange={() => toggleCustodian(c.user_id)}
+                    />
+                    {' '}{c.username}
+                  </label>
+                ))}
+              </div>
+              <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 25 }}>
+                <label style={{ fontSize: 13 }}>
+                  Required approvals:{' '}
+                  <input
+                    type="number"
+                    className="input"
+                    min={2}
+                    max={Math.max(2, selectedCustodians.size)}
+                    value={escrowThreshold}
+                    onChange={(e) => setEscrowThreshold(parseInt(e.target.value) || 2)}
+                    style={{ width: 70 }}
+                  />
+                </label>
+                <button
+                  className="btn btn-primary"
+                  onClick={handleCreateEscrow}
+                  disabled={!hasDataKey || escrowBusy || escrowThreshold < 2 || selectedCustodians.size < escrowThreshold}
+                  title={hasDataKey ? '' : 'You need the data key to escrow it'}
+                >
+                  Split Data Key
+                </button>
+              </div>
+
+              <h4 style={{ marginBottom: 10 }}>Recovery Ceremony</h4>
+              {!ceremony ? (
+                <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+                  <select
+                    className="input"
+                    value={ceremonyTargetId}
+                    onChange={(e) => setCeremonyTargetId(e.target.value ? parseInt(e.target.value) : '')}
+                    style={{ width: 220 }}
+                  >
+                    <option value="">Recover for myself</option>
+                    {escrowCandidates.filter(c => c.user_id !== currentUser?.id).map(c => (
+                      <option key={c.user_id} value={c.user_id}>Recover for {c.username}</option>
+                    ))}
+                  </select>
+                  <button
+                    className="btn"
+                    onClick={handleStartCeremony}
+                    disabled={!escrow || escrow.stale || escrowBusy}
+                  >
+                    Start Recovery Ceremony
+                  </button>
+                </div>
+              ) : (
+                <div style={{ fontSize: 14 }}>
+                  <div>
+                    Recovering the data key for <strong>{ceremony.targetUsername}</strong> (started{' '}
+                    {new Date(ceremony.startedAt).toLocaleString()})
+                  </div>
+                  <div style={{ marginTop: 5 }}>
+                    Approvals: <strong>{ceremony.approvals.length}</strong> of <strong>{escrow?.threshold}</strong>
+                    {ceremony.approvals.length > 0 && ` (${ceremony.approvals.map(a => a.username).join(', ')})`}
+                  </div>
+                  <div style={{ display: 'flex', gap: 10, marginTop: 15 }}>
+                    {escrowStatus?.myShare && !hasApproved && (
+                      <button className="btn btn-primary" onClick={handleApproveCeremony} disabled={escrowBusy}>
+                        Approve and Release My Share
+                      </button>
+                    )}
+                    {isTarget && (
+                      <button
+                        className="btn btn-primary"
+                        onClick={handleCompleteCeremony}
+                        disabled={escrowBusy || ceremony.approvals.length < (escrow?.threshold ?? Infinity)}
+                      >
+                        Reassemble Data Key
+                      </button>
+                    )}
+                    <button className="btn" onClick={handleCancelCeremony} disabled={escrowBusy}>
+                      Cancel Ceremony
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          );
+        })()}
+
+        {activeTab === 'roles' && (
+          <>
+            <h3>Roles</h3>
+            {rolesError && <div className="error">{rolesError}</div>}
+
+            <table style={{ marginBottom: 15 }}>
+              <thead>
+                <tr>
+                  <th>Role</th>
+                  <th>Users</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {roles.map(role => (
+                  <tr key={role.id}>
+                    <td>{role.name}</td>
+                    <td>{role.user_count}</td>
+                    <td>
+                      {role.built_in ? (
+                        <span style={{ color: '#999', fontSize: 12, fontStyle: 'italic' }}>Built-in</span>
+                      ) : (
+                        <div style={{ display: 'flex', gap: 5 }}>
+                          <button
+                            className="btn"
+                            style={{ padding: '5px 10px', fontSize: 12 }}
+                            onClick={() => handleRenameRole(role)}
+                          >
+                            Rename
+                          </button>
+                          <button
+                            className="btn btn-danger"
+                            style={{ padding: '5px 10px', fontSize: 12 }}
+                            onClick={() => handleDeleteRole(role)}
+                            disabled={role.user_count > 0}
+                            title={role.user_count > 0 ? 'Reassign its users first' : ''}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <form onSubmit={handleCreateRole} style={{ display: 'flex', gap: 10, marginBottom: 30 }}>
+              <input
+                type="text"
+                className="input"
+                placeholder="New role name, e.g. coach"
+                value={newRoleName}
+                onChange={(e) => setNewRoleName(e.target.value)}
+                pattern="[a-z0-9][a-z0-9\-]{0,49}"
+                title="Lowercase letters, digits and hyphens"
+                required
+                style={{ width: 260 }}
+              />
+              <button type="submit" className="btn btn-primary">Create Role</button>
+            </form>
+
+            <h3>Role Permissions</h3>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              Capabilities granted to each role. Changes apply to signed-in users on their next request.
+            </p>
+
+            {!rolePermissions ? (
+              <p>Loading...</p>
+            ) : (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Capability</th>
+                    {rolePermissions.roles.map(role => (
+                      <th key={role.id} style={{ textAlign: 'center' }}>{role.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rolePermissions.permissions.map(permission => (
+                    <tr key={permission.name}>
+                      <td>
+                        <code>{permission.name}</code>
+                        <div style={{ fontSize: 12, color: '#666' }}>{permission.description}</div>
+                      </td>
+                      {rolePermissions.roles.map(role => (
+                        <td key={role.id} style={{ textAlign: 'center' }}>
+                          <input
+                            type="checkbox"
+                            checked={role.permissions.includes(permission.name)}
+                            onChange={() => handleTogglePermission(role.id, permission.name)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+
+        {activeTab === 'measurements' && (
+          <>
+            <h3>Measurement Types</h3>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              What can be recorded for members. Values of encrypted types are encrypted in the browser like member PII
+              and masked before being sent to an LLM. A type's values and unit can only be redefined while it has no
+              records. Values can also be entered in units converting to the type's unit (e.g. lb for kg).
+            </p>
+            {measurementTypesError && <div className="error">{measurementTypesError}</div>}
+
+            <table style={{ marginBottom: 15 }}>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Key</th>
+                  <th>Unit</th>
+                  <th>Values</th>
+                  <th>Encrypted</th>
+                  <th>Records</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {measurementTypes.map(type => (
+                  <tr key={type.key}>
+                    <td>{type.name}</td>
+                    <td><code>{type.key}</code></td>
+                    <td>
+                      {type.unit}
+                      {Object.keys(type.units).length > 1 && (
+                        <div style={{ fontSize: 12, color: '#666' }}>
+                          also {Object.keys(type.units).filter(u => u !== type.unit).join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    <td style={{ fontSize: 12 }}>{type.value_schema.components.map(describeComponent).join(' / ')}</td>
+                    <td>
+                      <input type="checkbox" checked={type.sensitive} onChange={() => handleToggleTypeSensitive(type)} />
+                    </td>
+                    <td>{type.record_count}</td>
+                    <td>
+                      <div style={{ display: 'flex', gap: 5 }}>
+                        <button
+                          className="btn"
+                          style={{ padding: '5px 10px', fontSize: 12 }}
+                          onClick={() => handleEditMeasurementType(type)}
+                        >
+                          Edit
+                        </button>
+                        {type.built_in ? (
+                          <span style={{ color: '#999', fontSize: 12, fontStyle: 'italic', alignSelf: 'center' }}>Built-in</span>
+                        ) : (
+                          <button
+                            className="btn btn-danger"
+                            style={{ padding: '5px 10px', fontSize: 12 }}
+                            onClick={() => handleDeleteMeasurementType(type)}
+                            disabled={type.record_count > 0}
+                            title={type.record_count > 0 ? 'Only types without records can be deleted' : ''}
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <h3>New Measurement Type</h3>
+            <form onSubmit={handleCreateMeasurementType}>
+              <div style={{ display: 'flex', gap: 10, marginBottom: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Key, e.g. waist"
+                  value={newTypeKey}
+                  onChange={(e) => setNewTypeKey(e.target.value)}
+                  pattern="[a-z][a-z0-9_]{0,31}"
+                  title="Lowercase letters, digits and underscores, starting with a letter"
+                  required
+                  style={{ width: 160 }}
+                />
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Name, e.g. Waist circumference"
+                  value={newTypeName}
+                  onChange={(e) => setNewTypeName(e.target.value)}
+                  maxLength={50}
+                  required
+                  style={{ width: 240 }}
+                />
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Unit, e.g. cm"
+                  value={newTypeUnit}
+                  onChange={(e) => setNewTypeUnit(e.target.value)}
+                  maxLength={20}
+                  style={{ width: 110 }}
+                />
+                <label style={{ display: 'flex', alignItems: 'center', gap: 5, fontSize: 14 }}>
+                  <input type="checkbox" checked={newTypeSensitive} onChange={(e) => setNewTypeSensitive(e.target.checked)} />
+                  Encrypted
+                </label>
+              </div>
+              {newTypeComponents.map((c, i) => (
+                <div key={i} style={{ display: 'flex', gap: 10, marginBottom: 8, alignItems: 'center', fontSize: 14 }}>
+                  <input
+                    type="text"
+                    className="input"
+                    placeholder="Value key"
+                    value={c.key}
+                    onChange={(e) => updateNewTypeComponent(i, { key: e.target.value })}
+                    pattern="[a-z][a-z0-9_]{0,31}"
+                    required
+                    style={{ width: 120 }}
+                  />
+                  <input
+                    type="text"
+                    className="input"
+                    placeholder="Label"
+                    value={c.label}
+                    onChange={(e) => updateNewTypeComponent(i, { label: e.target.value })}
+                    maxLength={50}
+                    required
+                    style={{ width: 160 }}
+                  />
+                  <input
+                    type="number"
+                    className="input"
+                    placeholder="Min"
+                    value={c.min}
+                    onChange={(e) => updateNewTypeComponent(i, { min: e.target.value })}
+                    style={{ width: 90 }}
+                  />
+                  <input
+                    type="number"
+                    className="input"
+                    placeholder="Max"
+                    value={c.max}
+                    onChange={(e) => updateNewTypeComponent(i, { max: e.target.value })}
+                    style={{ width: 90 }}
+                  />
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 5 }}>
+                    <input type="checkbox" checked={c.integer} onChange={(e) => updateNewTypeComponent(i, { integer: e.target.checked })} />
+                    Whole numbers
+                  </label>
+                  {newTypeComponents.length > 1 && (
+                    <button
+                      type="button"
+                      className="btn"
+                      style={{ padding: '5px 10px', fontSize: 12 }}
+                      onClick={() => setNewTypeComponents(prev => prev.filter((_, j) => j !== i))}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div style={{ display: 'flex', gap: 10, marginTop: 10 }}>
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => setNewTypeComponents(prev => [...prev, { ...EMPTY_COMPONENT, key: '' }])}
+                >
+                  Add Value
+                </button>
+                <button type="submit" className="btn btn-primary">Create Type</button>
+              </div>
+            </form>
+          </>
+        )}
+
+        {activeTab === 'sensitivity' && (
+          <>
+            <h3>Measurement Sensitivity</h3>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              Measurement dates are stored in plaintext unless marked sensitive here; values are encrypted per
+              measurement type (Measurement Types tab). Sensitive data is encrypted in the browser like member PII and
+              masked before being sent to an LLM; the server can then no longer sort or filter measurements on it.
+            </p>
+            {sensitivityError && <div className="error">{sensitivityError}</div>}
+            {sensitivityMessage && <div className="success">{sensitivityMessage}</div>}
+
+            <form onSubmit={handleSaveSensitivity} style={{ marginBottom: 20 }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 14, marginBottom: 8 }}>
+                <input
+                  type="checkbox"
+                  checked={sensitiveDatesInput}
+                  onChange={(e) => setSensitiveDatesInput(e.target.checked)}
+                />
+                Measurement dates are sensitive
+              </label>
+              <button type="submit" className="btn btn-primary" style={{ marginTop: 5 }}>Save</button>
+            </form>
+
+            {measurementSensitivity && (
+              <p style={{ fontSize: 14, marginBottom: 15 }}>
+                Encrypted measurement types: {measurementSensitivity.types.length > 0 ? measurementSensitivity.types.join(', ') : 'none'}
+              </p>
+            )}
+
+            {measurementSensitivity && measurementSensitivity.unconverted > 0 && (
+              <div style={{ fontSize: 14 }}>
+                <p style={{ marginBottom: 10 }}>
+                  {measurementSensitivity.unconverted} existing measurement(s) are not yet stored this way.
+                  Converting them decrypts and re-encrypts them in this browser.
+                </p>
+                <button className="btn btn-primary" onClick={handleConvertMeasurements} disabled={!hasDataKey || convertingMeasurements}>
+                  {convertingMeasurements ? 'Converting...' : 'Convert Existing Records'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        {activeTab === 'erasures' && (
+          <>
+            <h3>Erasure Requests</h3>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              Erasing a member deletes their encrypted data, edit history and measurements, and removes their id
+              from audit log details. A signed receipt records what was removed.
+            </p>
+            {erasureError && <div className="error">{erasureError}</div>}
+
+            <form onSubmit={handleRequestErasure} style={{ display: 'flex', gap: 10, marginBottom: 20 }}>
+              <select
+                className="input"
+                value={erasureMemberId}
+                onChange={(e) => setErasureMemberId(e.target.value ? Number(e.target.value) : '')}
+                required
+                style={{ width: 250 }}
+              >
+                <option value="">Select member...</option>
+                {erasureMembers.map(m => (
+                  <option key={m.id} value={m.id}>{m.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className="input"
+                placeholder="Reason, e.g. request received by email"
+                value={erasureReason}
+                onChange={(e) => setErasureReason(e.target.value)}
+                style={{ width: 300 }}
+              />
+              <button type="submit" className="btn btn-primary">Request Erasure</button>
+            </form>
+
+            <table style={{ marginBottom: 20 }}>
+              <thead>
+                <tr>
+                  <th>Request</th>
+                  <th>Member</th>
+                  <th>Reason</th>
+                  <th>Status</th>
+                  <th>Requested</th>
+                  <th>Closed</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {erasures.map(request => (
+                  <tr key={request.id}>
+                    <td>#{request.id}</td>
+                    <td>#{request.member_id}</td>
+                    <td>{request.reason || '-'}</td>
+                    <td>
+                      <span className={`badge ${request.status === 'pending' ? 'badge-user' : request.status === 'completed' ? 'badge-admin' : 'badge-view'}`}>
+                        {request.status}
+                      </span>
+                    </td>
+                    <td>
+                      {new Date(request.requested_at).toLocaleString()}
+                      <div style={{ fontSize: 11, color: '#666' }}>by {request.requested_by_username || 'a deleted user'}</div>
+                    </td>
+                    <td>
+                      {request.completed_at ? (
+                        <>
+                          {new Date(request.completed_at).toLocaleString()}
+                          <div style={{ fontSize: 11, color: '#666' }}>by {request.completed_by_username || 'a deleted user'}</div>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td>
+                      <div style={{ display: 'flex', gap: 5 }}>
+                        {request.status === 'pending' && (
+                          <>
+                            <button
+                              className="btn btn-danger"
+                              style={{ padding: '5px 10px', fontSize: 12 }}
+                              onClick={() => handleExecuteErasure(request)}
+                            >
+                              Erase
+                            </button>
+                            <button
+                              className="btn"
+                              style={{ padding: '5px 10px', fontSize: 12 }}
+                              onClick={() => handleCancelErasure(request)}
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        )}
+                        {!!request.has_receipt && (
+                          <button
+                            className="btn"
+                            style={{ padding: '5px 10px', fontSize: 12 }}
+                            onClick={() => handleShowReceipt(request)}
+                          >
+                            Receipt
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {erasureReceipt && (
+              <div style={{ backgroundColor: '#f8f9fa', border: '1px solid #dee2e6', borderRadius: 6, padding: 15 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+                  <strong>Receipt of erasure request #{erasureReceipt.receipt.requestId}</strong>
+                  <div style={{ display: 'flex', gap: 5 }}>
+                    <button
+                      className="btn"
+                      style={{ padding: '5px 10px', fontSize: 12 }}
+                      onClick={() => handleDownloadReceipt(erasureReceipt)}
+                    >
+                      Download JSON
+                    </button>
+                    <button
+                      className="btn"
+                      style={{ padding: '5px 10px', fontSize: 12 }}
+                      onClick={() => setErasureReceipt(null)}
+                    >
+                      Close
+                    </button>
+                  </div>
+                </div>
+                <pre style={{ margin: 0, whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: 12 }}>
+                  {JSON.stringify(erasureReceipt, null, 2)}
+                </pre>
+              </div>
+            )}
+          </>
+        )}
+
         {activeTab === 'audit' && (
           <>
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 }}>
@@ -582,6 +1971,57 @@ export default function Admin() {
           </>
         )}
       </div>
+
+      {/* Edit User Modal */}
+      {editingUser && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <form onSubmit={handleSaveUser} style={{
+            backgroundColor: '#fff',
+            borderRadius: 8,
+            padding: 25,
+            maxWidth: 500,
+            width: '90%'
+          }}>
+            <h3 style={{ marginBottom: 20 }}>Edit {editingUser.username}</h3>
+            {editError && <div className="error">{editError}</div>}
+
+            {USER_PII_FIELDS.map(column => (
+              <div className="form-group" key={column}>
+                <label style={{ textTransform: 'capitalize' }}>{column}</label>
+                <input
+                  type={column === 'birthdate' ? 'date' : column === 'email' ? 'email' : 'text'}
+                  className="input"
+                  value={editFields[column]}
+                  onChange={(e) => setEditFields(prev => ({ ...prev, [column]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <p style={{ fontSize: 12, color: '#666', marginBottom: 15 }}>
+              Values are encrypted in this browser before saving. Empty fields are cleared.
+            </p>
+
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+              <button type="button" className="btn" onClick={() => setEditingUser(null)} disabled={editSaving}>
+                Cancel
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={editSaving}>
+                {editSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,12 +1,51 @@
-import { useState, useEffect, useMemo } from 'react';
-import { usersApi, dataApi, membersApi, Member, WeightRecord } from '../utils/api';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  usersApi, dataApi, membersApi, trashApi, measurementTypesApi, Member, MemberVersion, TrashSettings, MeasurementRecord,
+  MeasurementFilters, MeasurementType, MeasurementValue, DeletedFilter
+} from '../utils/api';
+import {
+  encodeMeasurement, decodeMeasurement, formatMeasurement, convertMeasurement, checkMeasurementValue, displayUnit
+} from '../utils/measurements';
+import { IntegrityError } from '../utils/crypto';
+import RecoveryCodeModal from '../components/RecoveryCodeModal';
+import ImportWizard from '../components/ImportWizard';
+import TrendView from '../components/TrendView';
 import { useCrypto } from '../context/CryptoContext';
 import { useAuth } from '../context/AuthContext';
 import { useLlm } from '../context/LlmContext';
-import { maskMemberData, maskWeightMeasurements, MaskMapping, WeightMeasurement } from '../utils/masking';
+import { maskMemberData, maskMeasurements, MaskMapping, Measurement } from '../utils/masking';
 import { analyzePII, PIIAnalysisResult, getMaskSuggestions } from '../utils/piiProtection';
+import { buildExportFile, downloadFile, ExportFormat, MemberExport } from '../utils/export';
 
-type TabType = 'users' | 'data' | 'members';
+type TabType = 'users' | 'data' | 'members' | 'trash';
+
+// Rows per page of the members and measurements tabs
+const PAGE_SIZE = 50;
+
+const MEMBER_PII_FIELDS = ['name', 'surname', 'birthdate', 'email', 'gender'] as const;
+type MemberPii = Record<typeof MEMBER_PII_FIELDS[number], string>;
+
+// One edit of a member: the version it replaced, decrypted, next to what replaced it
+interface MemberHistoryEntry {
+  version: MemberVersion;
+  before: MemberPii;
+  after: MemberPii;
+  changed: Array<keyof MemberPii>;
+}
+
+// Decrypted value of a measurement: JSON, or a bare number for weights encrypted before
+// measurement types existed. Null if it didn't decrypt.
+function parseMeasurementValue(plaintext: string, column: 'encrypted_value' | 'encrypted_weight'): MeasurementValue | null {
+  if (!plaintext) return null;
+  if (column === 'encrypted_weight') {
+    return Number.isNaN(Number(plaintext)) ? null : { value: Number(plaintext) };
+  }
+  try {
+    return JSON.parse(plaintext);
+  } catch {
+    return null; // Still a ciphertext: encrypted with a key this user doesn't hold
+  }
+}
 
 interface User {
   id: number;
@@ -20,28 +59,45 @@ interface User {
 }
 
 export default function Dashboard() {
-  const { user, logout } = useAuth();
-  const { hasDataKey, needsKeySetup, needsRelogin, setupKeys, decrypt, encrypt, loading: cryptoLoading, reloadKeys } = useCrypto();
+  const { user, logout, hasPermission } = useAuth();
+  const {
+    publicKey, hasDataKey, needsKeySetup, needsRelogin, setupKeys, createRecoveryCode,
+    decrypt, encrypt, searchTokens, searchQuery, rebuildSearchIndex, loading: cryptoLoading, reloadKeys
+  } = useCrypto();
   const { hasApiKey, saveApiKey, askLlm, settings: llmSettings } = useLlm();
-  const [activeTab, setActiveTab] = useState<TabType>('users');
+  const [activeTab, setActiveTab] = useState<TabType>(hasPermission('user:read') ? 'users' : 'members');
   const [users, setUsers] = useState<User[]>([]);
-  const [weightRecords, setWeightRecords] = useState<WeightRecord[]>([]);
+  const [measurementRecords, setMeasurementRecords] = useState<MeasurementRecord[]>([]);
   const [members, setMembers] = useState<Member[]>([]);
   const [decryptedUsers, setDecryptedUsers] = useState<Record<number, User>>({});
   const [decryptedMembers, setDecryptedMembers] = useState<Record<number, Member>>({});
   const [showDecrypted, setShowDecrypted] = useState(true);
+  // Encrypted fields that failed verification against their record, as "table:id:column"
+  const [tamperedFields, setTamperedFields] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [settingUpKeys, setSettingUpKeys] = useState(false);
   const [keySetupError, setKeySetupError] = useState('');
-
-  // New weight form
-  const [newWeightMemberId, setNewWeightMemberId] = useState<number | ''>('');
-  const [newWeight, setNewWeight] = useState('');
-  const [newWeightDate, setNewWeightDate] = useState(new Date().toISOString().split('T')[0]);
-  const [addingWeight, setAddingWeight] = useState(false);
-
-  // Selected weight records for LLM
-  const [selectedWeightIds, setSelectedWeightIds] = useState<Set<number>>(new Set());
+  const [withRecoveryCode, setWithRecoveryCode] = useState(true);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+
+  // Measurement types; the add form's inputs follow the value schema of the chosen type
+  const [measurementTypes, setMeasurementTypes] = useState<MeasurementType[]>([]);
+
+  // New measurement form
+  const [newMeasurementMemberId, setNewMeasurementMemberId] = useState<number | ''>('');
+  const [newMeasurementType, setNewMeasurementType] = useState('weight');
+  const [newMeasurementValue, setNewMeasurementValue] = useState<Record<string, string>>({});
+  // Unit the new value is entered in; empty for the unit the user displays the type in
+  const [newMeasurementUnit, setNewMeasurementUnit] = useState('');
+  const [newMeasurementDate, setNewMeasurementDate] = useState(new Date().toISOString().split('T')[0]);
+  // Whether this deployment encrypts measurement dates, and the decrypted parts of loaded records
+  // (value null where it failed verification)
+  const [sensitiveDates, setSensitiveDates] = useState(false);
+  const [decryptedMeasurements, setDecryptedMeasurements] = useState<Record<number, { value: MeasurementValue | null; date: string }>>({});
+  const [addingMeasurement, setAddingMeasurement] = useState(false);
+
+  // Selected measurement records for LLM
+  const [selectedMeasurementIds, setSelectedMeasurementIds] = useState<Set<number>>(new Set());
 
   // New member form
   const [newMemberName, setNewMemberName] = useState('');
@@ -54,6 +110,52 @@ export default function Dashboard() {
   const [newMemberEmail, setNewMemberEmail] = useState('');
   const [newMemberGender, setNewMemberGender] = useState('');
   const [addingMember, setAddingMember] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // Members initially shown in the trend view, null while it is closed
+  const [trendMemberIds, setTrendMemberIds] = useState<number[] | null>(null);
+
+  // Member search (blind index tokens of the typed words, see CryptoContext searchQuery)
+  const [memberSearchText, setMemberSearchText] = useState('');
+  const [memberQuery, setMemberQuery] = useState('');
+  const [memberDeletedFilter, setMemberDeletedFilter] = useState<DeletedFilter>('include');
+  const [measurementFilters, setMeasurementFilters] = useState<MeasurementFilters>({ deleted: 'include', sort: 'date', order: 'desc' });
+
+  // Cursors of the next page of members and measurement records; null once everything is loaded
+  const [membersCursor, setMembersCursor] = useState<string | null>(null);
+  const [measurementsCursor, setMeasurementsCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Plaintext of each ciphertext already decrypted (null if it failed verification),
+  // so loading another page only decrypts the new rows
+  const decryptedValues = useRef(new Map<string, string | null>());
+  const [unindexedMembers, setUnindexedMembers] = useState(0);
+  const [indexingMembers, setIndexingMembers] = useState(false);
+
+  // Edit member modal
+  const [editingMemberId, setEditingMemberId] = useState<number | null>(null);
+  const [editMemberFields, setEditMemberFields] = useState<MemberPii>({ name: '', surname: '', birthdate: '', email: '', gender: '' });
+  const [savingMember, setSavingMember] = useState(false);
+  const [editMemberError, setEditMemberError] = useState('');
+
+  // Trash tab
+  const [trashSettings, setTrashSettings] = useState<TrashSettings | null>(null);
+  const [retentionInput, setRetentionInput] = useState('');
+  const [purging, setPurging] = useState(false);
+
+  // Member export modal
+  const [exportMemberId, setExportMemberId] = useState<number | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [exportProtect, setExportProtect] = useState(false);
+  const [exportPassword, setExportPassword] = useState('');
+  const [exportPasswordConfirm, setExportPasswordConfirm] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+
+  // Member history modal
+  const [historyMemberId, setHistoryMemberId] = useState<number | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<MemberHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState('');
 
   // LLM Settings modal
   const [showSettingsModal, setShowSettingsModal] = useState(false);
@@ -72,7 +174,7 @@ export default function Dashboard() {
   } | null>(null);
   const [askError, setAskError] = useState('');
   const [currentAskContext, setCurrentAskContext] = useState<{
-    type: 'weight' | 'member';
+    type: 'measurement' | 'member';
     ids: number[];
     maskedText: string;
     mappings: MaskMapping[];
@@ -95,9 +197,12 @@ export default function Dashboard() {
     setSettingUpKeys(true);
     setKeySetupError('');
     try {
-      await setupKeys();
+      const code = await setupKeys(withRecoveryCode);
       // State updates automatically - no reload needed
       // (reload would lose the password-derived KEK)
+      if (code) {
+        setRecoveryCode(code);
+      }
     } catch (error: any) {
       setKeySetupError(error.message || 'Failed to set up keys');
     } finally {
@@ -105,15 +210,37 @@ export default function Dashboard() {
     }
   }
 
+  async function handleCreateRecoveryCode() {
+    if (!confirm('Create a new recovery code? Any previous recovery code stops working.')) return;
+    try {
+      setRecoveryCode(await createRecoveryCode());
+    } catch (error: any) {
+      alert(error.message || 'Failed to create recovery code');
+    }
+  }
+
+  useEffect(() => {
+    Promise.all([dataApi.sensitivity(), measurementTypesApi.list()])
+      .then(([{ dates }, types]) => {
+        setSensitiveDates(dates);
+        setMeasurementTypes(types);
+        // Encrypted dates can't be sorted on by the server
+        if (dates) {
+          setMeasurementFilters(prev => prev.sort === 'date' ? { ...prev, sort: 'created', from: undefined, to: undefined } : prev);
+        }
+      })
+      .catch(error => console.error('Error loading measurement settings:', error));
+  }, []);
+
   useEffect(() => {
     loadData();
-  }, [activeTab]);
+  }, [activeTab, memberQuery, memberDeletedFilter, measurementFilters]);
 
   useEffect(() => {
     if (hasDataKey && !cryptoLoading) {
       decryptAllData();
     }
-  }, [hasDataKey, cryptoLoading, users, members]);
+  }, [hasDataKey, cryptoLoading, users, members, measurementRecords]);
 
   async function loadData() {
     setLoading(true);
@@ -122,16 +249,33 @@ export default function Dashboard() {
         const result = await usersApi.list();
         setUsers(result);
       } else if (activeTab === 'data') {
-        // Load both weight records and members (for dropdown and decryption)
-        const [weightResult, membersResult] = await Promise.all([
-          dataApi.list(),
-          membersApi.list()
+        // The first page of measurement records, and the active members for the member dropdowns
+        const [measurementPage, membersResult] = await Promise.all([
+          dataApi.page({ ...measurementFilters, limit: PAGE_SIZE }),
+          membersApi.list({ deleted: 'exclude' })
         ]);
-        setWeightRecords(weightResult);
+        setMeasurementRecords(measurementPage.items);
+        setMeasurementsCursor(measurementPage.nextCursor);
+        setSelectedMeasurementIds(new Set());
         setMembers(membersResult);
       } else if (activeTab === 'members') {
-        const result = await membersApi.list();
-        setMembers(result);
+        const [memberPage, searchIndex] = await Promise.all([
+          membersApi.page({ q: memberQuery, deleted: memberDeletedFilter, limit: PAGE_SIZE }),
+          membersApi.searchIndexStatus()
+        ]);
+        setMembers(memberPage.items);
+        setMembersCursor(memberPage.nextCursor);
+        setUnindexedMembers(searchIndex.unindexed);
+      } else if (activeTab === 'trash') {
+        const [measurementResult, membersResult, settings] = await Promise.all([
+          dataApi.list({ deleted: 'only' }),
+          membersApi.list({ deleted: 'only' }),
+          trashApi.getSettings()
+        ]);
+        setMeasurementRecords(measurementResult);
+        setMembers(membersResult);
+        setTrashSettings(settings);
+        setRetentionInput(String(settings.retentionDays));
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -140,69 +284,213 @@ export default function Dashboard() {
     }
   }
 
+  async function handleLoadMore() {
+    setLoadingMore(true);
+    try {
+      if (activeTab === 'members' && membersCursor) {
+        const page = await membersApi.page({ q: memberQuery, deleted: memberDeletedFilter, limit: PAGE_SIZE, cursor: membersCursor });
+        setMembers(prev => [...prev, ...page.items]);
+        setMembersCursor(page.nextCursor);
+      } else if (activeTab === 'data' && measurementsCursor) {
+        const page = await dataApi.page({ ...measurementFilters, limit: PAGE_SIZE, cursor: measurementsCursor });
+        setMeasurementRecords(prev => [...prev, ...page.items]);
+        setMeasurementsCursor(page.nextCursor);
+      }
+    } catch (error: any) {
+      alert(error.message || 'Failed to load more records');
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function updateMeasurementFilters(update: Partial<MeasurementFilters>) {
+    setMeasurementFilters(prev => ({ ...prev, ...update }));
+  }
+
   async function decryptAllData() {
     if (!hasDataKey) return;
 
+    // Each ciphertext is verified against the record it was read from;
+    // a value copied from another row or column fails and is flagged
+    const tampered = new Set<string>();
+    // Failures are flagged under tamperKey, table:recordId:column unless the record id is shared
+    async function decryptField(
+      table: string, recordId: number, column: string, value: string | null | undefined,
+      tamperKey = `${table}:${recordId}:${column}`
+    ) {
+      if (!value) return '';
+      const cacheKey = `${table}:${recordId}:${column}:${value}`;
+      if (!decryptedValues.current.has(cacheKey)) {
+        try {
+          decryptedValues.current.set(cacheKey, await decrypt(value, { table, column, recordId }));
+        } catch (e) {
+          if (!(e instanceof IntegrityError)) throw e;
+          decryptedValues.current.set(cacheKey, null);
+        }
+      }
+      const plaintext = decryptedValues.current.get(cacheKey);
+      if (plaintext === null) {
+        tampered.add(tamperKey);
+        return '';
+      }
+      return plaintext!;
+    }
+
     // Decrypt users
     const decUsers: Record<number, User> = {};
     for (const u of users) {
       decUsers[u.id] = {
         ...u,
-        name: u.name ? await decrypt(u.name) : '',
-        surname: u.surname ? await decrypt(u.surname) : '',
-        birthdate: u.birthdate ? await decrypt(u.birthdate) : '',
-        email: u.email ? await decrypt(u.email) : ''
+        name: await decryptField('users', u.id, 'name', u.name),
+        surname: await decryptField('users', u.id, 'surname', u.surname),
+        birthdate: await decryptField('users', u.id, 'birthdate', u.birthdate),
+        email: await decryptField('users', u.id, 'email', u.email)
       };
     }
     setDecryptedUsers(decUsers);
 
-    // Decrypt members (weight records use member names which are encrypted)
+    // Decrypt members (measurement records use member names which are encrypted)
     const decMembers: Record<number, Member> = {};
     for (const m of members) {
       decMembers[m.id] = {
         ...m,
-        name: m.name ? await decrypt(m.name) : '',
-        surname: m.surname ? await decrypt(m.surname) : '',
-        birthdate: m.birthdate ? await decrypt(m.birthdate) : '',
-        email: m.email ? await decrypt(m.email) : '',
-        gender: m.gender ? await decrypt(m.gender) : ''
+        name: await decryptField('members', m.id, 'name', m.name),
+        surname: await decryptField('members', m.id, 'surname', m.surname),
+        birthdate: await decryptField('members', m.id, 'birthdate', m.birthdate),
+        email: await decryptField('members', m.id, 'email', m.email),
+        gender: await decryptField('members', m.id, 'gender', m.gender)
+      };
+    }
+    // Measurement records carry their member's name, for members not loaded in this tab
+    for (const w of measurementRecords) {
+      if (decMembers[w.member_id]) continue;
+      decMembers[w.member_id] = {
+        id: w.member_id,
+        name: await decryptField('members', w.member_id, 'name', w.member_name),
+        surname: await decryptField('members', w.member_id, 'surname', w.member_surname),
+        birthdate: null,
+        email: null,
+        gender: null,
+        deleted: null,
+        created_at: ''
       };
     }
     setDecryptedMembers(decMembers);
+
+    // Encrypted values and dates are bound to the record's member, but flagged per record
+    const decMeasurements: Record<number, { value: MeasurementValue | null; date: string }> = {};
+    for (const w of measurementRecords) {
+      let value = w.value;
+      const column = w.encrypted_value ? 'encrypted_value' : w.encrypted_weight ? 'encrypted_weight' : null;
+      if (column) {
+        const plaintext = await decryptField('data', w.member_id, column, w[column], `data:${w.id}:${column}`);
+        value = parseMeasurementValue(plaintext, column);
+      }
+      decMeasurements[w.id] = {
+        value,
+        date: w.encrypted_date
+          ? await decryptField('data', w.member_id, 'encrypted_date', w.encrypted_date, `data:${w.id}:encrypted_date`)
+          : w.date!
+      };
+    }
+    setDecryptedMeasurements(decMeasurements);
+    setTamperedFields(tampered);
   }
 
-  async function handleAddWeight(e: React.FormEvent) {
+  async function handleAddMeasurement(e: React.FormEvent) {
     e.preventDefault();
-    if (!newWeightMemberId || !newWeight || !newWeightDate) {
+    const type = measurementTypes.find(t => t.key === newMeasurementType);
+    const components = type?.value_schema.components ?? [];
+    if (!newMeasurementMemberId || !type || components.some(c => !newMeasurementValue[c.key]) || !newMeasurementDate) {
       alert('Please fill in all fields');
       return;
     }
+    // Checked here as well since the server can't check encrypted values
+    const unit = newMeasurementUnit || displayUnit(type);
+    const value = Object.fromEntries(components.map(c => [c.key, parseFloat(newMeasurementValue[c.key])]));
+    const invalid = checkMeasurementValue(type, value, unit);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
 
-    setAddingWeight(true);
+    setAddingMeasurement(true);
     try {
+      const memberId = newMeasurementMemberId as number;
       await dataApi.create(
-        newWeightMemberId as number,
-        parseFloat(newWeight),
-        newWeightDate
+        memberId,
+        type.key,
+        await encodeMeasurement(memberId, type, { value, unit, date: newMeasurementDate }, sensitiveDates, encrypt)
       );
-      setNewWeightMemberId('');
-      setNewWeight('');
-      setNewWeightDate(new Date().toISOString().split('T')[0]);
+      setNewMeasurementMemberId('');
+      setNewMeasurementValue({});
+      setNewMeasurementDate(new Date().toISOString().split('T')[0]);
       loadData();
     } catch (error: any) {
-      alert(error.message || 'Failed to add weight record');
+      alert(error.message || 'Failed to add measurement');
     } finally {
-      setAddingWeight(false);
+      setAddingMeasurement(false);
+    }
+  }
+
+  async function handleDisplayUnitChange(type: MeasurementType, unit: string) {
+    try {
+      const { display_unit } = await measurementTypesApi.setDisplayUnit(type.key, unit === type.unit ? null : unit);
+      setMeasurementTypes(prev => prev.map(t => t.key === type.key ? { ...t, display_unit } : t));
+    } catch (error: any) {
+      alert(error.message || 'Failed to save display unit');
     }
   }
 
-  async function handleDeleteWeight(id: number) {
-    if (!confirm('Are you sure you want to delete this weight record?')) return;
+  async function handleDeleteMeasurement(id: number) {
+    if (!confirm('Are you sure you want to delete this measurement?')) return;
     try {
       await dataApi.delete(id);
       loadData();
     } catch (error: any) {
-      alert(error.message || 'Failed to delete weight record');
+      alert(error.message || 'Failed to delete measurement');
+    }
+  }
+
+  async function handleRestoreMeasurement(id: number) {
+    try {
+      await dataApi.restore(id);
+      loadData();
+    } catch (error: any) {
+      alert(error.message || 'Failed to restore measurement');
+    }
+  }
+
+  async function handleRestoreMember(id: number) {
+    try {
+      await membersApi.restore(id);
+      loadData();
+    } catch (error: any) {
+      alert(error.message || 'Failed to restore member');
+    }
+  }
+
+  async function handleSaveRetention(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setTrashSettings(await trashApi.updateSettings(Number(retentionInput)));
+    } catch (error: any) {
+      alert(error.message || 'Failed to update retention period');
+    }
+  }
+
+  async function handlePurgeTrash() {
+    if (!trashSettings) return;
+    const { members: memberCount, weights: weightCount } = trashSettings.purgeable;
+    if (!confirm(`Permanently erase ${memberCount} member(s) and ${weightCount} measurement(s)? This cannot be undone.`)) return;
+    setPurging(true);
+    try {
+      await trashApi.purge();
+      loadData();
+    } catch (error: any) {
+      alert(error.message || 'Failed to purge trash');
+    } finally {
+      setPurging(false);
     }
   }
 
@@ -215,18 +503,25 @@ export default function Dashboard() {
 
     setAddingMember(true);
     try {
-      const encryptedName = newMemberName ? await encrypt(newMemberName) : '';
-      const encryptedSurname = newMemberSurname ? await encrypt(newMemberSurname) : '';
-      const encryptedBirthdate = newMemberBirthdate ? await encrypt(newMemberBirthdate) : '';
-      const encryptedEmail = newMemberEmail ? await encrypt(newMemberEmail) : '';
-      const encryptedGender = newMemberGender ? await encrypt(newMemberGender) : '';
-
-      await membersApi.create({
+      // The ciphertexts are bound to the id the member will get; the record is only created with them
+      const { nextId: id } = await membersApi.nextId();
+      const encryptField = (column: string, value: string) =>
+        value ? encrypt(value, { table: 'members', column, recordId: id }) : Promise.resolve('');
+
+      const encryptedName = await encryptField('name', newMemberName);
+      const encryptedSurname = await encryptField('surname', newMemberSurname);
+      const encryptedBirthdate = await encryptField('birthdate', newMemberBirthdate);
+      const encryptedEmail = await encryptField('email', newMemberEmail);
+      const encryptedGender = await encryptField('gender', newMemberGender);
+      const tokens = await searchTokens({ name: newMemberName, surname: newMemberSurname, email: newMemberEmail });
+
+      await membersApi.setFields(id, {
         name: encryptedName,
         surname: encryptedSurname,
         birthdate: encryptedBirthdate,
         email: encryptedEmail,
-        gender: encryptedGender
+        gender: encryptedGender,
+        searchTokens: tokens
       });
       setNewMemberName('');
       setNewMemberSurname('');
@@ -241,6 +536,210 @@ export default function Dashboard() {
     }
   }
 
+  function handleOpenEditMember(id: number) {
+    // Start from the values decrypted for the table; tampered fields show as empty
+    const decrypted = decryptedMembers[id];
+    const fields = { name: '', surname: '', birthdate: '', email: '', gender: '' };
+    for (const column of MEMBER_PII_FIELDS) {
+      fields[column] = decrypted?.[column] || '';
+    }
+    setEditMemberFields(fields);
+    setEditMemberError('');
+    setEditingMemberId(id);
+  }
+
+  async function handleSaveMember(e: React.FormEvent) {
+    e.preventDefault();
+    const id = editingMemberId!;
+    const original = decryptedMembers[id];
+    setSavingMember(true);
+    setEditMemberError('');
+    try {
+      // Only changed fields are re-encrypted and sent, each bound to this member's record
+      const update: Partial<Record<keyof MemberPii, string | null>> = {};
+      for (const column of MEMBER_PII_FIELDS) {
+        const value = editMemberFields[column].trim();
+        if (value === (original?.[column] || '')) continue;
+        update[column] = value ? await encrypt(value, { table: 'members', column, recordId: id }) : null;
+      }
+      if (Object.keys(update).length > 0) {
+        const values = { name: editMemberFields.name.trim(), surname: editMemberFields.surname.trim(), email: editMemberFields.email.trim() };
+        await membersApi.update(id, { ...update, searchTokens: await searchTokens(values) });
+        loadData();
+      }
+      setEditingMemberId(null);
+    } catch (error: any) {
+      setEditMemberError(error.message || 'Failed to update member');
+    } finally {
+      setSavingMember(false);
+    }
+  }
+
+  async function handleOpenMemberHistory(id: number) {
+    setHistoryMemberId(id);
+    setHistoryEntries([]);
+    setHistoryError('');
+    setHistoryLoading(true);
+    try {
+      const versions = await membersApi.history(id);
+
+      // Every version stays bound to the member record, whichever row holds it now
+      async function decryptVersion(version: MemberVersion): Promise<MemberPii> {
+        const fields = { name: '', surname: '', birthdate: '', email: '', gender: '' };
+        for (const column of MEMBER_PII_FIELDS) {
+          const value = version[column];
+          if (!value) continue;
+          try {
+            fields[column] = await decrypt(value, { table: 'members', column, recordId: id });
+          } catch {
+            fields[column] = '[unreadable]';
+          }
+        }
+        return fields;
+      }
+
+      const current = decryptedMembers[id];
+      let after: MemberPii = {
+        name: current?.name || '',
+        surname: current?.surname || '',
+        birthdate: current?.birthdate || '',
+        email: current?.email || '',
+        gender: current?.gender || ''
+      };
+      const entries: MemberHistoryEntry[] = [];
+      for (const version of versions) {
+        const before = await decryptVersion(version);
+        entries.push({
+          version,
+          before,
+          after,
+          changed: MEMBER_PII_FIELDS.filter(column => before[column] !== after[column])
+        });
+        after = before;
+      }
+      setHistoryEntries(entries);
+    } catch (error: any) {
+      setHistoryError(error.message || 'Failed to load history');
+    } finally {
+      setHistoryLoading(false);
+    }
+  }
+
+  async function handleRestoreMemberVersion(entry: MemberHistoryEntry) {
+    const when = new Date(entry.version.changed_at).toLocaleString();
+    if (!confirm(`Restore the values this member had before the change of ${when}?`)) return;
+    try {
+      const readable = (value: string) => value === '[unreadable]' ? '' : value;
+      const tokens = await searchTokens({
+        name: readable(entry.before.name),
+        surname: readable(entry.before.surname),
+        email: readable(entry.before.email)
+      });
+      await membersApi.restoreVersion(entry.version.member_id, entry.version.id, tokens);
+      setHistoryMemberId(null);
+      loadData();
+    } catch (error: any) {
+      setHistoryError(error.message || 'Failed to restore version');
+    }
+  }
+
+  async function handleSearchMembers(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setMemberQuery(memberSearchText.trim() ? await searchQuery(memberSearchText) : '');
+    } catch (error: any) {
+      alert(error.message || 'Failed to search members');
+    }
+  }
+
+  function handleClearMemberSearch() {
+    setMemberSearchText('');
+    setMemberQuery('');
+  }
+
+  async function handleIndexMembers() {
+    setIndexingMembers(true);
+    try {
+      const { failed } = await rebuildSearchIndex();
+      if (failed > 0) {
+        alert(`${failed} member(s) could not be indexed: their fields failed verification`);
+      }
+      loadData();
+    } catch (error: any) {
+      alert(error.message || 'Failed to index members');
+    } finally {
+      setIndexingMembers(false);
+    }
+  }
+
+  function handleOpenExportMember(id: number) {
+    setExportFormat('json');
+    setExportProtect(false);
+    setExportPassword('');
+    setExportPasswordConfirm('');
+    setExportError('');
+    setExportMemberId(id);
+  }
+
+  async function handleExportMember(e: React.FormEvent) {
+    e.preventDefault();
+    const id = exportMemberId!;
+    if (exportProtect && exportPassword !== exportPasswordConfirm) {
+      setExportError('Passwords do not match');
+      return;
+    }
+
+    setExporting(true);
+    setExportError('');
+    try {
+      const member = members.find(m => m.id === id)!;
+      const decrypted = decryptedMembers[id];
+      // The members tab doesn't load measurements, so fetch them for this member
+      const measurements = await Promise.all((await dataApi.list({ memberId: id })).map(async w => ({
+        ...w,
+        ...await decodeMeasurement(w, decrypt)
+      })));
+
+      const data: MemberExport = {
+        exportedAt: new Date().toISOString(),
+        exportedBy: user?.username || '',
+        member: {
+          id,
+          name: decrypted?.name || '',
+          surname: decrypted?.surname || '',
+          birthdate: decrypted?.birthdate || '',
+          email: decrypted?.email || '',
+          gender: decrypted?.gender || '',
+          createdAt: member.created_at,
+          deleted: member.deleted
+        },
+        measurements: measurements.map(w => {
+          const type = measurementTypes.find(t => t.key === w.type);
+          return {
+            id: w.id,
+            type: w.type,
+            // As entered; values aren't converted in an export
+            unit: w.unit,
+            // In the order of the type's components
+            value: type ? Object.fromEntries(type.value_schema.components.map(c => [c.key, w.value[c.key]])) : w.value,
+            date: w.date,
+            createdAt: w.created_at,
+            deleted: w.deleted
+          };
+        })
+      };
+      const file = await buildExportFile(data, exportFormat, exportProtect ? exportPassword : undefined);
+
+      await membersApi.logExport(id, exportFormat, exportProtect);
+      downloadFile(file.filename, file.content, file.contentType);
+      setExportMemberId(null);
+    } catch (error: any) {
+      setExportError(error.message || 'Failed to export member');
+    } finally {
+      setExporting(false);
+    }
+  }
+
   async function handleDeleteMember(id: number) {
     if (!confirm('Are you sure you want to delete this member?')) return;
     try {
@@ -269,9 +768,9 @@ export default function Dashboard() {
     }
   }
 
-  // Toggle weight record selection
-  function toggleWeightSelection(id: number) {
-    setSelectedWeightIds(prev => {
+  // Toggle measurement record selection
+  function toggleMeasurementSelection(id: number) {
+    setSelectedMeasurementIds(prev => {
       const next = new Set(prev);
       if (next.has(id)) {
         next.delete(id);
@@ -282,28 +781,31 @@ export default function Dashboard() {
     });
   }
 
-  // Select/deselect all non-deleted weight records
-  function toggleAllWeights() {
-    const nonDeleted = weightRecords.filter(w => !w.deleted).map(w => w.id);
-    if (selectedWeightIds.size === nonDeleted.length) {
-      setSelectedWeightIds(new Set());
+  // Select/deselect all non-deleted measurement records
+  function toggleAllMeasurements() {
+    const nonDeleted = measurementRecords.filter(w => !w.deleted).map(w => w.id);
+    if (selectedMeasurementIds.size === nonDeleted.length) {
+      setSelectedMeasurementIds(new Set());
     } else {
-      setSelectedWeightIds(new Set(nonDeleted));
+      setSelectedMeasurementIds(new Set(nonDeleted));
     }
   }
 
   // Ask LLM handlers
-  function handleOpenAskWeights() {
-    if (selectedWeightIds.size === 0) {
-      alert('Please select at least one weight record');
+  function handleOpenAskMeasurements() {
+    if (selectedMeasurementIds.size === 0) {
+      alert('Please select at least one measurement');
       return;
     }
 
     // Build measurements array from selected records
-    const measurements: WeightMeasurement[] = [];
-    for (const id of selectedWeightIds) {
-      const w = weightRecords.find(r => r.id === id);
-      if (w && !w.deleted) {
+    const measurements: Measurement[] = [];
+    for (const id of selectedMeasurementIds) {
+      const w = measurementRecords.find(r => r.id === id);
+      const type = measurementTypes.find(t => t.key === w?.type);
+      const values = decryptedMeasurements[id];
+      // Records whose encrypted values failed verification are left out
+      if (w && type && !w.deleted && values?.value && values.date) {
         const decryptedMember = decryptedMembers[w.member_id];
         const memberName = decryptedMember
           ? `${decryptedMember.name || ''} ${decryptedMember.surname || ''}`.trim()
@@ -314,14 +816,17 @@ export default function Dashboard() {
           memberId: w.member_id,
           memberName,
           memberGender,
-          weight: w.weight,
-          date: w.date
+          type,
+          value: values.value,
+          unit: w.unit,
+          date: values.date
         });
       }
     }
 
-    const { maskedText, mappings } = maskWeightMeasurements(measurements);
-    setCurrentAskContext({ type: 'weight', ids: Array.from(selectedWeightIds), maskedText, mappings });
+    // Values of sensitive types, and dates if the deployment treats them as sensitive, are masked too
+    const { maskedText, mappings } = maskMeasurements(measurements, { date: sensitiveDates });
+    setCurrentAskContext({ type: 'measurement', ids: Array.from(selectedMeasurementIds), maskedText, mappings });
     setAskQuestion('');
     setAskResult(null);
     setAskError('');
@@ -364,7 +869,7 @@ export default function Dashboard() {
     try {
       // Use sanitized question (with PII replaced by masks)
       const sanitizedQuestion = piiAnalysis?.sanitizedText || askQuestion;
-      const recordType = currentAskContext.type === 'weight' ? 'weight measurement(s)' : 'member';
+      const recordType = currentAskContext.type === 'measurement' ? 'measurement' : 'member';
       const fullPrompt = `Here is ${recordType} data:\n\n${currentAskContext.maskedText}\n\nQuestion: ${sanitizedQuestion}`;
       const result = await askLlm(
         fullPrompt,
@@ -393,7 +898,62 @@ export default function Dashboard() {
     setShowSuggestions(false);
   }
 
-  const canAddData = user?.role === 'admin-role' || user?.role === 'user-role';
+  const canCreateWeight = hasPermission('weight:create');
+  const canDeleteWeight = hasPermission('weight:delete');
+  const canCreateMember = hasPermission('member:create');
+  const canUpdateMember = hasPermission('member:update');
+  const canDeleteMember = hasPermission('member:delete');
+  const canPurgeTrash = hasPermission('trash:purge');
+
+  function memberLabel(memberId: number, encryptedName: string | null) {
+    const decMember = decryptedMembers[memberId];
+    return showDecrypted && decMember
+      ? <span className="decrypted-data">{`${decMember.name || ''} ${decMember.surname || ''}`.trim() || `#${memberId}`}</span>
+      : <span className="encrypted-data" title={encryptedName || ''}>
+          {encryptedName ? `${encryptedName.substring(0, 15)}...` : `#${memberId}`}
+        </span>;
+  }
+
+  // Type of the new measurement form and the unit its value is entered in
+  const newType = measurementTypes.find(t => t.key === newMeasurementType);
+  const newUnit = newType ? newMeasurementUnit || displayUnit(newType) : '';
+
+  // Value of a record in the unit the user displays its type in, with that unit
+  function formatInDisplayUnit(w: MeasurementRecord, value: MeasurementValue) {
+    const type = measurementTypes.find(t => t.key === w.type);
+    if (!type) return formatMeasurement(undefined, value, w.unit);
+    const unit = displayUnit(type);
+    return formatMeasurement(type, convertMeasurement(type, value, w.unit, unit), unit);
+  }
+
+  // Value of a record with its unit, decrypted where its type is sensitive
+  function measurementValue(w: MeasurementRecord) {
+    const encrypted = w.encrypted_value ?? w.encrypted_weight;
+    if (!encrypted) {
+      return <span title={`Entered in ${w.unit}`}>{formatInDisplayUnit(w, w.value!)}</span>;
+    }
+    const value = decryptedMeasurements[w.id]?.value;
+    const column = w.encrypted_value ? 'encrypted_value' : 'encrypted_weight';
+    return displayValue(encrypted, value ? formatInDisplayUnit(w, value) : undefined, tamperedFields.has(`data:${w.id}:${column}`));
+  }
+
+  // Date of a record, decrypted where the deployment encrypts dates
+  function measurementDate(w: MeasurementRecord) {
+    if (!w.encrypted_date) {
+      return w.date;
+    }
+    return displayValue(w.encrypted_date, decryptedMeasurements[w.id]?.date, tamperedFields.has(`data:${w.id}:encrypted_date`));
+  }
+
+  function measurementTypeName(key: string) {
+    return measurementTypes.find(t => t.key === key)?.name ?? key;
+  }
+
+  // When a deleted record becomes eligible for purging
+  function purgeAfter(deleted: string) {
+    if (!trashSettings) return '';
+    return new Date(new Date(deleted).getTime() + trashSettings.retentionDays * 24 * 60 * 60 * 1000).toLocaleString();
+  }
 
   function getRoleBadge(role: string) {
     const classes: Record<string, string> = {
@@ -404,7 +964,10 @@ export default function Dashboard() {
     return <span className={classes[role] || 'badge'}>{role}</span>;
   }
 
-  function displayValue(encrypted: string, decrypted: string | undefined) {
+  function displayValue(encrypted: string, decrypted: string | undefined, tampered = false) {
+    if (tampered && hasDataKey) {
+      return <span className="tampered-data" title={encrypted}>Failed verification</span>;
+    }
     if (showDecrypted && decrypted !== undefined && hasDataKey) {
       return <span className="decrypted-data">{decrypted}</span>;
     }
@@ -476,6 +1039,14 @@ export default function Dashboard() {
                 that can be used on any device with your password.
               </p>
               {keySetupError && <div className="error">{keySetupError}</div>}
+              <label style={{ display: 'block', marginBottom: 15, fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={withRecoveryCode}
+                  onChange={(e) => setWithRecoveryCode(e.target.checked)}
+                />
+                {' '}Create a recovery code (lets you restore access if you forget your password)
+              </label>
             </>
           )}
 
@@ -523,14 +1094,23 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {tamperedFields.size > 0 && (
+          <div className="error" style={{ marginBottom: 15 }}>
+            <strong>Integrity warning:</strong> {tamperedFields.size} encrypted field(s) failed verification
+            and are marked below. Their ciphertext was modified or copied from another record on the server.
+          </div>
+        )}
+
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <div className="tabs">
-            <button
-              className={`tab ${activeTab === 'users' ? 'active' : ''}`}
-              onClick={() => setActiveTab('users')}
-            >
-              Users
-            </button>
+            {hasPermission('user:read') && (
+              <button
+                className={`tab ${activeTab === 'users' ? 'active' : ''}`}
+                onClick={() => setActiveTab('users')}
+              >
+                Users
+              </button>
+            )}
             <button
               className={`tab ${activeTab === 'data' ? 'active' : ''}`}
               onClick={() => setActiveTab('data')}
@@ -543,8 +1123,24 @@ export default function Dashboard() {
             >
               Members
             </button>
+            <button
+              className={`tab ${activeTab === 'trash' ? 'active' : ''}`}
+              onClick={() => setActiveTab('trash')}
+            >
+              Trash
+            </button>
           </div>
           <div style={{ display: 'flex', gap: 10 }}>
+            {publicKey && (
+              <button
+                className="btn"
+                onClick={handleCreateRecoveryCode}
+                style={{ padding: '5px 15px', fontSize: 13 }}
+                title="Create a code to restore access if you forget your password"
+              >
+                Recovery Code
+              </button>
+            )}
             <button
               className="btn"
               onClick={() => {
@@ -588,24 +1184,139 @@ export default function Dashboard() {
                 <tr key={u.id}>
                   <td>{u.id}</td>
                   <td>{u.username}</td>
-                  <td>{displayValue(u.name, decryptedUsers[u.id]?.name)}</td>
-                  <td>{displayValue(u.surname, decryptedUsers[u.id]?.surname)}</td>
-                  <td>{displayValue(u.birthdate, decryptedUsers[u.id]?.birthdate)}</td>
-                  <td>{displayValue(u.email, decryptedUsers[u.id]?.email)}</td>
+                  <td>{displayValue(u.name, decryptedUsers[u.id]?.name, tamperedFields.has(`users:${u.id}:name`))}</td>
+                  <td>{displayValue(u.surname, decryptedUsers[u.id]?.surname, tamperedFields.has(`users:${u.id}:surname`))}</td>
+                  <td>{displayValue(u.birthdate, decryptedUsers[u.id]?.birthdate, tamperedFields.has(`users:${u.id}:birthdate`))}</td>
+                  <td>{displayValue(u.email, decryptedUsers[u.id]?.email, tamperedFields.has(`users:${u.id}:email`))}</td>
                   <td>{getRoleBadge(u.role_name)}</td>
                   <td>{u.is_active ? 'Yes' : 'No'}</td>
                 </tr>
               ))}
             </tbody>
           </table>
+        ) : activeTab === 'trash' ? (
+          <>
+            {trashSettings && (
+              <div style={{ marginBottom: 20, display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+                <span style={{ fontSize: 13, color: '#666' }}>
+                  Deleted records are kept {trashSettings.retentionDays} day(s) before they can be purged.
+                </span>
+                {canPurgeTrash && (
+                  <>
+                    <form onSubmit={handleSaveRetention} style={{ display: 'flex', gap: 5, alignItems: 'center' }}>
+                      <input
+                        type="number"
+                        className="input"
+                        value={retentionInput}
+                        onChange={(e) => setRetentionInput(e.target.value)}
+                        min="0"
+                        step="1"
+                        style={{ width: 80 }}
+                      />
+                      <button type="submit" className="btn" style={{ padding: '5px 10px', fontSize: 12 }}>
+                        Set Retention (days)
+                      </button>
+                    </form>
+                    <button
+                      className="btn btn-danger"
+                      onClick={handlePurgeTrash}
+                      disabled={purging || trashSettings.purgeable.members + trashSettings.purgeable.weights === 0}
+                      style={{ padding: '5px 10px', fontSize: 12 }}
+                    >
+                      {purging ? 'Purging...' : `Purge Expired (${trashSettings.purgeable.members} members, ${trashSettings.purgeable.weights} measurements)`}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            <h3 style={{ marginBottom: 10 }}>Deleted Members</h3>
+            <table style={{ marginBottom: 25 }}>
+              <thead>
+                <tr>
+                  <th>ID</th>
+                  <th>Member</th>
+                  <th>Deleted</th>
+                  <th>Purge After</th>
+                  {canDeleteMember && <th>Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {members.filter(m => m.deleted).map(m => (
+                  <tr key={m.id}>
+                    <td>{m.id}</td>
+                    <td>{memberLabel(m.id, m.name)}</td>
+                    <td>{new Date(m.deleted!).toLocaleString()}</td>
+                    <td>{purgeAfter(m.deleted!)}</td>
+                    {canDeleteMember && (
+                      <td>
+                        <button
+                          className="btn"
+                          style={{ padding: '3px 8px', fontSize: 11 }}
+                          onClick={() => handleRestoreMember(m.id)}
+                        >
+                          Restore
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <h3 style={{ marginBottom: 10 }}>Deleted Measurements</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>ID</th>
+                  <th>Member</th>
+                  <th>Type</th>
+                  <th>Value</th>
+                  <th>Date</th>
+                  <th>Deleted</th>
+                  <th>Purge After</th>
+                  {canDeleteWeight && <th>Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {measurementRecords.filter(w => w.deleted).map(w => {
+                  const memberDeleted = !!members.find(m => m.id === w.member_id)?.deleted;
+                  return (
+                    <tr key={w.id}>
+                      <td>{w.id}</td>
+                      <td>{memberLabel(w.member_id, w.member_name)}</td>
+                      <td>{measurementTypeName(w.type)}</td>
+                      <td>{measurementValue(w)}</td>
+                      <td>{measurementDate(w)}</td>
+                      <td>{new Date(w.deleted!).toLocaleString()}</td>
+                      <td>{purgeAfter(w.deleted!)}</td>
+                      {canDeleteWeight && (
+                        <td>
+                          <button
+                            className="btn"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => handleRestoreMeasurement(w.id)}
+                            disabled={memberDeleted}
+                            title={memberDeleted ? 'Restore the member first' : undefined}
+                          >
+                            Restore
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
         ) : activeTab === 'data' ? (
           <>
-            {canAddData && (
-              <form onSubmit={handleAddWeight} style={{ marginBottom: 20, display: 'flex', gap: 10, alignItems: 'center' }}>
+            {canCreateWeight && (
+              <form onSubmit={handleAddMeasurement} style={{ marginBottom: 20, display: 'flex', gap: 10, alignItems: 'center' }}>
                 <select
                   className="input"
-                  value={newWeightMemberId}
-                  onChange={(e) => setNewWeightMemberId(e.target.value ? parseInt(e.target.value) : '')}
+                  value={newMeasurementMemberId}
+                  onChange={(e) => setNewMeasurementMemberId(e.target.value ? parseInt(e.target.value) : '')}
                   required
                   style={{ width: 200 }}
                 >
@@ -620,71 +1331,214 @@ export default function Dashboard() {
                     );
                   })}
                 </select>
-                <input
-                  type="number"
+                <select
                   className="input"
-                  placeholder="Weight (kg)"
-                  value={newWeight}
-                  onChange={(e) => setNewWeight(e.target.value)}
-                  required
-                  step="0.1"
-                  min="0"
-                  style={{ width: 120 }}
-                />
+                  value={newMeasurementType}
+                  onChange={(e) => {
+                    setNewMeasurementType(e.target.value);
+                    setNewMeasurementValue({});
+                    setNewMeasurementUnit('');
+                  }}
+                  style={{ width: 160 }}
+                >
+                  {measurementTypes.map(t => (
+                    <option key={t.key} value={t.key}>{t.name}</option>
+                  ))}
+                </select>
+                {/* Bounds and whole numbers are in the type's unit; other units are checked on submit */}
+                {newType?.value_schema.components.map(c => (
+                  <input
+                    key={c.key}
+                    type="number"
+                    className="input"
+                    placeholder={newUnit ? `${c.label} (${newUnit})` : c.label}
+                    value={newMeasurementValue[c.key] ?? ''}
+                    onChange={(e) => setNewMeasurementValue(prev => ({ ...prev, [c.key]: e.target.value }))}
+                    required
+                    step={newUnit === newType.unit ? (c.integer ? 1 : 0.1) : 'any'}
+                    min={newUnit === newType.unit ? c.min : undefined}
+                    max={newUnit === newType.unit ? c.max : undefined}
+                    style={{ width: 130 }}
+                  />
+                ))}
+                {newType && Object.keys(newType.units).length > 1 && (
+                  <select
+                    className="input"
+                    value={newUnit}
+                    onChange={(e) => setNewMeasurementUnit(e.target.value)}
+                    title="Unit the value is entered in"
+                    style={{ width: 80 }}
+                  >
+                    {Object.keys(newType.units).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                )}
                 <input
                   type="date"
                   className="input"
-                  value={newWeightDate}
-                  onChange={(e) => setNewWeightDate(e.target.value)}
+                  value={newMeasurementDate}
+                  onChange={(e) => setNewMeasurementDate(e.target.value)}
                   required
                   style={{ width: 150 }}
                 />
-                <button type="submit" className="btn btn-primary" disabled={addingWeight}>
-                  {addingWeight ? 'Adding...' : 'Add Weight'}
+                <button type="submit" className="btn btn-primary" disabled={addingMeasurement}>
+                  {addingMeasurement ? 'Adding...' : 'Add Measurement'}
                 </button>
               </form>
             )}
             <div style={{ marginBottom: 15, display: 'flex', gap: 10, alignItems: 'center' }}>
               <button
                 className="btn btn-primary"
-                onClick={handleOpenAskWeights}
-                disabled={!hasApiKey || selectedWeightIds.size === 0}
-                title={!hasApiKey ? 'Configure LLM API key first' : selectedWeightIds.size === 0 ? 'Select weight records first' : `Ask about ${selectedWeightIds.size} selected record(s)`}
+                onClick={handleOpenAskMeasurements}
+                disabled={!hasApiKey || selectedMeasurementIds.size === 0}
+                title={!hasApiKey ? 'Configure LLM API key first' : selectedMeasurementIds.size === 0 ? 'Select measurements first' : `Ask about ${selectedMeasurementIds.size} selected record(s)`}
               >
-                Ask LLM ({selectedWeightIds.size} selected)
+                Ask LLM ({selectedMeasurementIds.size} selected)
               </button>
-              {selectedWeightIds.size > 0 && (
+              <button
+                className="btn"
+                onClick={() => setTrendMemberIds(measurementFilters.memberId ? [measurementFilters.memberId] : [])}
+                disabled={!hasDataKey}
+                title="Chart weight history, decrypted in this browser"
+              >
+                Trends...
+              </button>
+              {selectedMeasurementIds.size > 0 && (
                 <button
                   className="btn"
-                  onClick={() => setSelectedWeightIds(new Set())}
+                  onClick={() => setSelectedMeasurementIds(new Set())}
                   style={{ padding: '5px 10px', fontSize: 12 }}
                 >
                   Clear Selection
                 </button>
               )}
             </div>
+            <div style={{ marginBottom: 15, display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap', fontSize: 13 }}>
+              <select
+                className="input"
+                value={measurementFilters.memberId ?? ''}
+                onChange={(e) => updateMeasurementFilters({ memberId: e.target.value ? parseInt(e.target.value) : undefined })}
+                style={{ width: 200 }}
+              >
+                <option value="">All members</option>
+                {members.map(m => (
+                  <option key={m.id} value={m.id}>
+                    {`${decryptedMembers[m.id]?.name || ''} ${decryptedMembers[m.id]?.surname || ''}`.trim() || `Member #${m.id}`}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="input"
+                value={measurementFilters.type ?? ''}
+                onChange={(e) => {
+                  const type = measurementTypes.find(t => t.key === e.target.value);
+                  // Sorting by value needs a type whose values aren't encrypted
+                  const canSortByValue = type && !type.sensitive;
+                  updateMeasurementFilters({
+                    type: type?.key,
+                    ...(measurementFilters.sort === 'value' && !canSortByValue ? { sort: sensitiveDates ? 'created' : 'date' } : {})
+                  });
+                }}
+                style={{ width: 160 }}
+              >
+                <option value="">All types</option>
+                {measurementTypes.map(t => (
+                  <option key={t.key} value={t.key}>{t.name}</option>
+                ))}
+              </select>
+              {measurementTypes.filter(t => t.key === measurementFilters.type && Object.keys(t.units).length > 1).map(t => (
+                <label key={t.key} style={{ display: 'flex', alignItems: 'center', gap: 5 }}>
+                  Show in
+                  <select
+                    className="input"
+                    value={displayUnit(t)}
+                    onChange={(e) => handleDisplayUnitChange(t, e.target.value)}
+                    title={`Unit you see ${t.name} values in`}
+                    style={{ width: 80 }}
+                  >
+                    {Object.keys(t.units).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                </label>
+              ))}
+              {/* The server can't filter or sort on encrypted fields */}
+              {!sensitiveDates && (
+                <>
+                  From
+                  <input
+                    type="date"
+                    className="input"
+                    value={measurementFilters.from ?? ''}
+                    onChange={(e) => updateMeasurementFilters({ from: e.target.value || undefined })}
+                    style={{ width: 150 }}
+                  />
+                  To
+                  <input
+                    type="date"
+                    className="input"
+                    value={measurementFilters.to ?? ''}
+                    onChange={(e) => updateMeasurementFilters({ to: e.target.value || undefined })}
+                    style={{ width: 150 }}
+                  />
+                </>
+              )}
+              <select
+                className="input"
+                value={measurementFilters.deleted}
+                onChange={(e) => updateMeasurementFilters({ deleted: e.target.value as DeletedFilter })}
+                style={{ width: 150 }}
+              >
+                <option value="include">All records</option>
+                <option value="exclude">Active records</option>
+                <option value="only">Deleted records</option>
+              </select>
+              Sort by
+              <select
+                className="input"
+                value={`${measurementFilters.sort}:${measurementFilters.order}`}
+                onChange={(e) => {
+                  const [sort, order] = e.target.value.split(':') as [MeasurementFilters['sort'], MeasurementFilters['order']];
+                  updateMeasurementFilters({ sort, order });
+                }}
+                style={{ width: 180 }}
+              >
+                {!sensitiveDates && (
+                  <>
+                    <option value="date:desc">Date, newest first</option>
+                    <option value="date:asc">Date, oldest first</option>
+                  </>
+                )}
+                {measurementTypes.some(t => t.key === measurementFilters.type && !t.sensitive) && (
+                  <>
+                    <option value="value:desc">Value, highest first</option>
+                    <option value="value:asc">Value, lowest first</option>
+                  </>
+                )}
+                <option value="created:desc">Recently added</option>
+                <option value="created:asc">First added</option>
+              </select>
+            </div>
             <table>
               <thead>
                 <tr>
                   <th style={{ width: 40 }}>
                     <input
                       type="checkbox"
-                      checked={weightRecords.filter(w => !w.deleted).length > 0 &&
-                               weightRecords.filter(w => !w.deleted).every(w => selectedWeightIds.has(w.id))}
-                      onChange={toggleAllWeights}
+                      checked={measurementRecords.filter(w => !w.deleted).length > 0 &&
+                               measurementRecords.filter(w => !w.deleted).every(w => selectedMeasurementIds.has(w.id))}
+                      onChange={toggleAllMeasurements}
                       title="Select all"
                     />
                   </th>
                   <th>ID</th>
                   <th>Member</th>
-                  <th>Weight (kg)</th>
+                  <th>Type</th>
+                  <th>Value</th>
                   <th>Date</th>
                   <th>Created</th>
-                  {canAddData && <th>Actions</th>}
+                  {canDeleteWeight && <th>Actions</th>}
                 </tr>
               </thead>
               <tbody>
-                {weightRecords.map((w) => {
+                {measurementRecords.map((w) => {
                   const decMember = decryptedMembers[w.member_id];
                   const memberDisplay = showDecrypted && decMember
                     ? <span className="decrypted-data">{`${decMember.name || ''} ${decMember.surname || ''}`.trim() || `#${w.member_id}`}</span>
@@ -697,15 +1551,16 @@ export default function Dashboard() {
                         {!w.deleted && (
                           <input
                             type="checkbox"
-                            checked={selectedWeightIds.has(w.id)}
-                            onChange={() => toggleWeightSelection(w.id)}
+                            checked={selectedMeasurementIds.has(w.id)}
+                            onChange={() => toggleMeasurementSelection(w.id)}
                           />
                         )}
                       </td>
                       <td>{w.id}</td>
                       <td>{memberDisplay}</td>
-                      <td>{w.weight}</td>
-                      <td>{w.date}</td>
+                      <td>{measurementTypeName(w.type)}</td>
+                      <td>{measurementValue(w)}</td>
+                      <td>{measurementDate(w)}</td>
                       <td>
                         {new Date(w.created_at).toLocaleString()}
                         {w.deleted && (
@@ -714,13 +1569,13 @@ export default function Dashboard() {
                           </div>
                         )}
                       </td>
-                      {canAddData && (
+                      {canDeleteWeight && (
                         <td>
                           {!w.deleted && (
                             <button
                               className="btn btn-danger"
                               style={{ padding: '3px 8px', fontSize: 11 }}
-                              onClick={() => handleDeleteWeight(w.id)}
+                              onClick={() => handleDeleteMeasurement(w.id)}
                             >
                               Delete
                             </button>
@@ -732,10 +1587,15 @@ export default function Dashboard() {
                 })}
               </tbody>
             </table>
+            {measurementsCursor && (
+              <button className="btn" onClick={handleLoadMore} disabled={loadingMore} style={{ marginTop: 15 }}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </>
         ) : (
           <>
-            {canAddData && (
+            {canCreateMember && (
               <form onSubmit={handleAddMember} style={{ marginBottom: 20, display: 'flex', gap: 10, flexWrap: 'wrap' }}>
                 <input
                   type="text"
@@ -781,8 +1641,55 @@ export default function Dashboard() {
                 <button type="submit" className="btn btn-primary" disabled={addingMember || !hasDataKey}>
                   {addingMember ? 'Adding...' : 'Add Member'}
                 </button>
+                <button type="button" className="btn" onClick={() => setShowImport(true)} disabled={!hasDataKey}>
+                  Import...
+                </button>
               </form>
             )}
+            {unindexedMembers > 0 && canUpdateMember && hasDataKey && (
+              <div style={{
+                backgroundColor: '#fff3cd',
+                border: '1px solid #ffc107',
+                borderRadius: 6,
+                padding: 10,
+                marginBottom: 15,
+                color: '#856404',
+                fontSize: 13
+              }}>
+                {unindexedMembers} member(s) can't be found by search yet.{' '}
+                <button className="btn" style={{ padding: '3px 8px', fontSize: 11 }} onClick={handleIndexMembers} disabled={indexingMembers}>
+                  {indexingMembers ? 'Indexing...' : 'Index now'}
+                </button>
+              </div>
+            )}
+            {hasDataKey && (
+              <form onSubmit={handleSearchMembers} style={{ marginBottom: 15, display: 'flex', gap: 10 }}>
+                <input
+                  type="search"
+                  className="input"
+                  placeholder="Search by whole words of name, surname or email"
+                  value={memberSearchText}
+                  onChange={(e) => setMemberSearchText(e.target.value)}
+                  style={{ width: 360 }}
+                />
+                <button type="submit" className="btn">Search</button>
+                {memberQuery && (
+                  <button type="button" className="btn" onClick={handleClearMemberSearch}>Clear</button>
+                )}
+              </form>
+            )}
+            <div style={{ marginBottom: 15 }}>
+              <select
+                className="input"
+                value={memberDeletedFilter}
+                onChange={(e) => setMemberDeletedFilter(e.target.value as DeletedFilter)}
+                style={{ width: 180 }}
+              >
+                <option value="include">All members</option>
+                <option value="exclude">Active members</option>
+                <option value="only">Deleted members</option>
+              </select>
+            </div>
             <table>
               <thead>
                 <tr>
@@ -793,18 +1700,18 @@ export default function Dashboard() {
                   <th>Email</th>
                   <th>Gender</th>
                   <th>Created</th>
-                  {canAddData && <th>Actions</th>}
+                  <th>Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {members.map((m) => (
                   <tr key={m.id} style={m.deleted ? { opacity: 0.5, backgroundColor: '#f5f5f5' } : {}}>
                     <td>{m.id}</td>
-                    <td>{displayValue(m.name || '', decryptedMembers[m.id]?.name || '')}</td>
-                    <td>{displayValue(m.surname || '', decryptedMembers[m.id]?.surname || '')}</td>
-                    <td>{displayValue(m.birthdate || '', decryptedMembers[m.id]?.birthdate || '')}</td>
-                    <td>{displayValue(m.email || '', decryptedMembers[m.id]?.email || '')}</td>
-                    <td>{displayValue(m.gender || '', decryptedMembers[m.id]?.gender || '')}</td>
+                    <td>{displayValue(m.name || '', decryptedMembers[m.id]?.name || '', tamperedFields.has(`members:${m.id}:name`))}</td>
+                    <td>{displayValue(m.surname || '', decryptedMembers[m.id]?.surname || '', tamperedFields.has(`members:${m.id}:surname`))}</td>
+                    <td>{displayValue(m.birthdate || '', decryptedMembers[m.id]?.birthdate || '', tamperedFields.has(`members:${m.id}:birthdate`))}</td>
+                    <td>{displayValue(m.email || '', decryptedMembers[m.id]?.email || '', tamperedFields.has(`members:${m.id}:email`))}</td>
+                    <td>{displayValue(m.gender || '', decryptedMembers[m.id]?.gender || '', tamperedFields.has(`members:${m.id}:gender`))}</td>
                     <td>
                       {new Date(m.created_at).toLocaleString()}
                       {m.deleted && (
@@ -813,36 +1720,77 @@ export default function Dashboard() {
                         </div>
                       )}
                     </td>
-                    {canAddData && (
-                      <td>
-                        <div style={{ display: 'flex', gap: 5 }}>
-                          {!m.deleted && hasDataKey && (
-                            <button
-                              className="btn"
-                              style={{ padding: '3px 8px', fontSize: 11 }}
-                              onClick={() => handleOpenAskMember(m)}
-                              disabled={!hasApiKey}
-                              title={hasApiKey ? 'Ask LLM about this member' : 'Configure LLM API key first'}
-                            >
-                              Ask
-                            </button>
-                          )}
-                          {!m.deleted && (
-                            <button
-                              className="btn btn-danger"
-                              style={{ padding: '3px 8px', fontSize: 11 }}
-                              onClick={() => handleDeleteMember(m.id)}
-                            >
-                              Delete
-                            </button>
-                          )}
-                        </div>
-                      </td>
-                    )}
+                    <td>
+                      <div style={{ display: 'flex', gap: 5 }}>
+                        {!m.deleted && hasDataKey && (
+                          <button
+                            className="btn"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => handleOpenAskMember(m)}
+                            disabled={!hasApiKey}
+                            title={hasApiKey ? 'Ask LLM about this member' : 'Configure LLM API key first'}
+                          >
+                            Ask
+                          </button>
+                        )}
+                        {hasDataKey && (
+                          <button
+                            className="btn"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => handleOpenMemberHistory(m.id)}
+                          >
+                            History
+                          </button>
+                        )}
+                        {!m.deleted && hasDataKey && (
+                          <button
+                            className="btn"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => setTrendMemberIds([m.id])}
+                          >
+                            Trends
+                          </button>
+                        )}
+                        {hasDataKey && (
+                          <button
+                            className="btn"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => handleOpenExportMember(m.id)}
+                            disabled={MEMBER_PII_FIELDS.some(column => tamperedFields.has(`members:${m.id}:${column}`))}
+                            title="Download this member's decrypted record"
+                          >
+                            Export
+                          </button>
+                        )}
+                        {!m.deleted && canUpdateMember && hasDataKey && (
+                          <button
+                            className="btn"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => handleOpenEditMember(m.id)}
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {!m.deleted && canDeleteMember && (
+                          <button
+                            className="btn btn-danger"
+                            style={{ padding: '3px 8px', fontSize: 11 }}
+                            onClick={() => handleDeleteMember(m.id)}
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
+            {membersCursor && (
+              <button className="btn" onClick={handleLoadMore} disabled={loadingMore} style={{ marginTop: 15 }}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </>
         )}
       </div>
@@ -917,6 +1865,254 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Edit Member Modal */}
+      {editingMemberId !== null && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <form onSubmit={handleSaveMember} style={{
+            backgroundColor: '#fff',
+            borderRadius: 8,
+            padding: 25,
+            maxWidth: 500,
+            width: '90%'
+          }}>
+            <h3 style={{ marginBottom: 20 }}>Edit member #{editingMemberId}</h3>
+            {editMemberError && <div className="error">{editMemberError}</div>}
+
+            {MEMBER_PII_FIELDS.map(column => (
+              <div className="form-group" key={column}>
+                <label style={{ textTransform: 'capitalize' }}>{column}</label>
+                {column === 'gender' ? (
+                  <select
+                    className="input"
+                    value={editMemberFields.gender}
+                    onChange={(e) => setEditMemberFields(prev => ({ ...prev, gender: e.target.value }))}
+                  >
+                    <option value="">-</option>
+                    <option value="M">M</option>
+                    <option value="F">F</option>
+                  </select>
+                ) : (
+                  <input
+                    type={column === 'birthdate' ? 'date' : column === 'email' ? 'email' : 'text'}
+                    className="input"
+                    value={editMemberFields[column]}
+                    onChange={(e) => setEditMemberFields(prev => ({ ...prev, [column]: e.target.value }))}
+                  />
+                )}
+              </div>
+            ))}
+            <p style={{ fontSize: 12, color: '#666', marginBottom: 15 }}>
+              Changed values are encrypted in this browser before saving. Empty fields are cleared.
+            </p>
+
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+              <button type="button" className="btn" onClick={() => setEditingMemberId(null)} disabled={savingMember}>
+                Cancel
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={savingMember}>
+                {savingMember ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Export Member Modal */}
+      {exportMemberId !== null && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <form onSubmit={handleExportMember} style={{
+            backgroundColor: '#fff',
+            borderRadius: 8,
+            padding: 25,
+            maxWidth: 500,
+            width: '90%'
+          }}>
+            <h3 style={{ marginBottom: 15 }}>Export member #{exportMemberId}</h3>
+            <p style={{ fontSize: 13, color: '#666', marginBottom: 15 }}>
+              The member's personal data and all their measurements are decrypted in this browser and saved
+              as a file. The export is recorded in the audit log.
+            </p>
+            {exportError && <div className="error">{exportError}</div>}
+
+            <div className="form-group">
+              <label>Format</label>
+              <select className="input" value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+                <option value="json">JSON</option>
+                <option value="csv">CSV (one row per measurement)</option>
+              </select>
+            </div>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 15 }}>
+              <input type="checkbox" checked={exportProtect} onChange={(e) => setExportProtect(e.target.checked)} />
+              Protect with a password (AES-256-GCM archive)
+            </label>
+            {exportProtect && (
+              <>
+                <div className="form-group">
+                  <label>Password</label>
+                  <input
+                    type="password"
+                    className="input"
+                    value={exportPassword}
+                    onChange={(e) => setExportPassword(e.target.value)}
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Confirm Password</label>
+                  <input
+                    type="password"
+                    className="input"
+                    value={exportPasswordConfirm}
+                    onChange={(e) => setExportPasswordConfirm(e.target.value)}
+                    required
+                  />
+                </div>
+              </>
+            )}
+
+            <div style={{ display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+              <button type="button" className="btn" onClick={() => setExportMemberId(null)} disabled={exporting}>
+                Cancel
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={exporting}>
+                {exporting ? 'Exporting...' : 'Export'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Member History Modal */}
+      {historyMemberId !== null && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: '#fff',
+            borderRadius: 8,
+            padding: 25,
+            maxWidth: 700,
+            width: '90%',
+            maxHeight: '90vh',
+            overflow: 'auto'
+          }}>
+            <h3 style={{ marginBottom: 15 }}>History of member #{historyMemberId}</h3>
+            {historyError && <div className="error">{historyError}</div>}
+            {historyLoading && <p>Decrypting versions...</p>}
+            {!historyLoading && !historyError && historyEntries.length === 0 && (
+              <p style={{ color: '#666' }}>This member has not been edited.</p>
+            )}
+
+            {historyEntries.map(entry => {
+              const isDeleted = !!members.find(m => m.id === entry.version.member_id)?.deleted;
+              return (
+                <div key={entry.version.id} style={{ borderLeft: '3px solid #17a2b8', padding: '5px 0 5px 12px', marginBottom: 15 }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 5 }}>
+                    <span style={{ fontSize: 13 }}>
+                      <strong>{new Date(entry.version.changed_at).toLocaleString()}</strong>
+                      {' by '}{entry.version.changed_by_username || 'a deleted user'}
+                    </span>
+                    {canUpdateMember && !isDeleted && (
+                      <button
+                        className="btn"
+                        style={{ padding: '3px 8px', fontSize: 11 }}
+                        onClick={() => handleRestoreMemberVersion(entry)}
+                      >
+                        Restore previous values
+                      </button>
+                    )}
+                  </div>
+                  {entry.changed.length === 0 ? (
+                    <p style={{ fontSize: 12, color: '#666' }}>
+                      Re-saved {entry.version.changed_fields.split(',').join(', ')} without changing the values
+                    </p>
+                  ) : (
+                    <table style={{ fontSize: 12 }}>
+                      <thead>
+                        <tr>
+                          <th>Field</th>
+                          <th>Before</th>
+                          <th>After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {entry.changed.map(column => (
+                          <tr key={column}>
+                            <td style={{ textTransform: 'capitalize' }}>{column}</td>
+                            <td style={{ color: '#dc3545' }}>{entry.before[column] || <em>empty</em>}</td>
+                            <td style={{ color: '#28a745' }}>{entry.after[column] || <em>empty</em>}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <button className="btn" onClick={() => setHistoryMemberId(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showImport && (
+        <ImportWizard
+          onClose={() => setShowImport(false)}
+          onImported={loadData}
+        />
+      )}
+
+      {trendMemberIds && (
+        <TrendView
+          showDecrypted={showDecrypted && hasDataKey}
+          types={measurementTypes}
+          initialMemberIds={trendMemberIds}
+          canSetGoals={canCreateWeight}
+          onClose={() => setTrendMemberIds(null)}
+        />
+      )}
+
+      {recoveryCode && (
+        <RecoveryCodeModal code={recoveryCode} onClose={() => setRecoveryCode(null)} />
+      )}
+
       {/* Ask LLM Modal */}
       {showAskModal && currentAskContext && (
         <div style={{
@@ -941,8 +2137,8 @@ export default function Dashboard() {
             overflow: 'auto'
           }}>
             <h3 style={{ marginBottom: 15 }}>
-              Ask LLM about {currentAskContext.type === 'weight'
-                ? `${currentAskContext.ids.length} weight record(s)`
+              Ask LLM about {currentAskContext.type === 'measurement'
+                ? `${currentAskContext.ids.length} measurement(s)`
                 : `member #${currentAskContext.ids[0]}`}
             </h3>
 
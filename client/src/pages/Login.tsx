@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 
 export default function Login() {
@@ -54,7 +55,10 @@ export default function Login() {
             {loading ? 'Logging in...' : 'Login'}
           </button>
         </form>
-        <p style={{ marginTop: 20, fontSize: 12, color: '#666' }}>
+        <p style={{ marginTop: 20, fontSize: 12 }}>
+          <Link to="/recover">Forgot password? Use your recovery code</Link>
+        </p>
+        <p style={{ marginTop: 10, fontSize: 12, color: '#666' }}>
           Seed login: username: <code>seed</code>, password: <code>init</code>
         </p>
       </div>
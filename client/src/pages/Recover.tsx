@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { recoveryApi } from '../utils/api';
+import {
+  deriveRecoveryKeys,
+  generateRecoveryCode,
+  deriveKEK,
+  decryptPrivateKey,
+  encryptPrivateKey
+} from '../utils/crypto';
+import RecoveryCodeModal from '../components/RecoveryCodeModal';
+
+export default function Recover() {
+  const { login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [newCode, setNewCode] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Decrypt the recovery copy of the private key with the code-derived key
+      const { kek: recoveryKek, token } = await deriveRecoveryKeys(code);
+      const { encryptedPrivateKey, kdfParams } = await recoveryApi.start(username, token);
+      const privateKey = await decryptPrivateKey(encryptedPrivateKey, recoveryKek);
+
+      // Re-encrypt it under the new password, and under a fresh recovery code
+      // (the used one may have been exposed on this device)
+      const kek = await deriveKEK(newPassword, kdfParams);
+      const replacementCode = generateRecoveryCode();
+      const replacement = await deriveRecoveryKeys(replacementCode);
+
+      await recoveryApi.complete({
+        username,
+        recoveryToken: token,
+        newPassword,
+        encryptedPrivateKey: await encryptPrivateKey(privateKey, kek),
+        kdfParams,
+        newRecovery: {
+          encryptedPrivateKey: await encryptPrivateKey(privateKey, replacement.kek),
+          recoveryToken: replacement.token
+        }
+      });
+
+      setNewCode(replacementCode);
+    } catch (err: any) {
+      setError(err.message || 'Recovery failed');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleContinue() {
+    setNewCode(null);
+    try {
+      await login(username, newPassword);
+    } catch (err: any) {
+      setError(err.message || 'Login failed');
+    }
+  }
+
+  return (
+    <div className="container" style={{ maxWidth: 400, marginTop: 100 }}>
+      <div className="card">
+        <h2 style={{ marginBottom: 20 }}>Recover Access</h2>
+        <p style={{ marginBottom: 20, fontSize: 13, color: '#666' }}>
+          Enter the recovery code you saved when setting up your encryption keys,
+          and choose a new password.
+        </p>
+        <form onSubmit={handleSubmit}>
+          {error && <div className="error">{error}</div>}
+          <div className="form-group">
+            <label>Username</label>
+            <input
+              type="text"
+              className="input"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+              autoFocus
+            />
+          </div>
+          <div className="form-group">
+            <label>Recovery Code</label>
+            <input
+              type="text"
+              className="input"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="XXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+              required
+              style={{ fontFamily: 'monospace' }}
+            />
+          </div>
+          <div className="form-group">
+            <label>New Password</label>
+            <input
+              type="password"
+              className="input"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label>Confirm New Password</label>
+            <input
+              type="password"
+              className="input"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+            />
+          </div>
+          <button type="submit" className="btn btn-primary" disabled={loading}>
+            {loading ? 'Recovering...' : 'Recover Access'}
+          </button>
+        </form>
+        <p style={{ marginTop: 20, fontSize: 12 }}>
+          <Link to="/login">Back to login</Link>
+        </p>
+      </div>
+
+      {newCode && <RecoveryCodeModal code={newCode} onClose={handleContinue} />}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import type { KdfParams } from './crypto';
+
 const API_BASE = '/api';
 
 async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
@@ -18,10 +20,33 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
   return response.json();
 }
 
+// Query string of the defined parameters, with its leading "?"
+function queryString(params: Record<string, string | number | undefined>): string {
+  const searchParams = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') searchParams.set(name, value.toString());
+  }
+  const query = searchParams.toString();
+  return query ? `?${query}` : '';
+}
+
+// Lists are paginated with a cursor: pass nextCursor back to get the following page
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface PageParams {
+  limit?: number;
+  cursor?: string;
+}
+
+export type DeletedFilter = 'include' | 'exclude' | 'only';
+
 // Auth API
 export const authApi = {
   login: (username: string, password: string) =>
-    request<{ message: string; user: { id: number; username: string; role: string } }>('/auth/login', {
+    request<{ message: string; user: { id: number; username: string; role: string; permissions: string[] } }>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ username, password })
     }),
@@ -30,7 +55,7 @@ export const authApi = {
     request<{ message: string }>('/auth/logout', { method: 'POST' }),
 
   me: () =>
-    request<{ user: { id: number; username: string; role: string } }>('/auth/me')
+    request<{ user: { id: number; username: string; role: string; permissions: string[] } }>('/auth/me')
 };
 
 // Users API
@@ -54,40 +79,239 @@ export const usersApi = {
     surname?: string;
     birthdate?: string;
     email?: string;
-    roleId?: string;
+    roleName?: string;
     publicKey: string;
   }) =>
     request<{ message: string; userId: number }>('/users', {
       method: 'POST',
       body: JSON.stringify(data)
+    }),
+
+  setRole: (userId: number, roleId: number) =>
+    request<{ message: string }>(`/users/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ roleId })
+    }),
+
+  // Fields left out are unchanged; null clears a field
+  update: (userId: number, data: {
+    name?: string | null;
+    surname?: string | null;
+    birthdate?: string | null;
+    email?: string | null;
+    roleId?: number;
+  }) =>
+    request<{ message: string }>(`/users/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data)
+    }),
+
+  deactivate: (userId: number) =>
+    request<{ message: string; sessionsEnded: number }>(`/users/${userId}/deactivate`, {
+      method: 'POST'
+    }),
+
+  reactivate: (userId: number) =>
+    request<{ message: string }>(`/users/${userId}/reactivate`, {
+      method: 'POST'
+    }),
+
+  delete: (userId: number) =>
+    request<{ message: string }>(`/users/${userId}`, {
+      method: 'DELETE'
+    })
+};
+
+// Measurement Types API
+export interface ValueComponent {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface ValueSchema {
+  components: ValueComponent[];
+}
+
+export interface MeasurementType {
+  id: number;
+  key: string;
+  name: string;
+  unit: string;
+  value_schema: ValueSchema;
+  // Values of this type are encrypted in the browser
+  sensitive: boolean;
+  built_in: boolean;
+  // Units values can be entered in, with the factor converting each into the type's unit
+  units: Record<string, number>;
+  record_count: number;
+  // Unit the current user displays this type in; null for the type's unit
+  display_unit: string | null;
+}
+
+export interface MeasurementTypeInput {
+  name: string;
+  unit: string;
+  valueSchema?: ValueSchema;
+  sensitive?: boolean;
+}
+
+export const measurementTypesApi = {
+  list: () => request<MeasurementType[]>('/measurement-types'),
+
+  create: (key: string, type: MeasurementTypeInput) =>
+    request<{ message: string; id: number }>('/measurement-types', {
+      method: 'POST',
+      body: JSON.stringify({ key, ...type })
+    }),
+
+  update: (key: string, type: MeasurementTypeInput) =>
+    request<{ message: string }>(`/measurement-types/${key}`, {
+      method: 'PUT',
+      body: JSON.stringify(type)
+    }),
+
+  delete: (key: string) =>
+    request<{ message: string }>(`/measurement-types/${key}`, {
+      method: 'DELETE'
+    }),
+
+  setDisplayUnit: (key: string, unit: string | null) =>
+    request<{ message: string; display_unit: string | null }>(`/measurement-types/${key}/display-unit`, {
+      method: 'PUT',
+      body: JSON.stringify({ unit })
     })
 };
 
-// Weight Data API
-export interface WeightRecord {
+// Measurement Goals API
+// A member's goal for a measurement type, always encrypted (see utils/measurements.ts)
+export interface MeasurementGoal {
   id: number;
   member_id: number;
-  weight: number;
-  date: string;
+  // Measurement type key
+  type: string;
+  unit: string;
+  encrypted_value: string;
+  updated_at: string;
+}
+
+export const measurementGoalsApi = {
+  list: (memberId: number) => request<MeasurementGoal[]>(`/measurement-goals?memberId=${memberId}`),
+
+  set: (memberId: number, type: string, unit: string, encryptedValue: string) =>
+    request<{ message: string }>(`/measurement-goals/${memberId}/${type}`, {
+      method: 'PUT',
+      body: JSON.stringify({ unit, encryptedValue })
+    }),
+
+  delete: (memberId: number, type: string) =>
+    request<{ message: string }>(`/measurement-goals/${memberId}/${type}`, {
+      method: 'DELETE'
+    })
+};
+
+// Measurement Data API
+// Value and date are in plaintext, or null with the ciphertext in encrypted_value / encrypted_date
+// where the deployment treats them as sensitive (see utils/measurements.ts). Weights encrypted
+// before measurement types existed are in encrypted_weight until converted.
+export type MeasurementValue = Record<string, number>;
+
+export interface MeasurementRecord {
+  id: number;
+  member_id: number;
+  // Measurement type key
+  type: string;
+  // Unit of the value, one of its type's units
+  unit: string;
+  value: MeasurementValue | null;
+  date: string | null;
+  encrypted_value: string | null;
+  encrypted_weight: string | null;
+  encrypted_date: string | null;
   deleted: string | null;
   created_at: string;
   member_name: string | null;
   member_surname: string | null;
 }
 
+// Plaintext value and date, or their ciphertexts where sensitive; unit defaults to the type's
+export interface MeasurementValues {
+  unit?: string;
+  value?: MeasurementValue;
+  date?: string;
+  encryptedValue?: string;
+  encryptedDate?: string;
+}
+
+export interface MeasurementSensitivity {
+  dates: boolean;
+  // Keys of the measurement types whose values are encrypted
+  types: string[];
+  // Records not yet stored the way their type and the date setting require
+  unconverted: number;
+}
+
+export interface MeasurementFilters {
+  memberId?: number;
+  type?: string;
+  // Converts plaintext values into one of the type's units
+  unit?: string;
+  from?: string;
+  to?: string;
+  deleted?: DeletedFilter;
+  sort?: 'date' | 'value' | 'created';
+  order?: 'asc' | 'desc';
+}
+
 export const dataApi = {
-  list: () =>
-    request<WeightRecord[]>('/data'),
+  list: (filters: MeasurementFilters = {}) =>
+    request<MeasurementRecord[]>(`/data${queryString({ ...filters })}`),
 
-  create: (memberId: number, weight: number, date: string) =>
+  page: (filters: MeasurementFilters & PageParams = {}) =>
+    request<Page<MeasurementRecord>>(`/data${queryString({ ...filters })}`),
+
+  create: (memberId: number, type: string, values: MeasurementValues) =>
     request<{ message: string; id: number }>('/data', {
       method: 'POST',
-      body: JSON.stringify({ memberId, weight, date })
+      body: JSON.stringify({ memberId, type, ...values })
     }),
 
   delete: (id: number) =>
     request<{ message: string; deletedAt: string }>(`/data/${id}`, {
       method: 'DELETE'
+    }),
+
+  restore: (id: number) =>
+    request<{ message: string }>(`/data/${id}/restore`, {
+      method: 'POST'
+    }),
+
+  bulkCreate: (records: Array<{ memberId: number; type: string } & MeasurementValues>) =>
+    request<{ message: string; ids: number[] }>('/data/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ records })
+    }),
+
+  sensitivity: () => request<MeasurementSensitivity>('/data/sensitivity'),
+
+  updateSensitivity: (dates: boolean) =>
+    request<MeasurementSensitivity>('/data/sensitivity', {
+      method: 'PUT',
+      body: JSON.stringify({ dates })
+    }),
+
+  // Conversion of existing records after a sensitivity change
+  getConversionBatch: (afterId: number, limit: number) =>
+    request<{ rows: Array<Pick<MeasurementRecord, 'id' | 'member_id' | 'type' | 'unit' | 'value' | 'date' | 'encrypted_value' | 'encrypted_weight' | 'encrypted_date'>> }>(
+      `/data/sensitivity/batch?afterId=${afterId}&limit=${limit}`
+    ),
+
+  storeConversionBatch: (rows: Array<{ id: number } & MeasurementValues>) =>
+    request<{ message: string; updated: number; unconverted: number }>('/data/sensitivity/batch', {
+      method: 'PUT',
+      body: JSON.stringify({ rows })
     })
 };
 
@@ -101,22 +325,35 @@ export const keysApi = {
       public_key: string;
       encrypted_private_key: string;
       wrapped_data_key: string;
+      data_key_version: number;
+      pending_wrapped_data_key: string | null;
+      pending_data_key_version: number | null;
+      kdf_params: KdfParams | null;
+      kdf_upgrade: KdfParams | null;
       role_name: string;
     }>(`/keys/${userId}`),
 
-  grant: (userId: number, wrappedDataKey: string) =>
+  grant: (userId: number, wrappedDataKey: string, pendingWrappedDataKey?: string) =>
     request<{ message: string }>('/keys/grant', {
       method: 'POST',
-      body: JSON.stringify({ userId, wrappedDataKey })
+      body: JSON.stringify({ userId, wrappedDataKey, pendingWrappedDataKey })
     }),
 
-  getRoles: () =>
-    request<Array<{ id: number; name: string }>>('/keys/roles/list'),
+  // Replace own private key ciphertext after re-deriving the KEK with new parameters
+  upgradeKdf: (encryptedPrivateKey: string, kdfParams: KdfParams) =>
+    request<{ message: string }>('/keys/kdf', {
+      method: 'PUT',
+      body: JSON.stringify({ encryptedPrivateKey, kdfParams })
+    }),
 
   // Check if system has any valid data key
   systemHasDataKey: () =>
     request<{ hasDataKey: boolean }>('/keys/system/has-data-key'),
 
+  // First-run progress until the seed account is retired
+  bootstrapStatus: () =>
+    request<{ seedRetired: boolean; adminCreated: boolean; adminHasDataKey: boolean }>('/keys/system/bootstrap'),
+
   // Set up user's own keys (first login or new device)
   setup: (publicKey: string, encryptedPrivateKey: string, wrappedDataKey?: string) =>
     request<{
@@ -130,6 +367,13 @@ export const keysApi = {
       body: JSON.stringify({ publicKey, encryptedPrivateKey, wrappedDataKey })
     }),
 
+  // Admin revokes a user's data access (removes wrapped keys and ends their sessions)
+  revoke: (userId: number) =>
+    request<{ message: string; sessionsEnded: number }>('/keys/revoke', {
+      method: 'POST',
+      body: JSON.stringify({ userId })
+    }),
+
   // Admin resets a user's keys (for lost keys recovery)
   reset: (userId: number) =>
     request<{ message: string }>(`/keys/reset/${userId}`, {
@@ -137,6 +381,50 @@ export const keysApi = {
     })
 };
 
+// Data key rotation API
+export interface RotationStatus {
+  currentVersion: number;
+  rotationRequired: string | null;
+  rotation: {
+    id: number;
+    fromVersion: number;
+    toVersion: number;
+    startedAt: string;
+    // Set when access was revoked during the rotation; it must be repeated once completed
+    accessRevokedAt: string | null;
+    remaining: Record<string, number>;
+  } | null;
+}
+
+export const rotationApi = {
+  status: () => request<RotationStatus>('/keys/rotation/status'),
+
+  recipients: () =>
+    request<Array<{ user_id: number; username: string; public_key: string }>>('/keys/rotation/recipients'),
+
+  start: (wrappedKeys: Array<{ userId: number; wrappedDataKey: string }>) =>
+    request<{ message: string; id: number; fromVersion: number; toVersion: number }>('/keys/rotation/start', {
+      method: 'POST',
+      body: JSON.stringify({ wrappedKeys })
+    }),
+
+  getBatch: (table: string, afterId: number, limit: number) =>
+    request<{ table: string; contextTable: string; columns: string[]; rows: Array<Record<string, any> & { id: number; record_id: number }> }>(
+      `/keys/rotation/batch?table=${encodeURIComponent(table)}&afterId=${afterId}&limit=${limit}`
+    ),
+
+  storeBatch: (table: string, rows: Array<Record<string, any>>) =>
+    request<{ message: string; updated: number }>('/keys/rotation/batch', {
+      method: 'POST',
+      body: JSON.stringify({ table, rows })
+    }),
+
+  complete: () =>
+    request<{ message: string; currentVersion: number }>('/keys/rotation/complete', {
+      method: 'POST'
+    })
+};
+
 // Audit API
 export interface AuditLog {
   id: number;
@@ -179,8 +467,32 @@ export interface Member {
   created_at: string;
 }
 
+// A prior encrypted version of a member, replaced by `changed_by` at `changed_at`
+export interface MemberVersion {
+  id: number;
+  member_id: number;
+  name: string | null;
+  surname: string | null;
+  birthdate: string | null;
+  email: string | null;
+  gender: string | null;
+  changed_fields: string;
+  changed_by: number | null;
+  changed_by_username: string | null;
+  changed_at: string;
+}
+
+// q: blind index tokens of the search terms (see CryptoContext searchQuery)
+export interface MemberFilters {
+  q?: string;
+  deleted?: DeletedFilter;
+}
+
 export const membersApi = {
-  list: () => request<Member[]>('/members'),
+  list: (filters: MemberFilters = {}) => request<Member[]>(`/members${queryString({ ...filters })}`),
+
+  page: (filters: MemberFilters & PageParams = {}) =>
+    request<Page<Member>>(`/members${queryString({ ...filters })}`),
 
   create: (data: { name?: string; surname?: string; birthdate?: string; email?: string; gender?: string }) =>
     request<{ message: string; id: number }>('/members', {
@@ -188,9 +500,207 @@ export const membersApi = {
       body: JSON.stringify(data)
     }),
 
+  // Id the next member gets, to encrypt its PII with the member id as context before it exists
+  nextId: () => request<{ nextId: number }>('/members/next-id'),
+
+  // Creates the member under the id its PII was encrypted for, together with that PII
+  setFields: (id: number, data: { name?: string; surname?: string; birthdate?: string; email?: string; gender?: string; searchTokens?: string[] }) =>
+    request<{ message: string; id: number }>(`/members/${id}/fields`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    }),
+
+  // Creates an import's members under the ids their PII was encrypted for, all or nothing
+  bulkCreate: (members: Array<{ id: number; name?: string; surname?: string; birthdate?: string; email?: string; gender?: string; searchTokens?: string[] }>) =>
+    request<{ message: string; ids: number[] }>('/members/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ members })
+    }),
+
+  // Re-encrypted fields only; null clears a field. searchTokens replace the member's
+  // tokens and must cover all searchable fields, not just the changed ones.
+  update: (id: number, data: {
+    name?: string | null;
+    surname?: string | null;
+    birthdate?: string | null;
+    email?: string | null;
+    gender?: string | null;
+    searchTokens?: string[];
+  }) =>
+    request<{ message: string; fields: string[] }>(`/members/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    }),
+
+  history: (id: number) => request<MemberVersion[]>(`/members/${id}/history`),
+
+  restoreVersion: (id: number, versionId: number, searchTokens?: string[]) =>
+    request<{ message: string; fields: string[] }>(`/members/${id}/history/${versionId}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ searchTokens })
+    }),
+
+  searchIndexStatus: () => request<{ indexed: number; unindexed: number }>('/members/search-index'),
+
+  updateSearchIndex: (members: Array<{ id: number; searchTokens: string[] }>) =>
+    request<{ message: string; updated: number }>('/members/search-index', {
+      method: 'PUT',
+      body: JSON.stringify({ members })
+    }),
+
   delete: (id: number) =>
     request<{ message: string; deletedAt: string }>(`/members/${id}`, {
       method: 'DELETE'
+    }),
+
+  restore: (id: number) =>
+    request<{ message: string }>(`/members/${id}/restore`, {
+      method: 'POST'
+    }),
+
+  // Audit an export decrypted in the browser, before the file is handed out
+  logExport: (id: number, format: 'json' | 'csv', passwordProtected: boolean) =>
+    request<{ message: string }>(`/members/${id}/export`, {
+      method: 'POST',
+      body: JSON.stringify({ format, passwordProtected })
+    })
+};
+
+// Key escrow API (M-of-N Shamir shares of the data key)
+export interface EscrowCeremony {
+  id: number;
+  targetUserId: number;
+  targetUsername: string;
+  targetPublicKey: string;
+  startedAt: string;
+  approvals: Array<{ userId: number; username: string; shareIndex: number; approvedAt: string; releasedShare?: string }>;
+}
+
+export interface EscrowStatus {
+  escrow: {
+    id: number;
+    dataKeyVersion: number;
+    stale: boolean;
+    threshold: number;
+    keyCheck: string;
+    createdAt: string;
+    custodians: Array<{ userId: number; username: string; shareIndex: number }>;
+  } | null;
+  myShare: { shareIndex: number; wrappedShare: string } | null;
+  ceremony: EscrowCeremony | null;
+}
+
+export const escrowApi = {
+  status: () => request<EscrowStatus>('/keys/escrow'),
+
+  candidates: () =>
+    request<Array<{ user_id: number; username: string; public_key: string }>>('/keys/escrow/candidates'),
+
+  create: (threshold: number, keyCheck: string, shares: Array<{ userId: number; shareIndex: number; wrappedShare: string }>) =>
+    request<{ message: string; id: number }>('/keys/escrow', {
+      method: 'POST',
+      body: JSON.stringify({ threshold, keyCheck, shares })
+    }),
+
+  startCeremony: (targetUserId: number) =>
+    request<{ message: string; id: number }>('/keys/escrow/ceremonies', {
+      method: 'POST',
+      body: JSON.stringify({ targetUserId })
+    }),
+
+  approve: (ceremonyId: number, releasedShare: string) =>
+    request<{ message: string; approvals: number }>(`/keys/escrow/ceremonies/${ceremonyId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ releasedShare })
+    }),
+
+  complete: (ceremonyId: number, wrappedDataKey: string) =>
+    request<{ message: string }>(`/keys/escrow/ceremonies/${ceremonyId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ wrappedDataKey })
+    }),
+
+  cancel: (ceremonyId: number) =>
+    request<{ message: string }>(`/keys/escrow/ceremonies/${ceremonyId}/cancel`, {
+      method: 'POST'
+    })
+};
+
+// Roles API
+export interface Role {
+  id: number;
+  name: string;
+  user_count: number;
+  built_in: boolean;
+}
+
+export interface RolePermissions {
+  permissions: Array<{ name: string; description: string }>;
+  roles: Array<{ id: number; name: string; permissions: string[] }>;
+}
+
+export const rolesApi = {
+  list: () => request<Role[]>('/roles'),
+
+  create: (name: string, permissions: string[] = []) =>
+    request<{ message: string; id: number }>('/roles', {
+      method: 'POST',
+      body: JSON.stringify({ name, permissions })
+    }),
+
+  rename: (roleId: number, name: string) =>
+    request<{ message: string }>(`/roles/${roleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name })
+    }),
+
+  delete: (roleId: number) =>
+    request<{ message: string }>(`/roles/${roleId}`, {
+      method: 'DELETE'
+    }),
+
+  getPermissions: () => request<RolePermissions>('/roles/permissions'),
+
+  setPermissions: (roleId: number, permissions: string[]) =>
+    request<{ message: string; permissions: string[] }>(`/roles/${roleId}/permissions`, {
+      method: 'PUT',
+      body: JSON.stringify({ permissions })
+    })
+};
+
+// Recovery API
+export const recoveryApi = {
+  status: () => request<{ enabled: boolean; createdAt: string | null }>('/recovery/status'),
+
+  enable: (encryptedPrivateKey: string, recoveryToken: string) =>
+    request<{ message: string }>('/recovery', {
+      method: 'PUT',
+      body: JSON.stringify({ encryptedPrivateKey, recoveryToken })
+    }),
+
+  disable: () =>
+    request<{ message: string }>('/recovery', {
+      method: 'DELETE'
+    }),
+
+  // No login required: proves knowledge of the recovery code
+  start: (username: string, recoveryToken: string) =>
+    request<{ encryptedPrivateKey: string; kdfParams: KdfParams }>('/recovery/start', {
+      method: 'POST',
+      body: JSON.stringify({ username, recoveryToken })
+    }),
+
+  complete: (data: {
+    username: string;
+    recoveryToken: string;
+    newPassword: string;
+    encryptedPrivateKey: string;
+    kdfParams: KdfParams;
+    newRecovery: { encryptedPrivateKey: string; recoveryToken: string };
+  }) =>
+    request<{ message: string }>('/recovery/complete', {
+      method: 'POST',
+      body: JSON.stringify(data)
     })
 };
 
@@ -217,3 +727,85 @@ export const llmApi = {
       body: JSON.stringify({ dataType, recordId })
     })
 };
+
+// Trash API (soft-deleted members and measurement records)
+export interface TrashSettings {
+  retentionDays: number;
+  purgeable: { members: number; weights: number };
+}
+
+export const trashApi = {
+  getSettings: () => request<TrashSettings>('/trash/settings'),
+
+  updateSettings: (retentionDays: number) =>
+    request<TrashSettings>('/trash/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ retentionDays })
+    }),
+
+  purge: () =>
+    request<{ message: string; retentionDays: number; purged: { members: number; weights: number } }>('/trash/purge', {
+      method: 'POST'
+    })
+};
+
+// Erasure API (right to erasure of a member, with signed receipts)
+export interface ErasureRequest {
+  id: number;
+  member_id: number;
+  reason: string | null;
+  status: 'pending' | 'completed' | 'cancelled';
+  requested_at: string;
+  completed_at: string | null;
+  requested_by_username: string | null;
+  completed_by_username: string | null;
+  has_receipt: number;
+}
+
+export interface ErasureReceipt {
+  receipt: {
+    type: 'member-erasure';
+    requestId: number;
+    memberId: number;
+    reason: string | null;
+    requestedBy: string | null;
+    requestedAt: string;
+    erasedBy: string | null;
+    erasedAt: string;
+    removed: {
+      memberRecord: boolean;
+      encryptedFields: string[];
+      historyVersions: number;
+      searchTokens: number;
+      weightRecords: number;
+      // Missing in receipts from before goals existed
+      measurementGoals?: number;
+      auditEntriesScrubbed: number;
+    };
+  };
+  signature: { algorithm: 'Ed25519'; keyId: string; value: string };
+}
+
+export const erasuresApi = {
+  list: () => request<ErasureRequest[]>('/erasures'),
+
+  create: (memberId: number, reason: string) =>
+    request<{ message: string; id: number }>('/erasures', {
+      method: 'POST',
+      body: JSON.stringify({ memberId, reason })
+    }),
+
+  execute: (id: number) =>
+    request<ErasureReceipt>(`/erasures/${id}/execute`, {
+      method: 'POST'
+    }),
+
+  cancel: (id: number) =>
+    request<{ message: string }>(`/erasures/${id}/cancel`, {
+      method: 'POST'
+    }),
+
+  receipt: (id: number) => request<ErasureReceipt>(`/erasures/${id}/receipt`),
+
+  signingKey: () => request<{ algorithm: string; publicKey: string }>('/erasures/signing-key')
+};
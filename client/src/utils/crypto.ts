@@ -1,4 +1,5 @@
 // Web Crypto API utilities for client-side encryption
+import { argon2id } from 'hash-wasm';
 
 const RSA_ALGORITHM = {
   name: 'RSA-OAEP',
@@ -12,7 +13,8 @@ const AES_ALGORITHM = {
   length: 256
 };
 
-const PBKDF2_ITERATIONS = 100000;
+// KEK derivation before per-user salts: PBKDF2 with the username as salt
+const LEGACY_PBKDF2_ITERATIONS = 100000;
 
 // Helper: ArrayBuffer to Base64
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
@@ -43,9 +45,35 @@ export async function generateKeyPair(): Promise<CryptoKeyPair> {
   );
 }
 
-// Derive a Key Encryption Key (KEK) from password using PBKDF2
-export async function deriveKEK(password: string, salt: string): Promise<CryptoKey> {
+// KDF parameters for deriving the KEK, stored per user on the server (salt is base64)
+export type KdfParams =
+  | { algorithm: 'pbkdf2-sha256'; salt: string; iterations: number }
+  | { algorithm: 'argon2id'; salt: string; memorySize: number; iterations: number; parallelism: number };
+
+// Parameters of users who set up keys before per-user salts (stored as null on the server)
+export function legacyKdfParams(username: string): KdfParams {
+  const salt = new TextEncoder().encode(`dcsdemo-kek-${username}`);
+  return { algorithm: 'pbkdf2-sha256', salt: arrayBufferToBase64(salt.buffer), iterations: LEGACY_PBKDF2_ITERATIONS };
+}
+
+// Derive a Key Encryption Key (KEK) from password using PBKDF2 or Argon2id
+export async function deriveKEK(password: string, params: KdfParams): Promise<CryptoKey> {
   const encoder = new TextEncoder();
+  const salt = new Uint8Array(base64ToArrayBuffer(params.salt));
+
+  if (params.algorithm === 'argon2id') {
+    const hash = await argon2id({
+      password,
+      salt,
+      memorySize: params.memorySize,
+      iterations: params.iterations,
+      parallelism: params.parallelism,
+      hashLength: 32,
+      outputType: 'binary'
+    });
+    return await crypto.subtle.importKey('raw', new Uint8Array(hash), AES_ALGORITHM, false, ['encrypt', 'decrypt']);
+  }
+
   const passwordKey = await crypto.subtle.importKey(
     'raw',
     encoder.encode(password),
@@ -57,8 +85,8 @@ export async function deriveKEK(password: string, salt: string): Promise<CryptoK
   return await crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
-      salt: encoder.encode(salt),
-      iterations: PBKDF2_ITERATIONS,
+      salt,
+      iterations: params.iterations,
       hash: 'SHA-256'
     },
     passwordKey,
@@ -68,45 +96,60 @@ export async function deriveKEK(password: string, salt: string): Promise<CryptoK
   );
 }
 
+// Recovery codes: 25 random Crockford base32 characters (125 bits), printed in groups of five
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_CODE_LENGTH = 25;
+
+export function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH));
+  const code = Array.from(bytes, b => RECOVERY_ALPHABET[b & 31]).join('');
+  return code.match(/.{5}/g)!.join('-');
+}
+
+// Accept codes typed with lowercase letters, spaces or commonly confused characters
+function normalizeRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  if (normalized.length !== RECOVERY_CODE_LENGTH || [...normalized].some(c => !RECOVERY_ALPHABET.includes(c))) {
+    throw new Error('Invalid recovery code format');
+  }
+  return normalized;
+}
+
+// Derive from a recovery code the key encrypting the recovery copy of the private key,
+// and a separate token the server verifies. The code has full entropy, so HKDF suffices.
+export async function deriveRecoveryKeys(code: string): Promise<{ kek: CryptoKey; token: string }> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(normalizeRecoveryCode(code)),
+    'HKDF',
+    false,
+    ['deriveKey', 'deriveBits']
+  );
+  const hkdf = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: encoder.encode('dcsdemo-recovery'),
+    info: encoder.encode(info)
+  });
+
+  const kek = await crypto.subtle.deriveKey(hkdf('kek'), baseKey, AES_ALGORITHM, false, ['encrypt', 'decrypt']);
+  const token = arrayBufferToBase64(await crypto.subtle.deriveBits(hkdf('auth'), baseKey, 256));
+  return { kek, token };
+}
+
 // Encrypt private key with KEK for server storage
 export async function encryptPrivateKey(privateKey: CryptoKey, kek: CryptoKey): Promise<string> {
   // Export private key as JWK
   const jwk = await crypto.subtle.exportKey('jwk', privateKey);
   const jwkString = JSON.stringify(jwk);
-  const encoder = new TextEncoder();
-  const data = encoder.encode(jwkString);
-
-  // Encrypt with AES-GCM
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
-    kek,
-    data
-  );
 
-  // Combine IV + encrypted data
-  const combined = new Uint8Array(iv.length + encrypted.byteLength);
-  combined.set(iv);
-  combined.set(new Uint8Array(encrypted), iv.length);
-
-  return arrayBufferToBase64(combined.buffer);
+  return sealEnvelope(jwkString, kek, KEK_KEY_ID);
 }
 
 // Decrypt private key with KEK
 export async function decryptPrivateKey(encryptedKey: string, kek: CryptoKey): Promise<CryptoKey> {
-  const combined = base64ToArrayBuffer(encryptedKey);
-  const combinedArray = new Uint8Array(combined);
-
-  const iv = combinedArray.slice(0, 12);
-  const data = combinedArray.slice(12);
-
-  const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
-    kek,
-    data
-  );
-
-  const jwkString = new TextDecoder().decode(decrypted);
+  const jwkString = await openEnvelope(encryptedKey, kek);
   const jwk = JSON.parse(jwkString);
 
   return await crypto.subtle.importKey(
@@ -186,40 +229,259 @@ export async function unwrapDataKey(wrappedKey: string, privateKey: CryptoKey):
   );
 }
 
-// Encrypt data with AES-GCM
-export async function encryptData(data: string, dataKey: CryptoKey): Promise<string> {
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const encodedData = new TextEncoder().encode(data);
+// Export a data key's raw bytes (for splitting it into escrow shares)
+export async function exportDataKey(dataKey: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', dataKey));
+}
+
+// Import raw bytes as a data key (after reassembling escrow shares)
+export async function importDataKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return await crypto.subtle.importKey('raw', raw, AES_ALGORITHM, true, ['encrypt', 'decrypt']);
+}
+
+// Wrap a 32-byte secret (e.g. an escrow share) with a public key. RSA keys here may only
+// wrap keys, so the secret travels as the raw bytes of an AES key.
+export async function wrapSecret(secret: Uint8Array<ArrayBuffer>, publicKey: CryptoKey): Promise<string> {
+  return wrapDataKey(await importDataKey(secret), publicKey);
+}
+
+export async function unwrapSecret(wrapped: string, privateKey: CryptoKey): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', await unwrapDataKey(wrapped, privateKey)));
+}
+
+// Ciphertext envelope (base64 encoded):
+//   version (1 byte) | key id (2 bytes, big-endian) | algorithm (1 byte) | IV (12 bytes) | ciphertext + GCM tag
+// The key id is the data key version (0 for the password-derived KEK). The 4-byte
+// header is authenticated as additional data, so it cannot be altered undetected.
+// Algorithm 2 additionally authenticates the record context (table, column, record id),
+// so a ciphertext moved to another row or column fails verification.
+// Version and key id fill the first 3 bytes, so their base64 is a fixed 4-character
+// prefix the server can match on without decoding.
+export const ENVELOPE_VERSION = 1;
+export const ALG_AES_256_GCM = 1;
+export const ALG_AES_256_GCM_BOUND = 2;
+export const KEK_KEY_ID = 0;
+const ENVELOPE_HEADER_LENGTH = 4;
+const IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+
+export interface Envelope {
+  version: number; // 0 = legacy (bare IV || ciphertext)
+  keyId: number;
+  algorithm: number;
+  header: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+// Where a ciphertext is stored; bound into the AAD of algorithm 2 envelopes
+export interface CipherContext {
+  table: string;
+  column: string;
+  recordId: number;
+}
+
+// Thrown when a context-bound ciphertext fails verification (tampered, or moved to another record)
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+function additionalData(header: Uint8Array<ArrayBuffer>, context?: CipherContext): Uint8Array<ArrayBuffer> {
+  if (!context) {
+    return header;
+  }
+  const contextBytes = new TextEncoder().encode(`${context.table}.${context.column}#${context.recordId}`);
+  const aad = new Uint8Array(header.length + contextBytes.length);
+  aad.set(header);
+  aad.set(contextBytes, header.length);
+  return aad;
+}
+
+// Legacy ciphertexts: bare base64 of IV || ciphertext, optionally tagged "k<version>:"
+const LEGACY_KEY_VERSION_PATTERN = /^k(\d+):/;
+
+function decodeLegacy(value: string): Envelope {
+  const match = value.match(LEGACY_KEY_VERSION_PATTERN);
+  const bytes = new Uint8Array(base64ToArrayBuffer(value.replace(LEGACY_KEY_VERSION_PATTERN, '')));
+  return {
+    version: 0,
+    keyId: match ? Number(match[1]) : 1,
+    algorithm: ALG_AES_256_GCM,
+    header: new Uint8Array(0),
+    iv: bytes.slice(0, IV_LENGTH),
+    ciphertext: bytes.slice(IV_LENGTH)
+  };
+}
+
+// Decode an envelope; anything that is not a well-formed envelope is read as a legacy ciphertext
+export function decodeEnvelope(value: string): Envelope {
+  if (!LEGACY_KEY_VERSION_PATTERN.test(value)) {
+    try {
+      const bytes = new Uint8Array(base64ToArrayBuffer(value));
+      if (bytes.length >= ENVELOPE_HEADER_LENGTH + IV_LENGTH + GCM_TAG_LENGTH &&
+          bytes[0] === ENVELOPE_VERSION &&
+          (bytes[3] === ALG_AES_256_GCM || bytes[3] === ALG_AES_256_GCM_BOUND)) {
+        return {
+          version: bytes[0],
+          keyId: (bytes[1] << 8) | bytes[2],
+          algorithm: bytes[3],
+          header: bytes.slice(0, ENVELOPE_HEADER_LENGTH),
+          iv: bytes.slice(ENVELOPE_HEADER_LENGTH, ENVELOPE_HEADER_LENGTH + IV_LENGTH),
+          ciphertext: bytes.slice(ENVELOPE_HEADER_LENGTH + IV_LENGTH)
+        };
+      }
+    } catch {
+      // Not base64 - fall through to the legacy decoder, which reports the error
+    }
+  }
+  return decodeLegacy(value);
+}
+
+// Get the data key version a ciphertext was encrypted with
+export function getKeyVersion(encryptedData: string): number {
+  return decodeEnvelope(encryptedData).keyId;
+}
+
+// Whether a ciphertext is a current-format envelope for the given key
+export function isCurrentEnvelope(encryptedData: string, keyId: number): boolean {
+  const envelope = decodeEnvelope(encryptedData);
+  return envelope.version === ENVELOPE_VERSION && envelope.keyId === keyId;
+}
+
+async function sealEnvelope(data: string, key: CryptoKey, keyId: number, context?: CipherContext): Promise<string> {
+  const algorithm = context ? ALG_AES_256_GCM_BOUND : ALG_AES_256_GCM;
+  const header = new Uint8Array([ENVELOPE_VERSION, (keyId >> 8) & 0xff, keyId & 0xff, algorithm]);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
 
   const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
-    dataKey,
-    encodedData
+    { name: 'AES-GCM', iv, additionalData: additionalData(header, context) },
+    key,
+    new TextEncoder().encode(data)
   );
 
-  // Combine IV and encrypted data
-  const combined = new Uint8Array(iv.length + encrypted.byteLength);
-  combined.set(iv);
-  combined.set(new Uint8Array(encrypted), iv.length);
+  const combined = new Uint8Array(header.length + iv.length + encrypted.byteLength);
+  combined.set(header);
+  combined.set(iv, header.length);
+  combined.set(new Uint8Array(encrypted), header.length + iv.length);
 
   return arrayBufferToBase64(combined.buffer);
 }
 
-// Decrypt data with AES-GCM
-export async function decryptData(encryptedData: string, dataKey: CryptoKey): Promise<string> {
-  const combined = base64ToArrayBuffer(encryptedData);
-  const combinedArray = new Uint8Array(combined);
+// Unbound ciphertexts (legacy or algorithm 1) are still accepted when a context is given;
+// a data key rotation re-encrypts them as bound ones.
+async function openEnvelope(value: string, key: CryptoKey, context?: CipherContext): Promise<string> {
+  const envelope = decodeEnvelope(value);
+  const bound = envelope.algorithm === ALG_AES_256_GCM_BOUND;
+  if (bound && !context) {
+    throw new IntegrityError('Ciphertext is bound to a record but no context was given');
+  }
+  const params: AesGcmParams = envelope.version === 0
+    ? { name: 'AES-GCM', iv: envelope.iv }
+    : { name: 'AES-GCM', iv: envelope.iv, additionalData: additionalData(envelope.header, bound ? context : undefined) };
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(params, key, envelope.ciphertext);
+    return new TextDecoder().decode(decrypted);
+  } catch (e) {
+    // A legacy ciphertext can look like an envelope by chance - retry it as legacy
+    if (envelope.version !== 0) {
+      const legacy = decodeLegacy(value);
+      const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: legacy.iv }, key, legacy.ciphertext)
+        .catch(() => {
+          throw bound ? new IntegrityError(`${context!.table}.${context!.column} of record ${context!.recordId} failed verification`) : e;
+        });
+      return new TextDecoder().decode(decrypted);
+    }
+    throw e;
+  }
+}
 
-  const iv = combinedArray.slice(0, 12);
-  const data = combinedArray.slice(12);
+// Encrypt data with AES-GCM into an envelope tagged with the data key version,
+// bound to its record when a context is given
+export async function encryptData(
+  data: string,
+  dataKey: CryptoKey,
+  keyVersion: number = 1,
+  context?: CipherContext
+): Promise<string> {
+  return sealEnvelope(data, dataKey, keyVersion, context);
+}
 
-  const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
-    dataKey,
-    data
-  );
+// Decrypt data with AES-GCM (envelope or legacy format)
+export async function decryptData(encryptedData: string, dataKey: CryptoKey, context?: CipherContext): Promise<string> {
+  return openEnvelope(encryptedData, dataKey, context);
+}
 
-  return new TextDecoder().decode(decrypted);
+// Blind index (searchable encryption): HMAC-SHA256 tokens of normalized search terms under a key
+// derived from the data key with HKDF, so tokens change with every data key rotation.
+// Tokens are deterministic: equal terms give equal tokens, which is what makes them searchable.
+const BLIND_INDEX_TOKEN_LENGTH = 16;
+const blindIndexKeys = new WeakMap<CryptoKey, Promise<CryptoKey>>();
+
+export function deriveBlindIndexKey(dataKey: CryptoKey): Promise<CryptoKey> {
+  let key = blindIndexKeys.get(dataKey);
+  if (!key) {
+    key = (async () => {
+      const baseKey = await crypto.subtle.importKey('raw', await exportDataKey(dataKey) as Uint8Array<ArrayBuffer>, 'HKDF', false, ['deriveKey']);
+      const encoder = new TextEncoder();
+      return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode('dcsdemo-blind-index'), info: encoder.encode('members') },
+        baseKey,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign']
+      );
+    })();
+    blindIndexKeys.set(dataKey, key);
+  }
+  return key;
+}
+
+// Token of one normalized term: truncated HMAC, base64url without padding
+export async function blindIndexToken(indexKey: CryptoKey, term: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', indexKey, new TextEncoder().encode(term));
+  return arrayBufferToBase64(mac.slice(0, BLIND_INDEX_TOKEN_LENGTH))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Password-protected archives (e.g. member exports): AES-256-GCM under a PBKDF2-SHA256 key,
+// so they can be opened with standard tools outside the application
+const ARCHIVE_FORMAT = 'dcsdemo-encrypted-archive';
+const ARCHIVE_PBKDF2_ITERATIONS = 600000;
+
+export interface PasswordArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: 1;
+  kdf: { algorithm: 'pbkdf2-sha256'; salt: string; iterations: number };
+  cipher: 'AES-256-GCM';
+  iv: string;
+  ciphertext: string; // base64, GCM tag appended
+  filename: string;
+  contentType: string;
+}
+
+export async function encryptArchive(content: string, password: string, filename: string, contentType: string): Promise<PasswordArchive> {
+  const kdf = {
+    algorithm: 'pbkdf2-sha256' as const,
+    salt: arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(16)).buffer),
+    iterations: ARCHIVE_PBKDF2_ITERATIONS
+  };
+  const key = await deriveKEK(password, kdf);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(content));
+  return {
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    kdf,
+    cipher: 'AES-256-GCM',
+    iv: arrayBufferToBase64(iv.buffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+    filename,
+    contentType
+  };
 }
 
 // Store keys in IndexedDB for persistence across sessions
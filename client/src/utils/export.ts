@@ -0,0 +1,77 @@
+// Portable exports of a member's record, assembled from data decrypted in the browser
+
+import { encryptArchive } from './crypto';
+import type { MeasurementValue } from './api';
+
+export type ExportFormat = 'json' | 'csv';
+
+export interface MemberExport {
+  exportedAt: string;
+  exportedBy: string;
+  member: {
+    id: number;
+    name: string;
+    surname: string;
+    birthdate: string;
+    email: string;
+    gender: string;
+    createdAt: string;
+    deleted: string | null;
+  };
+  measurements: Array<{
+    id: number;
+    type: string;
+    unit: string; // unit the value was entered in
+    value: MeasurementValue;
+    date: string;
+    createdAt: string;
+    deleted: string | null;
+  }>;
+}
+
+const CSV_COLUMNS = [
+  'member_id', 'name', 'surname', 'birthdate', 'email', 'gender', 'member_created_at', 'member_deleted',
+  'measurement_id', 'measurement_type', 'value', 'unit', 'date', 'measurement_created_at', 'measurement_deleted'
+];
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per measurement record, repeating the member's fields; a member without measurements
+// gets one row. Values with several components are joined by "/" (e.g. 120/80).
+export function toCsv(data: MemberExport): string {
+  const m = data.member;
+  const memberCells = [m.id, m.name, m.surname, m.birthdate, m.email, m.gender, m.createdAt, m.deleted];
+  const rows = data.measurements.length > 0
+    ? data.measurements.map(r => [...memberCells, r.id, r.type, Object.values(r.value).join('/'), r.unit, r.date, r.createdAt, r.deleted])
+    : [[...memberCells, null, null, null, null, null, null, null]];
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// File name and content of an export, wrapped in a password-protected archive if a password is given
+export async function buildExportFile(
+  data: MemberExport,
+  format: ExportFormat,
+  password?: string
+): Promise<{ filename: string; content: string; contentType: string }> {
+  const filename = `member-${data.member.id}-export.${format}`;
+  const contentType = format === 'json' ? 'application/json' : 'text/csv';
+  const content = format === 'json' ? JSON.stringify(data, null, 2) : toCsv(data);
+
+  if (!password) {
+    return { filename, content, contentType };
+  }
+  const archive = await encryptArchive(content, password, filename, contentType);
+  return { filename: `${filename}.encrypted.json`, content: JSON.stringify(archive, null, 2), contentType: 'application/json' };
+}
+
+export function downloadFile(filename: string, content: string, contentType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
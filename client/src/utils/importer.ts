@@ -0,0 +1,178 @@
+// Turning spreadsheet rows into members and weight records: column mapping, validation
+// and duplicate detection. Everything here works on plaintext and runs in the browser only.
+
+import { Rows } from './spreadsheet';
+
+export const IMPORT_FIELDS = ['name', 'surname', 'birthdate', 'email', 'gender', 'weight', 'date'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Column index per field, -1 when the field is not imported
+export type ColumnMapping = Record<ImportField, number>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Name',
+  surname: 'Surname',
+  birthdate: 'Birthdate',
+  email: 'Email',
+  gender: 'Gender',
+  weight: 'Weight',
+  date: 'Measurement date'
+};
+
+// Header names recognised for each field (lowercase)
+const HEADER_NAMES: Record<ImportField, string[]> = {
+  name: ['name', 'first name', 'firstname', 'given name', 'vorname'],
+  surname: ['surname', 'last name', 'lastname', 'family name', 'nachname'],
+  birthdate: ['birthdate', 'birth date', 'date of birth', 'dob', 'birthday'],
+  email: ['email', 'e-mail', 'mail', 'email address'],
+  gender: ['gender', 'sex'],
+  weight: ['weight', 'weight (kg)', 'weight kg', 'kg', 'weight (lb)', 'weight (lbs)', 'weight lb', 'lb', 'lbs'],
+  date: ['date', 'measurement date', 'measured', 'measured on', 'weigh-in']
+};
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    mapping[field] = normalized.findIndex(h => HEADER_NAMES[field].includes(h));
+  }
+  return mapping;
+}
+
+// Dates as YYYY-MM-DD from ISO, DD.MM.YYYY, DD/MM/YYYY (MM/DD/YYYY when the day can't be a month)
+// or spreadsheet day serials; null if not a valid date
+export function normalizeDate(value: string): string | null {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  let match: RegExpMatchArray | null;
+  if ((match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (text.includes('/') && month > 12 && day <= 12) {
+      [day, month] = [month, day];
+    }
+  } else if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    // Days since 1899-12-30, the spreadsheet epoch
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 24 * 60 * 60 * 1000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+export function normalizeGender(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  if (text === '') return '';
+  if (['m', 'male', 'man'].includes(text)) return 'M';
+  if (['f', 'female', 'woman', 'w'].includes(text)) return 'F';
+  return null;
+}
+
+// Any positive number; whether it is plausible depends on its unit (see buildImportRows)
+export function normalizeWeight(value: string): number | null {
+  const weight = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(weight) && weight > 0 ? weight : null;
+}
+
+// Unit of the weight column named in its header, e.g. "Weight (lbs)"
+export function guessWeightUnit(header: string | undefined): 'kg' | 'lb' | null {
+  const text = (header ?? '').toLowerCase();
+  if (/\b(lbs?|pounds?)\b/.test(text)) return 'lb';
+  if (/\b(kg|kilograms?)\b/.test(text)) return 'kg';
+  return null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Identity used to find duplicates: name, surname and birthdate, ignoring case and spacing
+export function memberKey(member: { name: string; surname: string; birthdate: string }): string {
+  return [member.name, member.surname, member.birthdate].map(v => v.trim().toLowerCase().replace(/\s+/g, ' ')).join('|');
+}
+
+export interface ExistingMember {
+  id: number;
+  name: string;
+  surname: string;
+  birthdate: string;
+}
+
+export interface ImportRow {
+  line: number; // 1-based line in the file
+  member: { name: string; surname: string; birthdate: string; email: string; gender: string };
+  weight: { weight: number; date: string } | null;
+  errors: string[];
+  // New member, same person as an earlier line of the file, or an existing member
+  match:
+    | { type: 'new' }
+    | { type: 'repeat'; line: number }
+    | { type: 'existing'; memberId: number };
+}
+
+// checkWeight tells why a weight (in the unit being imported) is out of range, if it is
+export function buildImportRows(
+  rows: Rows,
+  mapping: ColumnMapping,
+  firstLine: number,
+  existing: ExistingMember[],
+  checkWeight: (weight: number) => string | null = () => null
+): ImportRow[] {
+  const existingByKey = new Map(existing.map(m => [memberKey(m), m.id]));
+  const firstLineByKey = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const line = firstLine + index;
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? row[mapping[field]] ?? '' : '').trim();
+    const errors: string[] = [];
+
+    const member = { name: cell('name'), surname: cell('surname'), birthdate: '', email: cell('email'), gender: '' };
+    if (!member.name && !member.surname) {
+      errors.push('Name or surname required');
+    }
+    if (cell('birthdate')) {
+      member.birthdate = normalizeDate(cell('birthdate')) ?? '';
+      if (!member.birthdate) errors.push(`Invalid birthdate "${cell('birthdate')}"`);
+    }
+    if (member.email && !EMAIL_PATTERN.test(member.email)) {
+      errors.push(`Invalid email "${member.email}"`);
+    }
+    const gender = normalizeGender(cell('gender'));
+    if (gender === null) {
+      errors.push(`Invalid gender "${cell('gender')}"`);
+    } else {
+      member.gender = gender;
+    }
+
+    let weight: ImportRow['weight'] = null;
+    if (cell('weight') || cell('date')) {
+      const value = normalizeWeight(cell('weight'));
+      const date = normalizeDate(cell('date'));
+      const invalid = value === null ? `Invalid weight "${cell('weight')}"` : checkWeight(value);
+      if (invalid) errors.push(invalid);
+      if (date === null) errors.push(`Invalid measurement date "${cell('date')}"`);
+      if (value !== null && !invalid && date !== null) weight = { weight: value, date };
+    }
+
+    const key = memberKey(member);
+    let match: ImportRow['match'] = { type: 'new' };
+    if (errors.length === 0) {
+      const existingId = existingByKey.get(key);
+      if (existingId !== undefined) {
+        match = { type: 'existing', memberId: existingId };
+      } else if (firstLineByKey.has(key)) {
+        match = { type: 'repeat', line: firstLineByKey.get(key)! };
+      } else {
+        firstLineByKey.set(key, line);
+      }
+    }
+
+    return { line, member, weight, errors, match };
+  });
+}
@@ -1,3 +1,6 @@
+import type { MeasurementType, MeasurementValue } from './api';
+import { convertMeasurement, displayUnit } from './measurements';
+
 // Masking utility for LLM requests
 // SID = Cryptographically random, collision-free identifiers
 
@@ -63,7 +66,9 @@ export type MaskType =
   | 'MEMBER_SURNAME'
   | 'MEMBER_BIRTHDATE'
   | 'MEMBER_EMAIL'
-  | 'MEMBER_GENDER';
+  | 'MEMBER_GENDER'
+  | 'MEASUREMENT_DATE'
+  | 'MEASUREMENT_VALUE';
 
 // Create a mask placeholder
 export function createMask(type: MaskType, id: number): string {
@@ -135,30 +140,49 @@ export function maskMemberData(
   };
 }
 
-// Weight measurement for masking
-export interface WeightMeasurement {
+// Decrypted measurement for masking
+export interface Measurement {
   id: number;
   memberId: number;
   memberName: string; // decrypted full name
   memberGender?: string; // decrypted gender (M/F)
-  weight: number;
+  type: MeasurementType;
+  value: MeasurementValue;
+  unit: string; // unit the value was entered in
   date: string;
 }
 
-// Create masked data for weight measurements (grouped by member)
-export function maskWeightMeasurements(
-  measurements: WeightMeasurement[]
+// Measurement parts to mask as well: values of sensitive types always, dates where the
+// deployment treats them as sensitive. Masked dates keep the number of days since the member's
+// first measurement, and masked values the change since the member's first value of that type,
+// so trends can still be analyzed.
+export interface MeasurementMasking {
+  date?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function signed(change: number): string {
+  return `${change >= 0 ? '+' : ''}${Number(change.toFixed(1))}`;
+}
+
+// Create masked data for measurements (grouped by member, then by measurement type).
+// Each type is described with its name, unit and value components; values are converted into
+// the unit the user displays the type in, and every value and change states that unit.
+export function maskMeasurements(
+  measurements: Measurement[],
+  masking: MeasurementMasking = {}
 ): { maskedText: string; mappings: MaskMapping[] } {
   const mappings: MaskMapping[] = [];
 
   // Group measurements by member
-  const byMember = new Map<number, { memberName: string; memberGender?: string; measurements: { date: string; weight: number }[] }>();
+  const byMember = new Map<number, { memberName: string; memberGender?: string; measurements: Measurement[] }>();
 
   for (const m of measurements) {
     if (!byMember.has(m.memberId)) {
       byMember.set(m.memberId, { memberName: m.memberName, memberGender: m.memberGender, measurements: [] });
     }
-    byMember.get(m.memberId)!.measurements.push({ date: m.date, weight: m.weight });
+    byMember.get(m.memberId)!.measurements.push(m);
   }
 
   const lines: string[] = [];
@@ -176,15 +200,50 @@ export function maskWeightMeasurements(
       genderPart = ` (gender: ${genderMask})`;
     }
 
-    // Sort measurements by date
+    // Sort measurements by date; masked days count from the member's first measurement of any type
     data.measurements.sort((a, b) => a.date.localeCompare(b.date));
+    const firstDate = data.measurements[0].date;
 
-    // Format measurements
-    const measurementStr = data.measurements
-      .map(m => `${m.date}: ${m.weight}kg`)
-      .join(', ');
+    const byType = new Map<string, Measurement[]>();
+    for (const m of data.measurements) {
+      byType.set(m.type.key, [...(byType.get(m.type.key) ?? []), m]);
+    }
 
-    lines.push(`Measurements from ${memberMask}${genderPart}: ${measurementStr}`);
+    lines.push(`Measurements from ${memberMask}${genderPart}:`);
+    for (const typeMeasurements of byType.values()) {
+      const { type } = typeMeasurements[0];
+      const components = type.value_schema.components;
+      const unitName = displayUnit(type);
+      const unit = unitName ? ` ${unitName}` : '';
+      const values = new Map(typeMeasurements.map(m => [m, convertMeasurement(type, m.value, m.unit, unitName)]));
+      const first = values.get(typeMeasurements[0])!;
+
+      // Format measurements
+      const measurementStr = typeMeasurements
+        .map(m => {
+          let date = m.date;
+          if (masking.date) {
+            date = createMask('MEASUREMENT_DATE', m.id);
+            mappings.push({ mask: date, originalValue: m.date });
+            date += ` (day ${Math.round((Date.parse(m.date) - Date.parse(firstDate)) / DAY_MS)})`;
+          }
+          const converted = values.get(m)!;
+          const plain = components.map(c => Number(converted[c.key].toFixed(2))).join('/') + unit;
+          let value = plain;
+          if (type.sensitive) {
+            value = createMask('MEASUREMENT_VALUE', m.id);
+            mappings.push({ mask: value, originalValue: plain });
+            if (m !== typeMeasurements[0]) {
+              value += ` (${components.map(c => signed(converted[c.key] - first[c.key])).join('/')}${unit})`;
+            }
+          }
+          return `${date}: ${value}`;
+        })
+        .join(', ');
+
+      const parts = components.length > 1 ? `, ${components.map(c => c.label.toLowerCase()).join('/')}` : '';
+      lines.push(`- ${type.name} (${unitName ? `in ${unitName}` : 'no unit'}${parts}): ${measurementStr}`);
+    }
   }
 
   return {
@@ -193,17 +252,6 @@ export function maskWeightMeasurements(
   };
 }
 
-// Create masked data for a single weight record (backward compatibility)
-export function maskWeightRecord(
-  id: number,
-  memberId: number,
-  memberName: string,
-  weight: number,
-  date: string
-): { maskedText: string; mappings: MaskMapping[] } {
-  return maskWeightMeasurements([{ id, memberId, memberName, weight, date }]);
-}
-
 // Unmask a response by replacing masks with original values
 export function unmaskResponse(response: string, mappings: MaskMapping[]): string {
   let unmasked = response;
@@ -216,7 +264,7 @@ export function unmaskResponse(response: string, mappings: MaskMapping[]): strin
 }
 
 // System prompt for LLM that explains the masking
-export const LLM_SYSTEM_PROMPT = `You are a helpful assistant analyzing health and weight tracking data.
+export const LLM_SYSTEM_PROMPT = `You are a helpful assistant analyzing health tracking data such as weight, body fat, blood pressure and heart rate.
 The data you receive contains masked personally identifiable information (PII) for privacy protection.
 
 Masked fields appear as placeholders like:
@@ -226,6 +274,10 @@ Masked fields appear as placeholders like:
 - {{ MEMBER_BIRTHDATE_G4H6J8 }} - represents a person's birthdate
 - {{ MEMBER_EMAIL_K1L3M5 }} - represents a person's email address
 - {{ MEMBER_GENDER_P2Q4R6 }} - represents a person's gender (M or F)
+- {{ MEASUREMENT_DATE_S5T7U9 }} (day 30) - represents a measurement date; the day number counts days since the person's first measurement shown
+- {{ MEASUREMENT_VALUE_V1W3X5 }} (+1.5 kg) - represents a measured value; the amount in brackets is the change since the person's first value of that measurement type shown
+
+Measurements are listed per person and measurement type, each type with the unit all its values are given in, e.g. "- Blood pressure (in mmHg, systolic/diastolic): 2024-01-15: 120/80 mmHg". Values with several components are separated by "/" in the order given. Units can differ from one conversation to the next (e.g. kg or lb); always use the unit stated.
 
 The alphanumeric codes are randomly generated and have no relation to the actual data.
 
@@ -233,6 +285,6 @@ When responding:
 1. Refer to the masked values using their exact placeholders (e.g., "{{ MEMBER_X7K9M2 }} has gained weight...")
 2. Do not try to guess or infer the actual values behind the masks
 3. Treat each unique placeholder as a distinct person
-4. You can analyze weight trends, calculate changes, and provide health insights
+4. You can analyze trends, calculate changes, and provide health insights, always stating the unit of a value
 
 The masks will be replaced with actual values before showing the response to the user.`;
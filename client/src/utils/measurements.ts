@@ -0,0 +1,115 @@
+import type { CipherContext } from './crypto';
+import type { MeasurementGoal, MeasurementRecord, MeasurementType, MeasurementValue, MeasurementValues } from './api';
+
+// Values of sensitive measurement types, and dates where the deployment treats them as sensitive,
+// are encrypted (encrypted_value as JSON, encrypted_date), bound to the record's member: the record
+// id doesn't exist yet when they are encrypted. Weights encrypted before measurement types existed
+// are bound to encrypted_weight and hold the bare number.
+// Each record keeps the unit it was entered in; values are converted into the unit the user
+// displays their type in (see convertMeasurement).
+
+type Encrypt = (plaintext: string, context: CipherContext) => Promise<string>;
+type Decrypt = (ciphertext: string, context: CipherContext) => Promise<string>;
+
+type EncryptedColumn = 'encrypted_value' | 'encrypted_weight' | 'encrypted_date';
+
+function measurementContext(memberId: number, column: EncryptedColumn): CipherContext {
+  return { table: 'data', column, recordId: memberId };
+}
+
+// Unit, value and date of a new record the way the server takes them
+export async function encodeMeasurement(
+  memberId: number,
+  type: MeasurementType,
+  measurement: { value: MeasurementValue; unit?: string; date: string },
+  sensitiveDates: boolean,
+  encrypt: Encrypt
+): Promise<MeasurementValues> {
+  return {
+    unit: measurement.unit ?? type.unit,
+    ...(type.sensitive
+      ? { encryptedValue: await encrypt(JSON.stringify(measurement.value), measurementContext(memberId, 'encrypted_value')) }
+      : { value: measurement.value }),
+    ...(sensitiveDates
+      ? { encryptedDate: await encrypt(measurement.date, measurementContext(memberId, 'encrypted_date')) }
+      : { date: measurement.date })
+  };
+}
+
+// Value and date of a stored record, decrypting whichever is encrypted.
+// Throws IntegrityError if a ciphertext doesn't belong to the record's member.
+export async function decodeMeasurement(
+  record: Pick<MeasurementRecord, 'member_id' | 'unit' | 'value' | 'date' | 'encrypted_value' | 'encrypted_weight' | 'encrypted_date'>,
+  decrypt: Decrypt
+): Promise<{ value: MeasurementValue; unit: string; date: string }> {
+  let value = record.value!;
+  if (record.encrypted_value) {
+    value = JSON.parse(await decrypt(record.encrypted_value, measurementContext(record.member_id, 'encrypted_value')));
+  } else if (record.encrypted_weight) {
+    value = { value: Number(await decrypt(record.encrypted_weight, measurementContext(record.member_id, 'encrypted_weight'))) };
+  }
+  return {
+    value,
+    unit: record.unit,
+    date: record.encrypted_date
+      ? await decrypt(record.encrypted_date, measurementContext(record.member_id, 'encrypted_date'))
+      : record.date!
+  };
+}
+
+// Goals are always encrypted, bound to their member like measurements
+function goalContext(memberId: number): CipherContext {
+  return { table: 'measurement_goals', column: 'encrypted_value', recordId: memberId };
+}
+
+export function encryptGoal(memberId: number, value: MeasurementValue, encrypt: Encrypt): Promise<string> {
+  return encrypt(JSON.stringify(value), goalContext(memberId));
+}
+
+// Throws IntegrityError if the goal doesn't belong to its member
+export async function decryptGoal(goal: Pick<MeasurementGoal, 'member_id' | 'encrypted_value'>, decrypt: Decrypt): Promise<MeasurementValue> {
+  return JSON.parse(await decrypt(goal.encrypted_value, goalContext(goal.member_id)));
+}
+
+// Unit a type's values are shown in to the current user
+export function displayUnit(type: MeasurementType): string {
+  return type.display_unit ?? type.unit;
+}
+
+function hasUnit(type: MeasurementType, unit: string): boolean {
+  return Object.prototype.hasOwnProperty.call(type.units, unit);
+}
+
+// A value converted from one of its type's units into another.
+// Throws if either isn't a unit of the type.
+export function convertMeasurement(type: MeasurementType, value: MeasurementValue, from: string, to: string): MeasurementValue {
+  if (from === to) return value;
+  if (!hasUnit(type, from) || !hasUnit(type, to)) {
+    throw new Error(`${type.name} can't be converted from ${from} to ${to}`);
+  }
+  const factor = type.units[from] / type.units[to];
+  return Object.fromEntries(Object.entries(value).map(([key, number]) => [key, Math.round(number * factor * 1e6) / 1e6]));
+}
+
+// Check a value entered in one of its type's units the way the server does: bounds are in the
+// type's unit, and whole numbers are only required there. Returns an error message, or null.
+export function checkMeasurementValue(type: MeasurementType, value: MeasurementValue, unit: string): string | null {
+  if (!hasUnit(type, unit)) {
+    return `${type.name} can be entered in ${Object.keys(type.units).join(', ')}`;
+  }
+  const converted = convertMeasurement(type, value, unit, type.unit);
+  for (const c of type.value_schema.components) {
+    if (!Number.isFinite(value[c.key])) return `${c.label} must be a number`;
+    if (c.integer && unit === type.unit && !Number.isInteger(value[c.key])) return `${c.label} must be a whole number`;
+    if ((c.min !== undefined && converted[c.key] < c.min) || (c.max !== undefined && converted[c.key] > c.max)) {
+      return `${c.label} must be between ${c.min ?? '-∞'} and ${c.max ?? '∞'} ${type.unit}`.trimEnd();
+    }
+  }
+  return null;
+}
+
+// Components joined by "/" followed by the unit, e.g. "120/80 mmHg"; at most two decimals
+export function formatMeasurement(type: MeasurementType | undefined, value: MeasurementValue, unit = type?.unit): string {
+  const numbers = type ? type.value_schema.components.map(c => value[c.key]) : Object.values(value);
+  return numbers.map(n => Number(n.toFixed(2))).join('/') + (unit ? ` ${unit}` : '');
+}
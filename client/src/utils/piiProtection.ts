@@ -395,6 +395,9 @@ export function getMaskSuggestions(mappings: MaskMapping[]): Array<{ mask: strin
       if (atIndex > 0) {
         hint = `***@${originalValue.substring(atIndex + 1)}`;
       }
+    } else if (mask.includes('MEASUREMENT_')) {
+      // Sensitive measurements give nothing away
+      hint = mask.includes('MEASUREMENT_DATE') ? 'Measurement date' : 'Measured value';
     } else if (mask.includes('BIRTHDATE')) {
       // Show year only
       const yearMatch = originalValue.match(/\d{4}/);
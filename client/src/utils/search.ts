@@ -0,0 +1,38 @@
+// Search terms of members for the blind index (see blindIndexToken in crypto.ts).
+// Terms are whole words: a search matches members having every word typed, in any
+// of name, surname or email, ignoring case and accents. Partial words don't match.
+
+// Fields of a member that are searchable
+export const SEARCH_FIELDS = ['name', 'surname', 'email'] as const;
+
+const MAX_TERM_LENGTH = 64;
+
+function normalize(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function splitWords(value: string): string[] {
+  return normalize(value).split(/[\s,]+/).filter(Boolean).map(word => word.slice(0, MAX_TERM_LENGTH));
+}
+
+// Words of a name; hyphenated names and names with apostrophes also count as their parts
+function nameTerms(value: string): string[] {
+  return splitWords(value).flatMap(word => {
+    const parts = word.split(/['\u2019-]/).filter(Boolean);
+    return parts.length > 1 ? [word, ...parts] : [word];
+  });
+}
+
+// Distinct terms indexed for a member; an email is indexed whole
+export function memberSearchTerms(member: Partial<Record<typeof SEARCH_FIELDS[number], string | null>>): string[] {
+  const terms = [...nameTerms(member.name || ''), ...nameTerms(member.surname || '')];
+  if (member.email) {
+    terms.push(normalize(member.email).slice(0, MAX_TERM_LENGTH));
+  }
+  return [...new Set(terms)];
+}
+
+// Distinct terms of a search query
+export function queryTerms(query: string): string[] {
+  return [...new Set(splitWords(query))];
+}
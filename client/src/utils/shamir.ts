@@ -0,0 +1,92 @@
+// Shamir secret sharing over GF(256), byte by byte.
+// Any `threshold` of the shares reconstruct the secret; fewer reveal nothing about it.
+
+export interface Share {
+  x: number; // 1..255, never 0 (the secret is the polynomial at x = 0)
+  y: Uint8Array;
+}
+
+// Log/exp tables for GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1 and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by the generator 3: value * 2 xor value
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero');
+  }
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+// Split a secret into `count` shares with x = 1..count
+export function split(secret: Uint8Array, count: number, threshold: number): Share[] {
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > count || count > 255) {
+    throw new Error('Invalid share count or threshold');
+  }
+
+  const shares: Share[] = Array.from({ length: count }, (_, i) => ({ x: i + 1, y: new Uint8Array(secret.length) }));
+  const coefficients = new Uint8Array(threshold);
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    // Random polynomial of degree threshold - 1 with the secret byte as constant term
+    crypto.getRandomValues(coefficients);
+    coefficients[0] = secret[byte];
+
+    for (const share of shares) {
+      // Horner's method
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = mul(y, share.x) ^ coefficients[c];
+      }
+      share.y[byte] = y;
+    }
+  }
+
+  coefficients.fill(0);
+  return shares;
+}
+
+// Reconstruct the secret from at least `threshold` shares (Lagrange interpolation at x = 0)
+export function combine(shares: Share[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares');
+  }
+  const xs = shares.map(s => s.x);
+  if (xs.some(x => x < 1 || x > 255) || new Set(xs).size !== xs.length) {
+    throw new Error('Shares must have distinct indexes between 1 and 255');
+  }
+  const length = shares[0].y.length;
+  if (shares.some(s => s.y.length !== length)) {
+    throw new Error('Shares have different lengths');
+  }
+
+  const secret = new Uint8Array(length);
+  for (let i = 0; i < shares.length; i++) {
+    // Lagrange basis polynomial of share i at x = 0 (subtraction is xor in GF(256))
+    let basis = 1;
+    for (let j = 0; j < shares.length; j++) {
+      if (i !== j) {
+        basis = mul(basis, div(xs[j], xs[j] ^ xs[i]));
+      }
+    }
+    for (let byte = 0; byte < length; byte++) {
+      secret[byte] ^= mul(shares[i].y[byte], basis);
+    }
+  }
+  return secret;
+}
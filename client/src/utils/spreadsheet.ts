@@ -0,0 +1,155 @@
+// Reading tabular files (CSV, XLSX) into rows of strings, entirely in the browser
+
+export type Rows = string[][];
+
+// CSV with quoted fields ("" escapes a quote); the delimiter is guessed from the first line
+export function parseCsv(text: string): Rows {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: Rows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Files of a ZIP archive (XLSX is one), inflated with the browser's DecompressionStream
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // End of central directory record: at least 22 bytes from the end, possibly followed by a comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const files = new Map<string, Uint8Array>();
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Damaged XLSX file');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function parseXml(files: Map<string, Uint8Array>, path: string): Document | null {
+  const data = files.get(path);
+  return data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+}
+
+// Column index of a cell reference such as "C12"
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Cells of the first worksheet as text. Numbers (including dates, which XLSX stores
+// as day serials) are returned as written in the file.
+export async function parseXlsx(buffer: ArrayBuffer): Promise<Rows> {
+  const files = await readZip(buffer);
+
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  const relations = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  const relation = Array.from(relations?.getElementsByTagName('Relationship') ?? [])
+    .find(r => r.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target')?.replace(/^\/?(xl\/)?/, '');
+  const sheet = parseXml(files, target ? `xl/${target}` : 'xl/worksheets/sheet1.xml');
+  if (!sheet) {
+    throw new Error('The XLSX file has no worksheet');
+  }
+
+  const sharedStrings = Array.from(parseXml(files, 'xl/sharedStrings.xml')?.getElementsByTagName('si') ?? [])
+    .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent ?? '').join(''));
+
+  const rows: Rows = [];
+  for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagName('c'))) {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      const text = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? Array.from(cell.getElementsByTagName('t')).map(t => t.textContent ?? '').join('')
+        : value;
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export async function readSpreadsheet(file: File): Promise<Rows> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  return parseCsv(await file.text());
+}
@@ -0,0 +1,79 @@
+// Trend analytics over a member's measurements: moving averages, rate of change and BMI.
+// Works on decrypted values in the browser only; nothing computed here is sent anywhere.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrendPoint {
+  date: string; // YYYY-MM-DD
+  time: number; // ms since the epoch, for the chart's x axis
+  value: number;
+}
+
+// Points sorted by date; several measurements on one day are kept in the order given
+export function toTrendPoints(entries: Array<{ date: string; value: number }>): TrendPoint[] {
+  return entries
+    .map(e => ({ date: e.date, time: Date.parse(e.date), value: e.value }))
+    .filter(p => Number.isFinite(p.time) && Number.isFinite(p.value))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Trailing moving average: each point becomes the mean of the measurements of the windowDays
+// days up to and including it, so irregular measurement intervals don't skew it
+export function movingAverage(points: TrendPoint[], windowDays: number): TrendPoint[] {
+  let start = 0;
+  let sum = 0;
+  return points.map((point, i) => {
+    sum += point.value;
+    while (points[start].time <= point.time - windowDays * DAY_MS) {
+      sum -= points[start].value;
+      start++;
+    }
+    return { ...point, value: sum / (i - start + 1) };
+  });
+}
+
+// Change per week over the last windowDays days before the latest point (all points without a
+// window), as the slope of a least-squares line. Null with fewer than two days of measurements.
+export function weeklyRateOfChange(points: TrendPoint[], windowDays?: number): number | null {
+  if (points.length === 0) return null;
+  const last = points[points.length - 1].time;
+  const recent = windowDays === undefined ? points : points.filter(p => p.time >= last - windowDays * DAY_MS);
+  if (recent.length < 2 || recent[0].time === last) return null;
+
+  const meanTime = recent.reduce((sum, p) => sum + p.time, 0) / recent.length;
+  const meanValue = recent.reduce((sum, p) => sum + p.value, 0) / recent.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of recent) {
+    covariance += (p.time - meanTime) * (p.value - meanValue);
+    variance += (p.time - meanTime) ** 2;
+  }
+  return (covariance / variance) * 7 * DAY_MS;
+}
+
+// Body mass index from a weight in kg and a height in cm
+export function bodyMassIndex(weightKg: number, heightCm: number): number | null {
+  if (!(weightKg > 0) || !(heightCm > 0)) return null;
+  return weightKg / (heightCm / 100) ** 2;
+}
+
+// WHO adult categories
+export function bmiCategory(bmi: number): string {
+  if (bmi < 18.5) return 'underweight';
+  if (bmi < 25) return 'normal';
+  if (bmi < 30) return 'overweight';
+  return 'obese';
+}
+
+// Round axis ticks covering [min, max], about count of them
+export function axisTicks(min: number, max: number, count: number): number[] {
+  if (max <= min) return [min];
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= rough)!;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step / 1e6; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+  return ticks;
+}
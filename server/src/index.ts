@@ -6,10 +6,19 @@ import { initDatabase } from './models/database.js';
 import authRoutes from './routes/auth.js';
 import usersRoutes from './routes/users.js';
 import dataRoutes from './routes/data.js';
+import measurementTypesRoutes from './routes/measurementTypes.js';
+import measurementGoalsRoutes from './routes/measurementGoals.js';
 import keysRoutes from './routes/keys.js';
+import rotationRoutes from './routes/rotation.js';
+import escrowRoutes from './routes/escrow.js';
 import auditRoutes from './routes/audit.js';
 import membersRoutes from './routes/members.js';
 import llmRoutes from './routes/llm.js';
+import recoveryRoutes from './routes/recovery.js';
+import rolesRoutes from './routes/roles.js';
+import trashRoutes from './routes/trash.js';
+import erasuresRoutes from './routes/erasures.js';
+import backupRoutes from './routes/backup.js';
 
 const app = express();
 // In dev mode, use 3334 (Vite runs on 3333 and proxies /api to 3334)
@@ -40,10 +49,19 @@ initDatabase();
 app.use('/api/auth', authRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/data', dataRoutes);
+app.use('/api/measurement-types', measurementTypesRoutes);
+app.use('/api/measurement-goals', measurementGoalsRoutes);
+app.use('/api/keys/rotation', rotationRoutes);
+app.use('/api/keys/escrow', escrowRoutes);
 app.use('/api/keys', keysRoutes);
 app.use('/api/audit', auditRoutes);
 app.use('/api/members', membersRoutes);
 app.use('/api/llm', llmRoutes);
+app.use('/api/recovery', recoveryRoutes);
+app.use('/api/roles', rolesRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/erasures', erasuresRoutes);
+app.use('/api/backup', backupRoutes);
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { db } from '../models/database.js';
+import { db, Permission } from '../models/database.js';
 
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.session.userId) {
@@ -8,31 +8,42 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  const keyInfo = db.prepare(`
-    SELECT r.name as role_name
-    FROM key_management km
-    JOIN roles r ON km.role_id = r.id
-    WHERE km.user_id = ?
-  `).get(req.session.userId) as { role_name: string } | undefined;
+// Capabilities per user, loaded on first use. Invalidate whenever a role's
+// capabilities or a user's role change.
+const permissionCache = new Map<number, Set<string>>();
 
-  if (keyInfo?.role_name !== 'admin-role') {
-    return res.status(403).json({ error: 'Admin access required' });
+export function getUserPermissions(userId: number): Set<string> {
+  let permissions = permissionCache.get(userId);
+  if (!permissions) {
+    const rows = db.prepare(`
+      SELECT p.permission
+      FROM key_management km
+      JOIN permissions p ON p.role_id = km.role_id
+      WHERE km.user_id = ?
+    `).all(userId) as Array<{ permission: string }>;
+    permissions = new Set(rows.map(r => r.permission));
+    permissionCache.set(userId, permissions);
   }
-  next();
+  return permissions;
 }
 
-export function requireRole(allowedRoles: string[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const keyInfo = db.prepare(`
-      SELECT r.name as role_name
-      FROM key_management km
-      JOIN roles r ON km.role_id = r.id
-      WHERE km.user_id = ?
-    `).get(req.session.userId) as { role_name: string } | undefined;
+export function hasPermission(userId: number | undefined, permission: Permission): boolean {
+  return userId !== undefined && getUserPermissions(userId).has(permission);
+}
 
-    if (!keyInfo || !allowedRoles.includes(keyInfo.role_name)) {
-      return res.status(403).json({ error: 'Access denied' });
+// Drop cached capabilities of one user, or of everyone
+export function invalidatePermissions(userId?: number): void {
+  if (userId === undefined) {
+    permissionCache.clear();
+  } else {
+    permissionCache.delete(userId);
+  }
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.session.userId, permission)) {
+      return res.status(403).json({ error: `Permission ${permission} required` });
     }
     next();
   };
@@ -0,0 +1,48 @@
+import { db, SCHEMA_VERSION } from './models/database.js';
+import { getMigrationStatus, getSchemaVersion, runMigrations } from './models/migrator.js';
+import { MIGRATIONS } from './migrations/index.js';
+
+// Usage: npm run migrate [-- --status | --dry-run]
+//   (no option)  apply pending migrations
+//   --status     list migrations and whether they are applied
+//   --dry-run    run pending migrations in a transaction that is rolled back
+// The server also applies pending migrations when it starts.
+function migrate() {
+  const option = process.argv[2];
+  if (option && option !== '--status' && option !== '--dry-run') {
+    throw new Error('Usage: npm run migrate [-- --status | --dry-run]');
+  }
+
+  console.log(`Database schema version ${getSchemaVersion(db)}, application schema version ${SCHEMA_VERSION}`);
+
+  if (option === '--status') {
+    for (const migration of getMigrationStatus(db, MIGRATIONS)) {
+      const known = MIGRATIONS.some(m => m.version === migration.version);
+      const state = !known ? `applied ${migration.appliedAt}, unknown to this application`
+        : migration.appliedAt ? `applied ${migration.appliedAt}`
+        : 'pending';
+      console.log(`  ${String(migration.version).padStart(3, '0')} ${migration.name}: ${state}`);
+    }
+    return;
+  }
+
+  const dryRun = option === '--dry-run';
+  const pending = runMigrations(db, MIGRATIONS, { dryRun });
+  if (pending.length === 0) {
+    console.log('Database is up to date');
+    return;
+  }
+  for (const migration of pending) {
+    console.log(`${dryRun ? 'Would apply' : 'Applied'} migration ${migration.version} (${migration.name})`);
+  }
+  if (dryRun) {
+    console.log('Dry run: all pending migrations ran and were rolled back');
+  }
+}
+
+try {
+  migrate();
+} catch (error) {
+  console.error('Migration failed:', (error as Error).message);
+  process.exitCode = 1;
+}
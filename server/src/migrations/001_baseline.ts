@@ -0,0 +1,265 @@
+import { Migration, hasColumn } from '../models/migrator.js';
+
+// The schema as it stood when migrations were introduced. Tables are created only if missing,
+// so databases from before migrations are brought to the same state and recorded as version 1.
+const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+  up(db) {
+    // Create roles table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS roles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE
+      )
+    `);
+
+    // Create permissions table (capabilities granted to each role)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS permissions (
+        role_id INTEGER NOT NULL,
+        permission TEXT NOT NULL,
+        PRIMARY KEY (role_id, permission),
+        FOREIGN KEY (role_id) REFERENCES roles(id)
+      )
+    `);
+
+    // Create users table (PII fields are encrypted)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        name TEXT,
+        surname TEXT,
+        birthdate TEXT,
+        email TEXT,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create data table (weight measurements linked to members)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS data (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL,
+        weight REAL NOT NULL,
+        date TEXT NOT NULL,
+        deleted TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (member_id) REFERENCES members(id)
+      )
+    `);
+
+    // Create members table (PII fields are encrypted)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS members (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT,
+        surname TEXT,
+        birthdate TEXT,
+        email TEXT,
+        gender TEXT,
+        deleted TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create member_history table (prior encrypted versions of member rows)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS member_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL,
+        name TEXT,
+        surname TEXT,
+        birthdate TEXT,
+        email TEXT,
+        gender TEXT,
+        changed_fields TEXT NOT NULL,
+        changed_by INTEGER,
+        changed_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (member_id) REFERENCES members(id),
+        FOREIGN KEY (changed_by) REFERENCES users(id)
+      )
+    `);
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_member_history_member ON member_history(member_id)`);
+
+    // Create erasure_requests table (right-to-erasure requests for members and their signed receipts).
+    // member_id has no foreign key: the member row is gone once the erasure is carried out.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS erasure_requests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL,
+        reason TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        requested_by INTEGER,
+        requested_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        completed_by INTEGER,
+        completed_at TEXT,
+        receipt TEXT,
+        FOREIGN KEY (requested_by) REFERENCES users(id),
+        FOREIGN KEY (completed_by) REFERENCES users(id)
+      )
+    `);
+
+    // Create key_management table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS key_management (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE,
+        role_id INTEGER NOT NULL,
+        public_key TEXT NOT NULL,
+        encrypted_private_key TEXT,
+        wrapped_data_key TEXT,
+        data_key_version INTEGER DEFAULT 1,
+        pending_wrapped_data_key TEXT,
+        kdf_params TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (role_id) REFERENCES roles(id)
+      )
+    `);
+
+    // Create key_recovery table (second copy of the private key, encrypted with a key derived from the recovery code)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS key_recovery (
+        user_id INTEGER PRIMARY KEY,
+        encrypted_private_key TEXT NOT NULL,
+        verifier TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    // Create key escrow tables (data key split into Shamir shares, each wrapped for an admin custodian)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS key_escrows (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        data_key_version INTEGER NOT NULL,
+        threshold INTEGER NOT NULL,
+        key_check TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        created_by INTEGER NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS key_escrow_shares (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        escrow_id INTEGER NOT NULL,
+        custodian_id INTEGER NOT NULL,
+        share_index INTEGER NOT NULL,
+        wrapped_share TEXT NOT NULL,
+        UNIQUE (escrow_id, custodian_id),
+        UNIQUE (escrow_id, share_index),
+        FOREIGN KEY (escrow_id) REFERENCES key_escrows(id),
+        FOREIGN KEY (custodian_id) REFERENCES users(id)
+      )
+    `);
+
+    // Create escrow ceremony tables (custodians release their shares to a target admin)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS escrow_ceremonies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        escrow_id INTEGER NOT NULL,
+        target_user_id INTEGER NOT NULL,
+        started_by INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        completed_at TEXT,
+        FOREIGN KEY (escrow_id) REFERENCES key_escrows(id),
+        FOREIGN KEY (target_user_id) REFERENCES users(id),
+        FOREIGN KEY (started_by) REFERENCES users(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS escrow_approvals (
+        ceremony_id INTEGER NOT NULL,
+        custodian_id INTEGER NOT NULL,
+        share_index INTEGER NOT NULL,
+        released_share TEXT,
+        approved_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (ceremony_id, custodian_id),
+        FOREIGN KEY (ceremony_id) REFERENCES escrow_ceremonies(id),
+        FOREIGN KEY (custodian_id) REFERENCES users(id)
+      )
+    `);
+
+    // Create system_settings table (key/value flags and configuration)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS system_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create data_key_rotations table (one row per data key rotation)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS data_key_rotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_version INTEGER NOT NULL,
+        to_version INTEGER NOT NULL UNIQUE,
+        status TEXT NOT NULL DEFAULT 'in_progress',
+        started_by INTEGER,
+        started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        completed_at TEXT,
+        FOREIGN KEY (started_by) REFERENCES users(id)
+      )
+    `);
+
+    // Create audit_log table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        user_id INTEGER,
+        target_user_id INTEGER,
+        details TEXT,
+        ip_address TEXT,
+        success INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (target_user_id) REFERENCES users(id)
+      )
+    `);
+
+    // Create llm_settings table (stores encrypted API keys per user)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_settings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL UNIQUE,
+        provider TEXT NOT NULL DEFAULT 'gemini',
+        endpoint TEXT,
+        encrypted_api_key TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+
+    // Columns added before migrations existed; databases created back then may lack them
+    const legacyColumns: Array<[table: string, column: string, type: string]> = [
+      ['key_management', 'encrypted_private_key', 'TEXT'],
+      ['key_management', 'data_key_version', 'INTEGER DEFAULT 1'],
+      ['key_management', 'pending_wrapped_data_key', 'TEXT'],
+      ['key_management', 'kdf_params', 'TEXT'],
+      ['data', 'member_id', 'INTEGER'],
+      ['data', 'weight', 'REAL'],
+      ['data', 'date', 'TEXT'],
+      ['data', 'deleted', 'TEXT'],
+      ['members', 'gender', 'TEXT']
+    ];
+    for (const [table, column, type] of legacyColumns) {
+      if (!hasColumn(db, table, column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+};
+
+export default migration;
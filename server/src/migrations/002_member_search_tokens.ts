@@ -0,0 +1,20 @@
+import { Migration } from '../models/migrator.js';
+
+// Blind index tokens of member PII, one row per member and token (see utils/searchIndex.ts)
+const migration: Migration = {
+  version: 2,
+  name: 'member_search_tokens',
+  up(db) {
+    db.exec(`
+      CREATE TABLE member_search_tokens (
+        member_id INTEGER NOT NULL,
+        token TEXT NOT NULL,
+        PRIMARY KEY (member_id, token),
+        FOREIGN KEY (member_id) REFERENCES members(id)
+      )
+    `);
+    db.exec(`CREATE INDEX idx_member_search_tokens_token ON member_search_tokens(token)`);
+  }
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import { Migration } from '../models/migrator.js';
+
+// Weight values and dates may be stored encrypted (see utils/measurements.ts):
+// each is kept either in plaintext or as an envelope in encrypted_<column>, never both.
+// SQLite can't relax NOT NULL in place, so the table is rebuilt.
+const migration: Migration = {
+  version: 3,
+  name: 'encrypted_weights',
+  up(db) {
+    db.exec(`
+      CREATE TABLE data_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL,
+        weight REAL,
+        date TEXT,
+        encrypted_weight TEXT,
+        encrypted_date TEXT,
+        deleted TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (member_id) REFERENCES members(id),
+        CHECK ((weight IS NULL) != (encrypted_weight IS NULL)),
+        CHECK ((date IS NULL) != (encrypted_date IS NULL))
+      )
+    `);
+    // Keep the id sequence, so ids of purged records aren't handed out again
+    db.exec(`INSERT INTO sqlite_sequence (name, seq) SELECT 'data_new', seq FROM sqlite_sequence WHERE name = 'data'`);
+    db.exec(`
+      INSERT INTO data_new (id, member_id, weight, date, deleted, created_at)
+      SELECT id, member_id, weight, date, deleted, created_at FROM data
+    `);
+    db.exec('DROP TABLE data');
+    db.exec('ALTER TABLE data_new RENAME TO data');
+  }
+};
+
+export default migration;
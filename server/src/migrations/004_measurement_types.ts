@@ -0,0 +1,91 @@
+import { Migration } from '../models/migrator.js';
+
+// Measurement types beyond weight (see utils/measurements.ts). Every record gets a type and
+// a typed value: JSON in plaintext, or an envelope in encrypted_value when its type is sensitive.
+// Weights encrypted before this migration stay in encrypted_weight: their ciphertext is bound
+// to that column, so only a browser can move them (converted like any other record).
+const BUILT_IN_TYPES = [
+  { key: 'weight', name: 'Weight', unit: 'kg', components: [{ key: 'value', label: 'Weight', min: 1, max: 700 }] },
+  { key: 'body_fat', name: 'Body fat', unit: '%', components: [{ key: 'value', label: 'Body fat', min: 1, max: 80 }] },
+  {
+    key: 'blood_pressure',
+    name: 'Blood pressure',
+    unit: 'mmHg',
+    components: [
+      { key: 'systolic', label: 'Systolic', min: 40, max: 300, integer: true },
+      { key: 'diastolic', label: 'Diastolic', min: 20, max: 200, integer: true }
+    ]
+  },
+  { key: 'heart_rate', name: 'Heart rate', unit: 'bpm', components: [{ key: 'value', label: 'Heart rate', min: 20, max: 300, integer: true }] }
+];
+
+const migration: Migration = {
+  version: 4,
+  name: 'measurement_types',
+  up(db) {
+    db.exec(`
+      CREATE TABLE measurement_types (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        unit TEXT NOT NULL DEFAULT '',
+        value_schema TEXT NOT NULL,
+        sensitive INTEGER NOT NULL DEFAULT 0,
+        built_in INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Weight sensitivity moves from the deployment setting to the weight type; dates stay a setting
+    const setting = db.prepare(`SELECT value FROM system_settings WHERE key = 'sensitive_weight_fields'`)
+      .get() as { value: string | null } | undefined;
+    const sensitiveFields: string[] = setting?.value ? JSON.parse(setting.value) : [];
+
+    const insertType = db.prepare(`
+      INSERT INTO measurement_types (key, name, unit, value_schema, sensitive, built_in)
+      VALUES (?, ?, ?, ?, ?, 1)
+    `);
+    for (const type of BUILT_IN_TYPES) {
+      const sensitive = type.key === 'weight' && sensitiveFields.includes('weight') ? 1 : 0;
+      insertType.run(type.key, type.name, type.unit, JSON.stringify({ components: type.components }), sensitive);
+    }
+    db.prepare(`
+      INSERT OR REPLACE INTO system_settings (key, value, updated_at)
+      VALUES ('sensitive_measurement_dates', ?, CURRENT_TIMESTAMP)
+    `).run(sensitiveFields.includes('date') ? 'true' : 'false');
+    db.exec(`DELETE FROM system_settings WHERE key = 'sensitive_weight_fields'`);
+
+    db.exec(`
+      CREATE TABLE data_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL,
+        type_id INTEGER NOT NULL,
+        value TEXT,
+        encrypted_value TEXT,
+        encrypted_weight TEXT,
+        date TEXT,
+        encrypted_date TEXT,
+        deleted TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (member_id) REFERENCES members(id),
+        FOREIGN KEY (type_id) REFERENCES measurement_types(id),
+        CHECK ((value IS NOT NULL) + (encrypted_value IS NOT NULL) + (encrypted_weight IS NOT NULL) = 1),
+        CHECK ((date IS NULL) != (encrypted_date IS NULL))
+      )
+    `);
+    db.exec(`INSERT INTO sqlite_sequence (name, seq) SELECT 'data_new', seq FROM sqlite_sequence WHERE name = 'data'`);
+    db.exec(`
+      INSERT INTO data_new (id, member_id, type_id, value, encrypted_weight, date, encrypted_date, deleted, created_at)
+      SELECT id, member_id, (SELECT id FROM measurement_types WHERE key = 'weight'),
+        CASE WHEN weight IS NULL THEN NULL ELSE json_object('value', weight) END,
+        encrypted_weight, date, encrypted_date, deleted, created_at
+      FROM data
+    `);
+    db.exec('DROP TABLE data');
+    db.exec('ALTER TABLE data_new RENAME TO data');
+    db.exec('CREATE INDEX idx_data_type ON data(type_id)');
+  }
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { Migration } from '../models/migrator.js';
+
+// Every measurement records the unit it was entered in (see utils/units.ts); existing records
+// were entered in their type's unit. Users can pick the unit each type is displayed in.
+const migration: Migration = {
+  version: 5,
+  name: 'measurement_units',
+  up(db) {
+    db.exec(`ALTER TABLE data ADD COLUMN unit TEXT NOT NULL DEFAULT ''`);
+    db.exec('UPDATE data SET unit = (SELECT unit FROM measurement_types t WHERE t.id = data.type_id)');
+
+    db.exec(`
+      CREATE TABLE measurement_unit_preferences (
+        user_id INTEGER NOT NULL,
+        type_id INTEGER NOT NULL,
+        unit TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, type_id),
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (type_id) REFERENCES measurement_types(id)
+      )
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import { Migration } from '../models/migrator.js';
+
+// Goals per member and measurement type (e.g. a target weight), always encrypted in the browser
+// and bound to the member like measurements. Height becomes a built-in type so BMI can be
+// computed; a custom type already using the key is kept.
+const migration: Migration = {
+  version: 6,
+  name: 'measurement_goals',
+  up(db) {
+    db.exec(`
+      CREATE TABLE measurement_goals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL,
+        type_id INTEGER NOT NULL,
+        unit TEXT NOT NULL,
+        encrypted_value TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (member_id, type_id),
+        FOREIGN KEY (member_id) REFERENCES members(id),
+        FOREIGN KEY (type_id) REFERENCES measurement_types(id)
+      )
+    `);
+
+    db.prepare(`
+      INSERT OR IGNORE INTO measurement_types (key, name, unit, value_schema, sensitive, built_in)
+      VALUES ('height', 'Height', 'cm', ?, 0, 1)
+    `).run(JSON.stringify({ components: [{ key: 'value', label: 'Height', min: 40, max: 250 }] }));
+  }
+};
+
+export default migration;
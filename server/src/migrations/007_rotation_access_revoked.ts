@@ -0,0 +1,13 @@
+import { Migration } from '../models/migrator.js';
+
+// A revoke during a data key rotation may come after the revoked user fetched the pending key;
+// such a rotation still completes, but doesn't count as the rotation the revoke requires.
+const migration: Migration = {
+  version: 7,
+  name: 'rotation_access_revoked',
+  up(db) {
+    db.exec('ALTER TABLE data_key_rotations ADD COLUMN access_revoked_at TEXT');
+  }
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import { Migration } from '../models/migrator.js';
+import baseline from './001_baseline.js';
+import memberSearchTokens from './002_member_search_tokens.js';
+import encryptedWeights from './003_encrypted_weights.js';
+import measurementTypes from './004_measurement_types.js';
+import measurementUnits from './005_measurement_units.js';
+import measurementGoals from './006_measurement_goals.js';
+import rotationAccessRevoked from './007_rotation_access_revoked.js';
+
+// All migrations, in order. Add new ones as NNN_name.ts and list them here; never edit
+// a migration once it has been released, add another one instead.
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  memberSearchTokens,
+  encryptedWeights,
+  measurementTypes,
+  measurementUnits,
+  measurementGoals,
+  rotationAccessRevoked
+];
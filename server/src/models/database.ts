@@ -1,154 +1,166 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { newKdfParams } from '../utils/kdf.js';
+import { runMigrations } from './migrator.js';
+import { MIGRATIONS } from '../migrations/index.js';
 
-const dbPath = process.env.DB_PATH || path.join(__dirname, '../../data.db');
-export const db = new Database(dbPath);
+export const DB_PATH = process.env.DB_PATH || path.join(__dirname, '../../data.db');
+export const db = new Database(DB_PATH);
+
+// Schema version this code expects: the number of the latest migration
+export const SCHEMA_VERSION = Math.max(...MIGRATIONS.map(m => m.version));
 
 export function initDatabase() {
   // Enable foreign keys
   db.pragma('foreign_keys = ON');
 
-  // Create roles table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS roles (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE
-    )
-  `);
-
-  // Create users table (PII fields are encrypted)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      username TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL,
-      name TEXT,
-      surname TEXT,
-      birthdate TEXT,
-      email TEXT,
-      is_active INTEGER DEFAULT 1,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create data table (weight measurements linked to members)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS data (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      member_id INTEGER NOT NULL,
-      weight REAL NOT NULL,
-      date TEXT NOT NULL,
-      deleted TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (member_id) REFERENCES members(id)
-    )
-  `);
-
-  // Create members table (PII fields are encrypted)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS members (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT,
-      surname TEXT,
-      birthdate TEXT,
-      email TEXT,
-      gender TEXT,
-      deleted TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create key_management table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS key_management (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL UNIQUE,
-      role_id INTEGER NOT NULL,
-      public_key TEXT NOT NULL,
-      encrypted_private_key TEXT,
-      wrapped_data_key TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users(id),
-      FOREIGN KEY (role_id) REFERENCES roles(id)
-    )
-  `);
-
-  // Create audit_log table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS audit_log (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      action TEXT NOT NULL,
-      user_id INTEGER,
-      target_user_id INTEGER,
-      details TEXT,
-      ip_address TEXT,
-      success INTEGER DEFAULT 1,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users(id),
-      FOREIGN KEY (target_user_id) REFERENCES users(id)
-    )
-  `);
-
-  // Create llm_settings table (stores encrypted API keys per user)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS llm_settings (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL UNIQUE,
-      provider TEXT NOT NULL DEFAULT 'gemini',
-      endpoint TEXT,
-      encrypted_api_key TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users(id)
-    )
-  `);
-
-  // Migration: add encrypted_private_key column if it doesn't exist
-  try {
-    db.exec(`ALTER TABLE key_management ADD COLUMN encrypted_private_key TEXT`);
-  } catch (e) {
-    // Column already exists, ignore
+  // Bring the schema up to date; refuses a database newer than this code
+  const applied = runMigrations(db, MIGRATIONS);
+  for (const migration of applied) {
+    console.log(`Applied migration ${migration.version} (${migration.name})`);
   }
 
-  // Migration: add new columns to data table if upgrading from old schema
-  try {
-    db.exec(`ALTER TABLE data ADD COLUMN member_id INTEGER`);
-  } catch (e) {
-    // Column already exists, ignore
-  }
-  try {
-    db.exec(`ALTER TABLE data ADD COLUMN weight REAL`);
-  } catch (e) {
-    // Column already exists, ignore
-  }
-  try {
-    db.exec(`ALTER TABLE data ADD COLUMN date TEXT`);
-  } catch (e) {
-    // Column already exists, ignore
-  }
-  try {
-    db.exec(`ALTER TABLE data ADD COLUMN deleted TEXT`);
-  } catch (e) {
-    // Column already exists, ignore
-  }
-
-  // Migration: add gender column to members table
-  try {
-    db.exec(`ALTER TABLE members ADD COLUMN gender TEXT`);
-  } catch (e) {
-    // Column already exists, ignore
+  // Per-user KDF parameters. Users with an encrypted private key keep the legacy derivation
+  // (NULL) until they log in and upgrade; users without one get random parameters now.
+  const withoutKdf = db.prepare(`
+    SELECT user_id FROM key_management
+    WHERE kdf_params IS NULL AND (encrypted_private_key IS NULL OR encrypted_private_key = '')
+  `).all() as { user_id: number }[];
+  const setKdf = db.prepare('UPDATE key_management SET kdf_params = ? WHERE user_id = ?');
+  for (const { user_id } of withoutKdf) {
+    setKdf.run(JSON.stringify(newKdfParams()), user_id);
   }
 
   // Seed default roles if not exist
-  const roles = ['admin-role', 'user-role', 'view-role'];
   const insertRole = db.prepare('INSERT OR IGNORE INTO roles (name) VALUES (?)');
-  for (const role of roles) {
+  for (const role of BUILT_IN_ROLES) {
     insertRole.run(role);
   }
 
+  // Grant default capabilities. Each capability is seeded once, so grants an admin
+  // removed are not restored on restart, while capabilities added later still get defaults.
+  const seeded = new Set<string>(JSON.parse(getSetting('permissions_seeded') || '[]'));
+  const grant = db.prepare(`
+    INSERT OR IGNORE INTO permissions (role_id, permission)
+    SELECT id, ? FROM roles WHERE name = ?
+  `);
+  db.transaction(() => {
+    for (const permission of PERMISSIONS) {
+      if (seeded.has(permission.name)) {
+        continue;
+      }
+      for (const [role, granted] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+        if (granted.includes(permission.name)) {
+          grant.run(permission.name, role);
+        }
+      }
+      seeded.add(permission.name);
+    }
+    setSetting('permissions_seeded', JSON.stringify([...seeded]));
+  })();
+
   console.log('Database initialized');
 }
 
+// Columns holding ciphertext produced with the data key, per table.
+// Used by data key rotation to find everything that must be re-encrypted.
+export const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  members: ['name', 'surname', 'birthdate', 'email', 'gender'],
+  member_history: ['name', 'surname', 'birthdate', 'email', 'gender'],
+  users: ['name', 'surname', 'birthdate', 'email'],
+  llm_settings: ['encrypted_api_key'],
+  data: ['encrypted_value', 'encrypted_weight', 'encrypted_date'],
+  measurement_goals: ['encrypted_value']
+};
+
+// Column whose value is the record id bound into each ciphertext's associated data, per table.
+// LLM settings are bound to their owner and measurements and goals to their member, since the row id
+// is not known when they are encrypted.
+export const ENCRYPTED_RECORD_KEYS: Record<string, string> = {
+  members: 'id',
+  member_history: 'member_id',
+  users: 'id',
+  llm_settings: 'user_id',
+  data: 'member_id',
+  measurement_goals: 'member_id'
+};
+
+// Table named in the associated data of each ciphertext, where it differs from the storing table.
+// History rows keep the ciphertexts of the member they were copied from, unchanged.
+export const ENCRYPTED_CONTEXT_TABLES: Record<string, string> = {
+  member_history: 'members'
+};
+
+// Capabilities that can be granted to roles
+export const PERMISSIONS = [
+  { name: 'user:read', description: 'List users and their encrypted profile data' },
+  { name: 'user:create', description: 'Create user accounts' },
+  { name: 'user:update', description: 'Edit the encrypted profile data of users' },
+  { name: 'user:deactivate', description: 'Deactivate and reactivate user accounts' },
+  { name: 'user:delete', description: 'Permanently delete user accounts' },
+  { name: 'member:read', description: 'List members' },
+  { name: 'member:create', description: 'Create members' },
+  { name: 'member:update', description: 'Edit members' },
+  { name: 'member:delete', description: 'Delete members' },
+  { name: 'weight:read', description: 'List measurements and goals' },
+  { name: 'weight:create', description: 'Record measurements and set goals' },
+  { name: 'weight:delete', description: 'Delete measurements' },
+  { name: 'weight:sensitivity', description: 'Choose whether measurement dates are encrypted and convert existing records' },
+  { name: 'measurement_type:manage', description: 'Create, edit and delete measurement types, including whether their values are encrypted' },
+  { name: 'member:erase', description: 'Request and carry out the erasure of a member and all their data' },
+  { name: 'trash:purge', description: 'Set the trash retention period and permanently erase expired records' },
+  { name: 'audit:read', description: 'Read the audit log' },
+  { name: 'backup:create', description: 'Download full database backups (PII stays encrypted)' },
+  { name: 'keys:grant', description: 'Read other users\' keys and grant them data access' },
+  { name: 'keys:revoke', description: 'Revoke data access' },
+  { name: 'keys:reset', description: 'Reset another user\'s keys' },
+  { name: 'keys:rotate', description: 'Rotate the data key' },
+  { name: 'keys:escrow', description: 'Escrow the data key and take part in recovery ceremonies' },
+  { name: 'roles:manage', description: 'Create, rename and delete roles and change their capabilities' },
+  { name: 'roles:assign', description: 'Change the role of a user' }
+] as const;
+
+export type Permission = typeof PERMISSIONS[number]['name'];
+
+export function isPermission(name: unknown): name is Permission {
+  return PERMISSIONS.some(p => p.name === name);
+}
+
+// Roles the application relies on; they can't be renamed or deleted
+export const BUILT_IN_ROLES = ['admin-role', 'user-role', 'view-role'];
+
+// Capabilities granted to the built-in roles when first seeded
+const DEFAULT_ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  'admin-role': PERMISSIONS.map(p => p.name),
+  'user-role': ['member:read', 'member:create', 'member:update', 'member:delete', 'weight:read', 'weight:create', 'weight:delete'],
+  'view-role': ['member:read', 'weight:read']
+};
+
+// System settings helpers
+export function getSetting(key: string): string | null {
+  const row = db.prepare('SELECT value FROM system_settings WHERE key = ?')
+    .get(key) as { value: string | null } | undefined;
+  return row?.value ?? null;
+}
+
+export function setSetting(key: string, value: string | null): void {
+  db.prepare(`
+    INSERT INTO system_settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+  `).run(key, value);
+}
+
+// Current data key version (1 until the first rotation completes)
+export function getCurrentDataKeyVersion(): number {
+  const row = db.prepare(`
+    SELECT to_version FROM data_key_rotations
+    WHERE status = 'completed'
+    ORDER BY to_version DESC
+    LIMIT 1
+  `).get() as { to_version: number } | undefined;
+  return row?.to_version ?? 1;
+}
+
 // Audit logging helper
 export type AuditAction =
   | 'LOGIN'
@@ -158,13 +170,45 @@ export type AuditAction =
   | 'USER_CREATE'
   | 'USER_UPDATE'
   | 'USER_DEACTIVATE'
+  | 'USER_REACTIVATE'
+  | 'USER_DELETE'
   | 'KEY_SETUP'
   | 'KEY_RESET'
   | 'ACCESS_GRANT'
+  | 'ACCESS_REVOKE'
+  | 'KEY_ROTATE'
+  | 'KDF_UPGRADE'
+  | 'RECOVERY_SETUP'
+  | 'KEY_RECOVER'
+  | 'KEY_ESCROW'
+  | 'PERMISSION_CHANGE'
+  | 'ROLE_CREATE'
+  | 'ROLE_UPDATE'
+  | 'ROLE_DELETE'
+  | 'ESCROW_CEREMONY'
   | 'WEIGHT_CREATE'
   | 'WEIGHT_DELETE'
+  | 'WEIGHT_RESTORE'
+  | 'WEIGHT_IMPORT'
+  | 'WEIGHT_SENSITIVITY_UPDATE'
+  | 'MEASUREMENT_TYPE_CREATE'
+  | 'MEASUREMENT_TYPE_UPDATE'
+  | 'MEASUREMENT_TYPE_DELETE'
+  | 'MEASUREMENT_GOAL_UPDATE'
+  | 'MEASUREMENT_GOAL_DELETE'
   | 'MEMBER_CREATE'
+  | 'MEMBER_UPDATE'
   | 'MEMBER_DELETE'
+  | 'MEMBER_RESTORE'
+  | 'MEMBER_EXPORT'
+  | 'MEMBER_IMPORT'
+  | 'TRASH_RETENTION_UPDATE'
+  | 'TRASH_PURGE'
+  | 'ERASURE_REQUEST'
+  | 'ERASURE_COMPLETE'
+  | 'ERASURE_CANCEL'
+  | 'BACKUP_CREATE'
+  | 'BACKUP_RESTORE'
   | 'LLM_SETTINGS_UPDATE'
   | 'LLM_ASK';
 
@@ -0,0 +1,104 @@
+import Database from 'better-sqlite3';
+
+// Numbered schema migrations (see src/migrations). Each runs once, in its own transaction,
+// and is recorded in schema_migrations; the schema version is the highest applied number.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+function appliedMigrations(db: Database.Database): Map<number, { name: string; applied_at: string }> {
+  const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`).get();
+  if (!table) {
+    return new Map();
+  }
+  const rows = db.prepare('SELECT version, name, applied_at FROM schema_migrations').all() as
+    Array<{ version: number; name: string; applied_at: string }>;
+  return new Map(rows.map(r => [r.version, r]));
+}
+
+// Highest applied migration; 0 for an empty database or one from before migrations
+export function getSchemaVersion(db: Database.Database): number {
+  return Math.max(0, ...appliedMigrations(db).keys());
+}
+
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as Array<{ name: string }>;
+  return columns.some(c => c.name === column);
+}
+
+// Every known migration and when it was applied, plus applied ones this code doesn't know
+export function getMigrationStatus(db: Database.Database, migrations: Migration[]): MigrationStatus[] {
+  const applied = appliedMigrations(db);
+  const status: MigrationStatus[] = migrations.map(m => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version)?.applied_at ?? null
+  }));
+  for (const [version, row] of applied) {
+    if (!migrations.some(m => m.version === version)) {
+      status.push({ version, name: row.name, appliedAt: row.applied_at });
+    }
+  }
+  return status.sort((a, b) => a.version - b.version);
+}
+
+function applyMigration(db: Database.Database, migration: Migration): void {
+  try {
+    ensureMigrationsTable(db);
+    migration.up(db);
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+  } catch (error) {
+    throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+  }
+}
+
+// Apply pending migrations in order, each in its own transaction, and return them.
+// A dry run applies them all in one transaction that is then rolled back, so errors still surface.
+export function runMigrations(db: Database.Database, migrations: Migration[], options: { dryRun?: boolean } = {}): Migration[] {
+  const latest = Math.max(0, ...migrations.map(m => m.version));
+  const current = getSchemaVersion(db);
+  if (current > latest) {
+    throw new Error(`Database schema version ${current} is newer than this application supports (${latest}); upgrade the application`);
+  }
+
+  const applied = appliedMigrations(db);
+  const pending = migrations
+    .filter(m => !applied.has(m.version))
+    .sort((a, b) => a.version - b.version);
+
+  if (options.dryRun) {
+    const rollback = new Error('Dry run');
+    try {
+      db.transaction(() => {
+        pending.forEach(m => applyMigration(db, m));
+        throw rollback;
+      })();
+    } catch (error) {
+      if (error !== rollback) throw error;
+    }
+  } else {
+    for (const migration of pending) {
+      db.transaction(() => applyMigration(db, migration))();
+    }
+  }
+  return pending;
+}
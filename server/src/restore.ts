@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { initDatabase, logAudit } from './models/database.js';
+import { validateBackup, restoreBackup } from './utils/backup.js';
+
+// Usage: npm run restore -- <file>
+// Stop the server first: it caches permissions and keys read from the database it started with.
+async function restore() {
+  if (!process.argv[2]) {
+    throw new Error('Usage: npm run restore -- <backup file>');
+  }
+  // npm runs workspace scripts inside server/; paths are relative to where it was invoked
+  const file = path.resolve(process.env.INIT_CWD || process.cwd(), process.argv[2]);
+
+  console.log(`Validating ${file}...`);
+  const { bundle, file: snapshot } = validateBackup(JSON.parse(fs.readFileSync(file, 'utf8')));
+
+  const rows = Object.values(bundle.checksums.tables).reduce((sum, t) => sum + t.rows, 0);
+  console.log(`Backup of ${bundle.createdAt} by ${bundle.createdBy} is valid`);
+  console.log(`${Object.keys(bundle.checksums.tables).length} tables, ${rows} rows, schema version ${bundle.schemaVersion}`);
+
+  let previous: string;
+  try {
+    previous = await restoreBackup(snapshot);
+  } finally {
+    fs.rmSync(snapshot, { force: true });
+  }
+
+  // Bring a backup of an older schema up to date
+  initDatabase();
+
+  logAudit({
+    action: 'BACKUP_RESTORE',
+    details: `Database restored from the backup of ${bundle.createdAt} by ${bundle.createdBy} (checksum ${bundle.checksums.database.slice(0, 16)})`,
+    success: true
+  });
+
+  console.log('Restore completed successfully!');
+  console.log(`The replaced database was saved as ${previous}`);
+}
+
+restore().catch((error) => {
+  console.error('Restore failed:', error.message);
+  process.exitCode = 1;
+});
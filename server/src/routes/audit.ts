@@ -1,11 +1,11 @@
 import { Router } from 'express';
 import { db } from '../models/database.js';
-import { requireAuth, requireAdmin } from '../middleware/auth.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
 
 const router = Router();
 
 // GET /api/audit - Get audit logs (admin only)
-router.get('/', requireAuth, requireAdmin, (req, res) => {
+router.get('/', requireAuth, requirePermission('audit:read'), (req, res) => {
   try {
     const { limit = 100, offset = 0, action, userId } = req.query;
 
@@ -69,7 +69,7 @@ router.get('/', requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/audit/actions - Get list of distinct actions
-router.get('/actions', requireAuth, requireAdmin, (req, res) => {
+router.get('/actions', requireAuth, requirePermission('audit:read'), (req, res) => {
   try {
     const actions = db.prepare('SELECT DISTINCT action FROM audit_log ORDER BY action').all();
     res.json(actions.map((a: any) => a.action));
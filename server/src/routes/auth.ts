@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { db, logAudit } from '../models/database.js';
 import { hashPassword, verifyPassword } from '../utils/crypto.js';
+import { getUserPermissions } from '../middleware/auth.js';
+import { SEED_USERNAME, isSeedRetired } from '../utils/bootstrap.js';
 
 const router = Router();
 
@@ -26,6 +28,17 @@ router.post('/login', async (req, res) => {
       'SELECT id, username, password_hash, is_active FROM users WHERE username = ?'
     ).get(username) as { id: number; username: string; password_hash: string; is_active: number } | undefined;
 
+    if (username === SEED_USERNAME && isSeedRetired()) {
+      logAudit({
+        action: 'LOGIN_FAILED',
+        userId: user?.id,
+        details: 'Failed login attempt for the retired seed account',
+        ipAddress,
+        success: false
+      });
+      return res.status(401).json({ error: 'The seed account has been retired' });
+    }
+
     if (!user || !user.is_active) {
       logAudit({
         action: 'LOGIN_FAILED',
@@ -72,7 +85,8 @@ router.post('/login', async (req, res) => {
       user: {
         id: user.id,
         username: user.username,
-        role: keyInfo?.role_name
+        role: keyInfo?.role_name,
+        permissions: [...getUserPermissions(user.id)]
       }
     });
   } catch (error) {
@@ -123,7 +137,8 @@ router.get('/me', (req, res) => {
     user: {
       id: req.session.userId,
       username: req.session.username,
-      role: keyInfo?.role_name
+      role: keyInfo?.role_name,
+      permissions: [...getUserPermissions(req.session.userId)]
     }
   });
 });
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { logAudit } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { createBackup } from '../utils/backup.js';
+
+const router = Router();
+
+// GET /api/backup - Download a full database backup bundle (restore with `npm run restore`)
+router.get('/', requireAuth, requirePermission('backup:create'), async (req, res) => {
+  try {
+    const bundle = await createBackup(req.session.username!);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'BACKUP_CREATE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} downloaded a database backup (schema version ${bundle.schemaVersion}, checksum ${bundle.checksums.database.slice(0, 16)})`,
+      ipAddress,
+      success: true
+    });
+
+    const filename = `dcsdemo-backup-${bundle.createdAt.replace(/[:.]/g, '-')}.json`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.json(bundle);
+  } catch (error) {
+    console.error('Create backup error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
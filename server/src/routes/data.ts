@@ -1,49 +1,223 @@
 import { Router } from 'express';
 import { db, logAudit } from '../models/database.js';
-import { requireAuth, requireRole } from '../middleware/auth.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import {
+  SortKey, parsePageRequest, parseDeletedFilter, deletedCondition, orderBy, keysetCondition, toPage
+} from '../utils/pagination.js';
+import {
+  MeasurementColumns, MeasurementType, MeasurementValue, getMeasurementTypes, findMeasurementType,
+  getSensitiveDates, setSensitiveDates, parseMeasurementValues, unconvertedCondition, convertValue
+} from '../utils/measurements.js';
 
 const router = Router();
 
-// GET /api/data - Get all weight records with member info, sorted with deleted at end
-router.get('/', requireAuth, (req, res) => {
+// Most measurement records a single bulk request may create
+const MAX_BULK_SIZE = 500;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function insertMeasurement(memberId: number, values: MeasurementColumns): number {
+  return Number(db.prepare(`
+    INSERT INTO data (member_id, type_id, unit, value, encrypted_value, date, encrypted_date)
+    VALUES (@member_id, @type_id, @unit, @value, @encrypted_value, @date, @encrypted_date)
+  `).run({ member_id: memberId, ...values }).lastInsertRowid);
+}
+
+// Most measurement records converted per request when their sensitivity changes
+const MAX_CONVERSION_BATCH = 200;
+
+interface MeasurementRow {
+  id: number;
+  type: string;
+  unit: string;
+  value: string | null;
+  date: string | null;
+  deleted: string | null;
+  created_at: string;
+}
+
+// Value sort key: the first component of a type's values, converted into the type's unit.
+// Encrypted records have no plaintext value or date; they sort first while a conversion is
+// under way.
+function valueSortColumn(type: MeasurementType): Omit<SortKey<MeasurementRow>, 'desc'> {
+  const component = type.value_schema.components[0].key;
+  const factors = Object.entries(type.units).filter(([, factor]) => factor !== 1)
+    .map(([unit, factor]) => `WHEN '${unit.replace(/'/g, "''")}' THEN ${factor}`);
+  const factor = factors.length > 0 ? ` * CASE d.unit ${factors.join(' ')} ELSE 1 END` : '';
+  return {
+    expr: `COALESCE(json_extract(d.value, '$.${component}')${factor}, 0)`,
+    value: m => m.value ? (JSON.parse(m.value) as MeasurementValue)[component] * (type.units[m.unit] ?? 1) : 0
+  };
+}
+
+const SORTS = ['date', 'value', 'created'] as const;
+type Sort = typeof SORTS[number];
+
+// Deleted at end, then by the sort column, then by id so that the order is total
+function measurementSort(sort: Sort, desc: boolean, type: MeasurementType | undefined): SortKey<MeasurementRow>[] {
+  const columns = sort === 'date'
+    ? [
+      { expr: `COALESCE(d.date, '')`, value: (m: MeasurementRow) => m.date ?? '' },
+      { expr: 'd.created_at', value: (m: MeasurementRow) => m.created_at }
+    ]
+    : sort === 'value' ? [valueSortColumn(type!)]
+    : [{ expr: 'd.created_at', value: (m: MeasurementRow) => m.created_at }];
+  return [
+    { expr: '(d.deleted IS NOT NULL)', desc: false, value: m => m.deleted ? 1 : 0 },
+    ...columns.map(column => ({ ...column, desc })),
+    { expr: 'd.id', desc, value: m => m.id }
+  ];
+}
+
+// Plaintext values go out parsed, converted into the requested unit of their type if any.
+// Encrypted values keep the unit they were entered in.
+function toRecord<T extends MeasurementRow>(
+  row: T,
+  convertTo?: { type: MeasurementType; unit: string }
+): Omit<T, 'value'> & { value: MeasurementValue | null } {
+  if (!row.value) return { ...row, value: null };
+  const value = JSON.parse(row.value) as MeasurementValue;
+  if (!convertTo || row.unit === convertTo.unit) return { ...row, value };
+  const { type, unit } = convertTo;
+  return { ...row, unit, value: convertValue(value, type.units[row.unit] / type.units[unit]) };
+}
+
+// GET /api/data - Get measurement records with member info, sorted with deleted at end.
+// Filters: ?memberId=, ?type= (measurement type key), ?from= and ?to= (dates, inclusive),
+// ?deleted=include|exclude|only. ?sort=date|value|created and ?order=asc|desc (default: newest
+// date first); sorting by value needs ?type= and sorts by its first value component.
+// ?unit= (with ?type=) converts plaintext values into one of the type's units.
+// Dates and values can't be filtered or sorted on while they are encrypted.
+// With ?limit= or ?cursor= returns a page.
+router.get('/', requireAuth, requirePermission('weight:read'), (req, res) => {
   try {
+    const sensitiveDates = getSensitiveDates();
+    const { memberId, from, to, sort = sensitiveDates ? 'created' : 'date', order = 'desc' } = req.query;
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (memberId !== undefined) {
+      if (!Number.isInteger(Number(memberId))) {
+        return res.status(400).json({ error: 'memberId must be a member id' });
+      }
+      conditions.push('d.member_id = ?');
+      params.push(Number(memberId));
+    }
+    let type: MeasurementType | undefined;
+    if (req.query.type !== undefined) {
+      type = findMeasurementType(req.query.type);
+      if (!type) {
+        return res.status(400).json({ error: 'type must be a measurement type key' });
+      }
+      conditions.push('d.type_id = ?');
+      params.push(type.id);
+    }
+    const { unit } = req.query;
+    if (unit !== undefined) {
+      if (!type) {
+        return res.status(400).json({ error: 'Converting units needs a type' });
+      }
+      if (typeof unit !== 'string' || !Object.hasOwn(type.units, unit)) {
+        return res.status(400).json({ error: `unit of ${type.name} must be one of ${Object.keys(type.units).join(', ')}` });
+      }
+    }
+    const convertTo = type && typeof unit === 'string' ? { type, unit } : undefined;
+    for (const [value, condition] of [[from, 'd.date >= ?'], [to, 'd.date <= ?']] as const) {
+      if (value === undefined) continue;
+      if (sensitiveDates) {
+        return res.status(400).json({ error: 'Dates are encrypted in this deployment and can\'t be filtered on' });
+      }
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+        return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+      }
+      conditions.push(condition);
+      params.push(value);
+    }
+
+    const deleted = parseDeletedFilter(req.query.deleted);
+    if (!deleted) {
+      return res.status(400).json({ error: 'deleted must be include, exclude or only' });
+    }
+    conditions.push(deletedCondition('d.deleted', deleted));
+
+    if (!SORTS.includes(sort as Sort)) {
+      return res.status(400).json({ error: `sort must be one of ${SORTS.join(', ')}` });
+    }
+    if (sort === 'date' && sensitiveDates) {
+      return res.status(400).json({ error: 'date is encrypted in this deployment and can\'t be sorted on' });
+    }
+    if (sort === 'value') {
+      if (!type) {
+        return res.status(400).json({ error: 'Sorting by value needs a type' });
+      }
+      if (type.sensitive) {
+        return res.status(400).json({ error: `${type.name} values are encrypted in this deployment and can't be sorted on` });
+      }
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'order must be asc or desc' });
+    }
+    const keys = measurementSort(sort as Sort, order === 'desc', type);
+
+    const page = parsePageRequest(req.query, keys.length);
+    if (typeof page === 'string') {
+      return res.status(400).json({ error: page });
+    }
+    if (page) {
+      const keyset = keysetCondition(keys, page.after);
+      conditions.push(keyset.sql);
+      params.push(...keyset.params);
+    }
+
     const data = db.prepare(`
       SELECT
         d.id,
         d.member_id,
-        d.weight,
+        t.key as type,
+        d.unit,
+        d.value,
         d.date,
+        d.encrypted_value,
+        d.encrypted_weight,
+        d.encrypted_date,
         d.deleted,
         d.created_at,
         m.name as member_name,
         m.surname as member_surname
       FROM data d
+      JOIN measurement_types t ON d.type_id = t.id
       LEFT JOIN members m ON d.member_id = m.id
-      ORDER BY
-        CASE WHEN d.deleted IS NULL THEN 0 ELSE 1 END,
-        d.date DESC,
-        d.created_at DESC
-    `).all();
-    res.json(data);
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${orderBy(keys)}
+      ${page ? 'LIMIT ?' : ''}
+    `).all(...params, ...(page ? [page.limit + 1] : [])) as MeasurementRow[];
+
+    if (page) {
+      const { items, nextCursor } = toPage(data, page.limit, keys);
+      return res.json({ items: items.map(row => toRecord(row, convertTo)), nextCursor });
+    }
+    res.json(data.map(row => toRecord(row, convertTo)));
   } catch (error) {
     console.error('Get data error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST /api/data - Add new weight record
-router.post('/', requireAuth, requireRole(['admin-role', 'user-role']), (req, res) => {
+// POST /api/data - Add a measurement record of a type. Sensitive parts come encrypted
+// (encryptedValue, encryptedDate) instead of in plaintext (value, date).
+router.post('/', requireAuth, requirePermission('weight:create'), (req, res) => {
   try {
-    const { memberId, weight, date } = req.body;
+    const { memberId } = req.body;
 
     if (!memberId) {
       return res.status(400).json({ error: 'Member ID is required' });
     }
-    if (weight === undefined || weight === null) {
-      return res.status(400).json({ error: 'Weight is required' });
+    const type = findMeasurementType(req.body.type);
+    if (!type) {
+      return res.status(400).json({ error: 'type must be a measurement type key' });
     }
-    if (!date) {
-      return res.status(400).json({ error: 'Date is required' });
+    const values = parseMeasurementValues(req.body, type, getSensitiveDates());
+    if (typeof values === 'string') {
+      return res.status(400).json({ error: values });
     }
 
     // Verify member exists
@@ -52,21 +226,21 @@ router.post('/', requireAuth, requireRole(['admin-role', 'user-role']), (req, re
       return res.status(404).json({ error: 'Member not found' });
     }
 
-    const result = db.prepare('INSERT INTO data (member_id, weight, date) VALUES (?, ?, ?)')
-      .run(memberId, weight, date);
+    const id = insertMeasurement(memberId, values);
 
+    // The measurement itself stays out of the audit log
     const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
     logAudit({
       action: 'WEIGHT_CREATE',
       userId: req.session.userId,
-      details: `User ${req.session.username} created weight record for member ${memberId}: ${weight}kg on ${date}`,
+      details: `User ${req.session.username} created ${type.key} record id: ${id} for member ${memberId}`,
       ipAddress,
       success: true
     });
 
     res.status(201).json({
-      message: 'Weight record created',
-      id: result.lastInsertRowid
+      message: 'Measurement record created',
+      id
     });
   } catch (error) {
     console.error('Create data error:', error);
@@ -74,8 +248,182 @@ router.post('/', requireAuth, requireRole(['admin-role', 'user-role']), (req, re
   }
 });
 
-// DELETE /api/data/:id - Soft delete a weight record
-router.delete('/:id', requireAuth, requireRole(['admin-role', 'user-role']), (req, res) => {
+// POST /api/data/bulk - Add imported measurement records, all or nothing, in one transaction
+router.post('/bulk', requireAuth, requirePermission('weight:create'), (req, res) => {
+  try {
+    const { records } = req.body as { records?: Array<Record<string, any>> };
+
+    if (!Array.isArray(records) || records.length === 0 || records.length > MAX_BULK_SIZE) {
+      return res.status(400).json({ error: `records must be a list of 1 to ${MAX_BULK_SIZE} measurement records` });
+    }
+
+    const sensitiveDates = getSensitiveDates();
+    const types = new Map(getMeasurementTypes().map(type => [type.key, type]));
+    const findMember = db.prepare('SELECT id FROM members WHERE id = ? AND deleted IS NULL');
+    const rows: Array<{ memberId: number; values: MeasurementColumns }> = [];
+    for (const [index, record] of records.entries()) {
+      const type = types.get(record.type);
+      if (!type) {
+        return res.status(400).json({ error: `Record ${index}: type must be a measurement type key` });
+      }
+      const values = parseMeasurementValues(record, type, sensitiveDates);
+      if (typeof values === 'string') {
+        return res.status(400).json({ error: `Record ${index}: ${values}` });
+      }
+      if (!findMember.get(record.memberId)) {
+        return res.status(404).json({ error: `Record ${index}: member ${record.memberId} not found` });
+      }
+      rows.push({ memberId: record.memberId as number, values });
+    }
+
+    const ids = db.transaction(() =>
+      rows.map(row => insertMeasurement(row.memberId, row.values))
+    )();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'WEIGHT_IMPORT',
+      userId: req.session.userId,
+      details: `User ${req.session.username} imported ${ids.length} measurement record(s) for ${new Set(records.map(r => r.memberId)).size} member(s)`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Measurement records created', ids });
+  } catch (error) {
+    console.error('Bulk create data error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function countUnconverted(sensitiveDates: boolean): number {
+  const { count } = db.prepare(`
+    SELECT COUNT(*) as count FROM data d JOIN measurement_types t ON d.type_id = t.id
+    WHERE ${unconvertedCondition(sensitiveDates)}
+  `).get() as { count: number };
+  return count;
+}
+
+function sensitivityStatus() {
+  const dates = getSensitiveDates();
+  return {
+    dates,
+    types: getMeasurementTypes().filter(type => type.sensitive).map(type => type.key),
+    unconverted: countUnconverted(dates)
+  };
+}
+
+// GET /api/data/sensitivity - Whether dates are encrypted, which measurement types have encrypted
+// values, and how many records are still stored otherwise (converted by the browser of a
+// weight:sensitivity holder)
+router.get('/sensitivity', requireAuth, (req, res) => {
+  try {
+    res.json(sensitivityStatus());
+  } catch (error) {
+    console.error('Get measurement sensitivity error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/data/sensitivity - Choose whether measurement dates are encrypted (values are
+// encrypted per measurement type). New records follow at once; existing ones are converted
+// in batches afterwards.
+router.put('/sensitivity', requireAuth, requirePermission('weight:sensitivity'), (req, res) => {
+  try {
+    const { dates } = req.body as { dates?: unknown };
+
+    if (typeof dates !== 'boolean') {
+      return res.status(400).json({ error: 'dates must be true or false' });
+    }
+
+    const previous = getSensitiveDates();
+    setSensitiveDates(dates);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'WEIGHT_SENSITIVITY_UPDATE',
+      userId: req.session.userId,
+      details: `Measurement dates ${dates ? 'encrypted' : 'stored in plaintext'} (previously ${previous ? 'encrypted' : 'plaintext'})`,
+      ipAddress,
+      success: true
+    });
+
+    res.json(sensitivityStatus());
+  } catch (error) {
+    console.error('Update measurement sensitivity error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/data/sensitivity/batch - Next measurement records not stored as their type and the date setting require
+router.get('/sensitivity/batch', requireAuth, requirePermission('weight:sensitivity'), (req, res) => {
+  try {
+    const afterId = Number(req.query.afterId) || 0;
+    const limit = Math.min(Number(req.query.limit) || 50, MAX_CONVERSION_BATCH);
+
+    const rows = db.prepare(`
+      SELECT d.id, d.member_id, t.key as type, d.unit, d.value, d.date, d.encrypted_value, d.encrypted_weight, d.encrypted_date
+      FROM data d
+      JOIN measurement_types t ON d.type_id = t.id
+      WHERE d.id > ? AND ${unconvertedCondition(getSensitiveDates())}
+      ORDER BY d.id
+      LIMIT ?
+    `).all(afterId, limit) as MeasurementRow[];
+
+    res.json({ rows: rows.map(row => toRecord(row)) });
+  } catch (error) {
+    console.error('Get measurement conversion batch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/data/sensitivity/batch - Store converted measurement records, all or nothing.
+// Each row carries its value and date the way POST /api/data takes them; the unit stays
+// unless a row sends one.
+router.put('/sensitivity/batch', requireAuth, requirePermission('weight:sensitivity'), (req, res) => {
+  try {
+    const { rows } = req.body as { rows?: Array<Record<string, any>> };
+
+    if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_CONVERSION_BATCH) {
+      return res.status(400).json({ error: `rows must be a list of 1 to ${MAX_CONVERSION_BATCH} measurement records` });
+    }
+
+    const sensitiveDates = getSensitiveDates();
+    const types = new Map(getMeasurementTypes().map(type => [type.id, type]));
+    const findRecord = db.prepare('SELECT type_id, unit FROM data WHERE id = ?');
+    const updates: Array<{ id: number; values: MeasurementColumns }> = [];
+    for (const row of rows) {
+      const record = findRecord.get(Number(row.id)) as { type_id: number; unit: string } | undefined;
+      if (!record) {
+        return res.status(404).json({ error: `Measurement record ${row.id} not found` });
+      }
+      const values = parseMeasurementValues({ unit: record.unit, ...row }, types.get(record.type_id)!, sensitiveDates);
+      if (typeof values === 'string') {
+        return res.status(400).json({ error: `Row ${row.id}: ${values}` });
+      }
+      updates.push({ id: Number(row.id), values });
+    }
+
+    const update = db.prepare(`
+      UPDATE data SET type_id = @type_id, unit = @unit, value = @value, encrypted_value = @encrypted_value, encrypted_weight = NULL,
+        date = @date, encrypted_date = @encrypted_date
+      WHERE id = @id
+    `);
+    db.transaction(() => {
+      for (const { id, values } of updates) {
+        update.run({ id, ...values });
+      }
+    })();
+
+    res.json({ message: 'Batch stored', updated: updates.length, unconverted: countUnconverted(sensitiveDates) });
+  } catch (error) {
+    console.error('Store measurement conversion batch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/data/:id - Soft delete a measurement record
+router.delete('/:id', requireAuth, requirePermission('weight:delete'), (req, res) => {
   try {
     const { id } = req.params;
     const deletedAt = new Date().toISOString();
@@ -84,23 +432,60 @@ router.delete('/:id', requireAuth, requireRole(['admin-role', 'user-role']), (re
       .run(deletedAt, id);
 
     if (result.changes === 0) {
-      return res.status(404).json({ error: 'Weight record not found or already deleted' });
+      return res.status(404).json({ error: 'Measurement record not found or already deleted' });
     }
 
     const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
     logAudit({
       action: 'WEIGHT_DELETE',
       userId: req.session.userId,
-      details: `User ${req.session.username} deleted weight record id: ${id}`,
+      details: `User ${req.session.username} deleted measurement record id: ${id}`,
       ipAddress,
       success: true
     });
 
-    res.json({ message: 'Weight record deleted', deletedAt });
+    res.json({ message: 'Measurement record deleted', deletedAt });
   } catch (error) {
     console.error('Delete data error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// POST /api/data/:id/restore - Undo the soft delete of a measurement record (its member must not be deleted)
+router.post('/:id/restore', requireAuth, requirePermission('weight:delete'), (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const record = db.prepare(`
+      SELECT d.id, d.member_id, m.deleted as member_deleted
+      FROM data d
+      LEFT JOIN members m ON d.member_id = m.id
+      WHERE d.id = ? AND d.deleted IS NOT NULL
+    `).get(id) as { id: number; member_id: number; member_deleted: string | null } | undefined;
+
+    if (!record) {
+      return res.status(404).json({ error: 'Measurement record not found or not deleted' });
+    }
+    if (record.member_deleted) {
+      return res.status(409).json({ error: `Member ${record.member_id} is deleted; restore the member first` });
+    }
+
+    db.prepare('UPDATE data SET deleted = NULL WHERE id = ?').run(id);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'WEIGHT_RESTORE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} restored measurement record id: ${id}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Measurement record restored' });
+  } catch (error) {
+    console.error('Restore data error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
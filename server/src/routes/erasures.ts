@@ -0,0 +1,257 @@
+import { Router } from 'express';
+import { db, logAudit, ENCRYPTED_COLUMNS } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { signReceipt, getReceiptPublicKey } from '../utils/receipts.js';
+
+const router = Router();
+
+interface ErasureRequest {
+  id: number;
+  member_id: number;
+  reason: string | null;
+  status: string;
+  requested_by: number | null;
+  requested_by_username: string | null;
+  requested_at: string;
+  completed_by: number | null;
+  completed_by_username: string | null;
+  completed_at: string | null;
+  receipt: string | null;
+}
+
+// What an erasure removed; signed and handed out as proof
+interface ErasureReceipt {
+  type: 'member-erasure';
+  requestId: number;
+  memberId: number;
+  reason: string | null;
+  requestedBy: string | null;
+  requestedAt: string;
+  erasedBy: string | null;
+  erasedAt: string;
+  removed: {
+    memberRecord: boolean;
+    encryptedFields: string[];
+    historyVersions: number;
+    searchTokens: number;
+    weightRecords: number;
+    measurementGoals: number;
+    auditEntriesScrubbed: number;
+  };
+}
+
+function findRequest(id: number): ErasureRequest | undefined {
+  return db.prepare(`
+    SELECT e.*, ru.username as requested_by_username, cu.username as completed_by_username
+    FROM erasure_requests e
+    LEFT JOIN users ru ON e.requested_by = ru.id
+    LEFT JOIN users cu ON e.completed_by = cu.id
+    WHERE e.id = ?
+  `).get(id) as ErasureRequest | undefined;
+}
+
+// Audit details name members as "member 12", "member id: 12", "member record 12" or "member record id: 12"
+function memberReference(memberId: number): RegExp {
+  return new RegExp(`\\bmember(?: record)?(?: id:)? ${memberId}\\b`, 'gi');
+}
+
+// Replace references to the member in audit details; returns how many entries changed
+function scrubAuditDetails(memberId: number): number {
+  const pattern = memberReference(memberId);
+  const entries = db.prepare(`SELECT id, details FROM audit_log WHERE details LIKE ?`)
+    .all(`%member%${memberId}%`) as Array<{ id: number; details: string }>;
+  const update = db.prepare('UPDATE audit_log SET details = ? WHERE id = ?');
+
+  let scrubbed = 0;
+  for (const entry of entries) {
+    const details = entry.details.replace(pattern, 'member [erased]');
+    if (details !== entry.details) {
+      update.run(details, entry.id);
+      scrubbed++;
+    }
+  }
+  return scrubbed;
+}
+
+// GET /api/erasures - Erasure requests, pending first
+router.get('/', requireAuth, requirePermission('member:erase'), (req, res) => {
+  try {
+    const requests = db.prepare(`
+      SELECT e.id, e.member_id, e.reason, e.status, e.requested_at, e.completed_at,
+             ru.username as requested_by_username, cu.username as completed_by_username,
+             e.receipt IS NOT NULL as has_receipt
+      FROM erasure_requests e
+      LEFT JOIN users ru ON e.requested_by = ru.id
+      LEFT JOIN users cu ON e.completed_by = cu.id
+      ORDER BY CASE WHEN e.status = 'pending' THEN 0 ELSE 1 END, e.id DESC
+    `).all();
+    res.json(requests);
+  } catch (error) {
+    console.error('Get erasure requests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/erasures/signing-key - Public key verifying erasure receipts
+router.get('/signing-key', requireAuth, (req, res) => {
+  try {
+    res.json({ algorithm: 'Ed25519', publicKey: getReceiptPublicKey() });
+  } catch (error) {
+    console.error('Get receipt signing key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/erasures - Request the erasure of a member
+router.post('/', requireAuth, requirePermission('member:erase'), (req, res) => {
+  try {
+    const memberId = Number(req.body.memberId);
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() || null : null;
+
+    const member = db.prepare('SELECT id FROM members WHERE id = ?').get(memberId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const pending = db.prepare(`SELECT id FROM erasure_requests WHERE member_id = ? AND status = 'pending'`).get(memberId);
+    if (pending) {
+      return res.status(409).json({ error: 'An erasure of this member is already pending' });
+    }
+
+    const result = db.prepare(`
+      INSERT INTO erasure_requests (member_id, reason, requested_by) VALUES (?, ?, ?)
+    `).run(memberId, reason, req.session.userId);
+
+    // The member id is left out of audit details, which must not point back at an erased member
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ERASURE_REQUEST',
+      userId: req.session.userId,
+      details: `User ${req.session.username} opened erasure request #${result.lastInsertRowid}`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Erasure requested', id: result.lastInsertRowid });
+  } catch (error) {
+    console.error('Create erasure request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/erasures/:id/execute - Erase the member: encrypted PII, edit history, search tokens,
+// measurements and goals are deleted, audit details stop naming the member, and a signed receipt is stored
+router.post('/:id/execute', requireAuth, requirePermission('member:erase'), (req, res) => {
+  try {
+    const requestId = Number(req.params.id);
+
+    const request = findRequest(requestId);
+    if (!request) {
+      return res.status(404).json({ error: 'Erasure request not found' });
+    }
+    if (request.status !== 'pending') {
+      return res.status(409).json({ error: `Erasure request is ${request.status}` });
+    }
+
+    const erasedAt = new Date().toISOString();
+    const signed = db.transaction(() => {
+      const memberId = request.member_id;
+      const member = db.prepare('SELECT * FROM members WHERE id = ?').get(memberId) as Record<string, any> | undefined;
+
+      const weightRecords = db.prepare('DELETE FROM data WHERE member_id = ?').run(memberId).changes;
+      const historyVersions = db.prepare('DELETE FROM member_history WHERE member_id = ?').run(memberId).changes;
+      const searchTokens = db.prepare('DELETE FROM member_search_tokens WHERE member_id = ?').run(memberId).changes;
+      const measurementGoals = db.prepare('DELETE FROM measurement_goals WHERE member_id = ?').run(memberId).changes;
+      db.prepare('DELETE FROM members WHERE id = ?').run(memberId);
+
+      const receipt: ErasureReceipt = {
+        type: 'member-erasure',
+        requestId,
+        memberId,
+        reason: request.reason,
+        requestedBy: request.requested_by_username,
+        requestedAt: request.requested_at,
+        erasedBy: req.session.username ?? null,
+        erasedAt,
+        removed: {
+          memberRecord: !!member,
+          encryptedFields: ENCRYPTED_COLUMNS.members.filter(column => member?.[column]),
+          historyVersions,
+          searchTokens,
+          weightRecords,
+          measurementGoals,
+          auditEntriesScrubbed: scrubAuditDetails(memberId)
+        }
+      };
+      const signed = signReceipt(receipt);
+
+      db.prepare(`
+        UPDATE erasure_requests
+        SET status = 'completed', completed_by = ?, completed_at = ?, receipt = ?
+        WHERE id = ?
+      `).run(req.session.userId, erasedAt, JSON.stringify(signed), requestId);
+
+      return signed;
+    })();
+
+    const { removed } = signed.receipt;
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ERASURE_COMPLETE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} completed erasure request #${requestId}: ${removed.encryptedFields.length} encrypted field(s), ${removed.historyVersions} history version(s), ${removed.weightRecords} weight record(s) removed, ${removed.auditEntriesScrubbed} audit entry(ies) scrubbed`,
+      ipAddress,
+      success: true
+    });
+
+    res.json(signed);
+  } catch (error) {
+    console.error('Execute erasure request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/erasures/:id/cancel - Withdraw a pending erasure request
+router.post('/:id/cancel', requireAuth, requirePermission('member:erase'), (req, res) => {
+  try {
+    const requestId = Number(req.params.id);
+
+    const result = db.prepare(`
+      UPDATE erasure_requests SET status = 'cancelled', completed_by = ?, completed_at = ? WHERE id = ? AND status = 'pending'
+    `).run(req.session.userId, new Date().toISOString(), requestId);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Pending erasure request not found' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ERASURE_CANCEL',
+      userId: req.session.userId,
+      details: `User ${req.session.username} cancelled erasure request #${requestId}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Erasure request cancelled' });
+  } catch (error) {
+    console.error('Cancel erasure request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/erasures/:id/receipt - Signed receipt of a completed erasure
+router.get('/:id/receipt', requireAuth, requirePermission('member:erase'), (req, res) => {
+  try {
+    const request = findRequest(Number(req.params.id));
+    if (!request?.receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+    res.json(JSON.parse(request.receipt));
+  } catch (error) {
+    console.error('Get erasure receipt error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
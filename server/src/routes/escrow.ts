@@ -0,0 +1,401 @@
+import { Router } from 'express';
+import { db, logAudit, getCurrentDataKeyVersion } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { parseEnvelope } from '../utils/envelope.js';
+
+const router = Router();
+
+// M-of-N escrow of the data key. The admin's browser splits the data key into Shamir shares,
+// each wrapped with a custodian's public key. To recover, custodians unwrap their share and
+// re-wrap it for a target admin, whose browser reassembles the data key once M shares are in.
+// The server only ever holds wrapped shares.
+
+interface Escrow {
+  id: number;
+  data_key_version: number;
+  threshold: number;
+  key_check: string;
+  created_by: number;
+  created_at: string;
+}
+
+interface Ceremony {
+  id: number;
+  escrow_id: number;
+  target_user_id: number;
+  started_by: number;
+  status: string;
+  started_at: string;
+}
+
+function getActiveEscrow(): Escrow | undefined {
+  return db.prepare(`
+    SELECT * FROM key_escrows WHERE status = 'active' ORDER BY id DESC LIMIT 1
+  `).get() as Escrow | undefined;
+}
+
+function getOpenCeremony(id: number): Ceremony | undefined {
+  return db.prepare(`
+    SELECT * FROM escrow_ceremonies WHERE id = ? AND status = 'open'
+  `).get(id) as Ceremony | undefined;
+}
+
+function isRotating(): boolean {
+  return !!db.prepare(`SELECT id FROM data_key_rotations WHERE status = 'in_progress'`).get();
+}
+
+// Admins allowed to escrow with a real key pair can be custodians and ceremony targets
+function getEligibleAdmins(): Array<{ user_id: number; username: string; public_key: string }> {
+  return db.prepare(`
+    SELECT km.user_id, u.username, km.public_key
+    FROM key_management km
+    JOIN users u ON km.user_id = u.id
+    JOIN permissions p ON p.role_id = km.role_id AND p.permission = 'keys:escrow'
+    WHERE u.is_active = 1
+    AND km.public_key != ''
+    AND km.public_key != 'SEED_PUBLIC_KEY_PLACEHOLDER'
+    ORDER BY u.username
+  `).all() as Array<{ user_id: number; username: string; public_key: string }>;
+}
+
+function countApprovals(ceremonyId: number): number {
+  const { count } = db.prepare('SELECT COUNT(*) as count FROM escrow_approvals WHERE ceremony_id = ?')
+    .get(ceremonyId) as { count: number };
+  return count;
+}
+
+// GET /api/keys/escrow - Active escrow, the caller's share and the open ceremony
+router.get('/', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    const escrow = getActiveEscrow();
+    if (!escrow) {
+      return res.json({ escrow: null, myShare: null, ceremony: null });
+    }
+
+    const custodians = db.prepare(`
+      SELECT s.custodian_id as userId, u.username, s.share_index as shareIndex
+      FROM key_escrow_shares s
+      JOIN users u ON s.custodian_id = u.id
+      WHERE s.escrow_id = ?
+      ORDER BY s.share_index
+    `).all(escrow.id);
+
+    const myShare = db.prepare(`
+      SELECT share_index as shareIndex, wrapped_share as wrappedShare
+      FROM key_escrow_shares WHERE escrow_id = ? AND custodian_id = ?
+    `).get(escrow.id, req.session.userId) ?? null;
+
+    const open = db.prepare(`
+      SELECT c.*, u.username as target_username, km.public_key as target_public_key
+      FROM escrow_ceremonies c
+      JOIN users u ON c.target_user_id = u.id
+      JOIN key_management km ON km.user_id = c.target_user_id
+      WHERE c.escrow_id = ? AND c.status = 'open'
+      ORDER BY c.id DESC LIMIT 1
+    `).get(escrow.id) as (Ceremony & { target_username: string; target_public_key: string }) | undefined;
+
+    let ceremony = null;
+    if (open) {
+      const approvals = db.prepare(`
+        SELECT a.custodian_id as userId, u.username, a.share_index as shareIndex, a.released_share as releasedShare,
+               a.approved_at as approvedAt
+        FROM escrow_approvals a
+        JOIN users u ON a.custodian_id = u.id
+        WHERE a.ceremony_id = ?
+        ORDER BY a.approved_at
+      `).all(open.id) as Array<{ userId: number; username: string; shareIndex: number; releasedShare: string; approvedAt: string }>;
+
+      // Released shares are wrapped for the target, but only the target needs them
+      const isTarget = open.target_user_id === req.session.userId;
+      ceremony = {
+        id: open.id,
+        targetUserId: open.target_user_id,
+        targetUsername: open.target_username,
+        targetPublicKey: open.target_public_key,
+        startedAt: open.started_at,
+        approvals: approvals.map(({ releasedShare, ...approval }) =>
+          isTarget ? { ...approval, releasedShare } : approval
+        )
+      };
+    }
+
+    res.json({
+      escrow: {
+        id: escrow.id,
+        dataKeyVersion: escrow.data_key_version,
+        stale: escrow.data_key_version !== getCurrentDataKeyVersion(),
+        threshold: escrow.threshold,
+        keyCheck: escrow.key_check,
+        createdAt: escrow.created_at,
+        custodians
+      },
+      myShare,
+      ceremony
+    });
+  } catch (error) {
+    console.error('Get escrow error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/keys/escrow/candidates - Admins who can be custodians or ceremony targets
+router.get('/candidates', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    res.json(getEligibleAdmins());
+  } catch (error) {
+    console.error('Get escrow candidates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/escrow - Store a new escrow of the current data key (replaces the active one)
+router.post('/', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    const { threshold, keyCheck, shares } = req.body as {
+      threshold?: number;
+      keyCheck?: string;
+      shares?: Array<{ userId: number; shareIndex: number; wrappedShare: string }>;
+    };
+
+    if (!Array.isArray(shares) || !Number.isInteger(threshold) || threshold! < 2 || threshold! > shares.length) {
+      return res.status(400).json({ error: 'threshold must be between 2 and the number of shares' });
+    }
+    if (isRotating()) {
+      return res.status(409).json({ error: 'Finish the data key rotation before creating an escrow' });
+    }
+
+    const version = getCurrentDataKeyVersion();
+    if (!keyCheck || parseEnvelope(keyCheck)?.keyId !== version) {
+      return res.status(400).json({ error: `keyCheck must be encrypted with data key version ${version}` });
+    }
+
+    const eligible = new Set(getEligibleAdmins().map(a => a.user_id));
+    const userIds = shares.map(s => Number(s.userId));
+    const indexes = shares.map(s => Number(s.shareIndex));
+    if (userIds.some(id => !eligible.has(id)) || new Set(userIds).size !== userIds.length) {
+      return res.status(400).json({ error: 'Custodians must be distinct admins with encryption keys' });
+    }
+    if (indexes.some(i => !Number.isInteger(i) || i < 1 || i > 255) || new Set(indexes).size !== indexes.length ||
+        shares.some(s => !s.wrappedShare)) {
+      return res.status(400).json({ error: 'Each share needs a distinct shareIndex (1-255) and a wrappedShare' });
+    }
+
+    const create = db.transaction(() => {
+      // The replaced escrow's shares may still combine to the same data key - drop them
+      db.prepare(`
+        UPDATE escrow_ceremonies SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP
+        WHERE status = 'open'
+      `).run();
+      db.prepare('UPDATE escrow_approvals SET released_share = NULL').run();
+      db.prepare(`
+        DELETE FROM key_escrow_shares WHERE escrow_id IN (SELECT id FROM key_escrows WHERE status = 'active')
+      `).run();
+      db.prepare(`UPDATE key_escrows SET status = 'superseded' WHERE status = 'active'`).run();
+
+      const escrowId = db.prepare(`
+        INSERT INTO key_escrows (data_key_version, threshold, key_check, created_by)
+        VALUES (?, ?, ?, ?)
+      `).run(version, threshold, keyCheck, req.session.userId).lastInsertRowid;
+
+      const insertShare = db.prepare(`
+        INSERT INTO key_escrow_shares (escrow_id, custodian_id, share_index, wrapped_share)
+        VALUES (?, ?, ?, ?)
+      `);
+      for (const share of shares) {
+        insertShare.run(escrowId, share.userId, share.shareIndex, share.wrappedShare);
+      }
+      return escrowId;
+    });
+    const escrowId = create();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'KEY_ESCROW',
+      userId: req.session.userId,
+      details: `Admin escrowed data key version ${version} as ${threshold}-of-${shares.length} shares (custodians: ${userIds.join(', ')})`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Escrow created', id: escrowId });
+  } catch (error) {
+    console.error('Create escrow error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/escrow/ceremonies - Start a recovery ceremony for a target admin
+router.post('/ceremonies', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    const targetUserId = Number(req.body.targetUserId) || req.session.userId!;
+
+    const escrow = getActiveEscrow();
+    if (!escrow) {
+      return res.status(404).json({ error: 'No data key escrow exists' });
+    }
+    if (escrow.data_key_version !== getCurrentDataKeyVersion()) {
+      return res.status(409).json({ error: 'The escrow holds an outdated data key version' });
+    }
+    if (!getEligibleAdmins().some(a => a.user_id === targetUserId)) {
+      return res.status(400).json({ error: 'Target must be an admin with encryption keys' });
+    }
+    if (db.prepare(`SELECT id FROM escrow_ceremonies WHERE escrow_id = ? AND status = 'open'`).get(escrow.id)) {
+      return res.status(409).json({ error: 'A recovery ceremony is already open' });
+    }
+
+    const ceremonyId = db.prepare(`
+      INSERT INTO escrow_ceremonies (escrow_id, target_user_id, started_by)
+      VALUES (?, ?, ?)
+    `).run(escrow.id, targetUserId, req.session.userId).lastInsertRowid;
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ESCROW_CEREMONY',
+      userId: req.session.userId,
+      targetUserId,
+      details: `Admin started recovery ceremony ${ceremonyId} for user ${targetUserId} (${escrow.threshold} approvals required)`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Ceremony started', id: ceremonyId });
+  } catch (error) {
+    console.error('Start ceremony error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/escrow/ceremonies/:id/approve - Custodian releases their share, re-wrapped for the target
+router.post('/ceremonies/:id/approve', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    const { releasedShare } = req.body;
+    if (!releasedShare) {
+      return res.status(400).json({ error: 'releasedShare required' });
+    }
+
+    const ceremony = getOpenCeremony(Number(req.params.id));
+    if (!ceremony) {
+      return res.status(404).json({ error: 'Ceremony not found or not open' });
+    }
+
+    const share = db.prepare(`
+      SELECT share_index FROM key_escrow_shares WHERE escrow_id = ? AND custodian_id = ?
+    `).get(ceremony.escrow_id, req.session.userId) as { share_index: number } | undefined;
+    if (!share) {
+      return res.status(403).json({ error: 'You are not a custodian of this escrow' });
+    }
+
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO escrow_approvals (ceremony_id, custodian_id, share_index, released_share)
+      VALUES (?, ?, ?, ?)
+    `).run(ceremony.id, req.session.userId, share.share_index, releasedShare);
+    if (result.changes === 0) {
+      return res.status(409).json({ error: 'You already approved this ceremony' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ESCROW_CEREMONY',
+      userId: req.session.userId,
+      targetUserId: ceremony.target_user_id,
+      details: `Custodian ${req.session.username} approved recovery ceremony ${ceremony.id} (${countApprovals(ceremony.id)} approval(s))`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Share released', approvals: countApprovals(ceremony.id) });
+  } catch (error) {
+    console.error('Approve ceremony error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/escrow/ceremonies/:id/complete - Target stores the reassembled data key, wrapped for themselves
+router.post('/ceremonies/:id/complete', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    const { wrappedDataKey } = req.body;
+    if (!wrappedDataKey) {
+      return res.status(400).json({ error: 'wrappedDataKey required' });
+    }
+
+    const ceremony = getOpenCeremony(Number(req.params.id));
+    if (!ceremony) {
+      return res.status(404).json({ error: 'Ceremony not found or not open' });
+    }
+    if (ceremony.target_user_id !== req.session.userId) {
+      return res.status(403).json({ error: 'Only the target admin can complete the ceremony' });
+    }
+
+    const escrow = db.prepare('SELECT * FROM key_escrows WHERE id = ?').get(ceremony.escrow_id) as Escrow;
+    const approvals = countApprovals(ceremony.id);
+    if (approvals < escrow.threshold) {
+      return res.status(409).json({ error: `${escrow.threshold - approvals} more approval(s) required` });
+    }
+    if (isRotating() || escrow.data_key_version !== getCurrentDataKeyVersion()) {
+      return res.status(409).json({ error: 'The data key changed since the escrow was created' });
+    }
+
+    const complete = db.transaction(() => {
+      db.prepare(`
+        UPDATE key_management SET wrapped_data_key = ?, data_key_version = ?, pending_wrapped_data_key = NULL
+        WHERE user_id = ?
+      `).run(wrappedDataKey, escrow.data_key_version, ceremony.target_user_id);
+      db.prepare(`
+        UPDATE escrow_ceremonies SET status = 'completed', completed_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(ceremony.id);
+      // Released shares have served their purpose
+      db.prepare('UPDATE escrow_approvals SET released_share = NULL WHERE ceremony_id = ?').run(ceremony.id);
+    });
+    complete();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ESCROW_CEREMONY',
+      userId: req.session.userId,
+      targetUserId: ceremony.target_user_id,
+      details: `Admin ${req.session.username} reassembled the data key in recovery ceremony ${ceremony.id} (${approvals} approval(s))`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Data key recovered' });
+  } catch (error) {
+    console.error('Complete ceremony error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/escrow/ceremonies/:id/cancel - Cancel an open ceremony
+router.post('/ceremonies/:id/cancel', requireAuth, requirePermission('keys:escrow'), (req, res) => {
+  try {
+    const ceremony = getOpenCeremony(Number(req.params.id));
+    if (!ceremony) {
+      return res.status(404).json({ error: 'Ceremony not found or not open' });
+    }
+
+    const cancel = db.transaction(() => {
+      db.prepare(`
+        UPDATE escrow_ceremonies SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(ceremony.id);
+      db.prepare('UPDATE escrow_approvals SET released_share = NULL WHERE ceremony_id = ?').run(ceremony.id);
+    });
+    cancel();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ESCROW_CEREMONY',
+      userId: req.session.userId,
+      targetUserId: ceremony.target_user_id,
+      details: `Admin ${req.session.username} cancelled recovery ceremony ${ceremony.id}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Ceremony cancelled' });
+  } catch (error) {
+    console.error('Cancel ceremony error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
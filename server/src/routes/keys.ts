@@ -1,6 +1,11 @@
 import { Router } from 'express';
-import { db, logAudit } from '../models/database.js';
-import { requireAuth, requireAdmin } from '../middleware/auth.js';
+import { db, logAudit, getCurrentDataKeyVersion, setSetting } from '../models/database.js';
+import { requireAuth, requirePermission, hasPermission } from '../middleware/auth.js';
+import { destroyUserSessions } from '../utils/sessions.js';
+import { parseEnvelope } from '../utils/envelope.js';
+import { newKdfParams, meetsKdfPolicy, parseKdfParams, storedKdfParams } from '../utils/kdf.js';
+import { getBootstrapStatus, retireSeedIfReplaced } from '../utils/bootstrap.js';
+import { interruptRotationForRevoke } from '../utils/keyRotation.js';
 
 const router = Router();
 
@@ -9,31 +14,41 @@ router.get('/:userId', requireAuth, (req, res) => {
   try {
     const { userId } = req.params;
 
-    // Users can only get their own key, unless admin
-    const keyInfo = db.prepare(`
-      SELECT r.name as role_name
-      FROM key_management km
-      JOIN roles r ON km.role_id = r.id
-      WHERE km.user_id = ?
-    `).get(req.session.userId) as { role_name: string } | undefined;
-
-    if (keyInfo?.role_name !== 'admin-role' && Number(userId) !== req.session.userId) {
+    // Users can only get their own key, unless they may grant access to others
+    if (!hasPermission(req.session.userId, 'keys:grant') && Number(userId) !== req.session.userId) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
     const key = db.prepare(`
       SELECT km.id, km.user_id, km.role_id, km.public_key, km.encrypted_private_key,
-             km.wrapped_data_key, r.name as role_name
+             km.wrapped_data_key, km.data_key_version, km.pending_wrapped_data_key, km.kdf_params,
+             r.name as role_name
       FROM key_management km
       JOIN roles r ON km.role_id = r.id
       WHERE km.user_id = ?
-    `).get(userId);
+    `).get(userId) as Record<string, any> | undefined;
 
     if (!key) {
       return res.status(404).json({ error: 'Key not found' });
     }
 
-    res.json(key);
+    // Version of the pending (not yet current) data key during a rotation
+    const rotation = db.prepare(`
+      SELECT to_version FROM data_key_rotations WHERE status = 'in_progress'
+    `).get() as { to_version: number } | undefined;
+
+    // Users whose private key is protected by an outdated KDF get fresh parameters to upgrade to
+    const kdfParams = storedKdfParams(key.kdf_params);
+    const kdfUpgrade = Number(userId) === req.session.userId && key.encrypted_private_key && !meetsKdfPolicy(kdfParams)
+      ? newKdfParams()
+      : null;
+
+    res.json({
+      ...key,
+      kdf_params: kdfParams,
+      kdf_upgrade: kdfUpgrade,
+      pending_data_key_version: rotation?.to_version ?? null
+    });
   } catch (error) {
     console.error('Get key error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -41,16 +56,25 @@ router.get('/:userId', requireAuth, (req, res) => {
 });
 
 // POST /api/keys/grant - Grant access (wrap data key for new user)
-router.post('/grant', requireAuth, requireAdmin, (req, res) => {
+router.post('/grant', requireAuth, requirePermission('keys:grant'), async (req, res) => {
   try {
-    const { userId, wrappedDataKey } = req.body;
+    const { userId, wrappedDataKey, pendingWrappedDataKey } = req.body;
 
     if (!userId || !wrappedDataKey) {
       return res.status(400).json({ error: 'userId and wrappedDataKey required' });
     }
 
-    db.prepare('UPDATE key_management SET wrapped_data_key = ? WHERE user_id = ?')
-      .run(wrappedDataKey, userId);
+    // During a data key rotation the user also needs the new key
+    const rotating = db.prepare(`SELECT id FROM data_key_rotations WHERE status = 'in_progress'`).get();
+    if (rotating && !pendingWrappedDataKey) {
+      return res.status(409).json({ error: 'A data key rotation is in progress - pendingWrappedDataKey required' });
+    }
+
+    db.prepare(`
+      UPDATE key_management
+      SET wrapped_data_key = ?, data_key_version = ?, pending_wrapped_data_key = ?
+      WHERE user_id = ?
+    `).run(wrappedDataKey, getCurrentDataKeyVersion(), rotating ? pendingWrappedDataKey : null, userId);
 
     const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
     logAudit({
@@ -62,6 +86,9 @@ router.post('/grant', requireAuth, requireAdmin, (req, res) => {
       success: true
     });
 
+    // The grantee may be the first real admin holding the data key
+    await retireSeedIfReplaced(req.sessionStore, req.session.userId, ipAddress);
+
     res.json({ message: 'Access granted' });
   } catch (error) {
     console.error('Grant access error:', error);
@@ -69,6 +96,65 @@ router.post('/grant', requireAuth, requireAdmin, (req, res) => {
   }
 });
 
+// POST /api/keys/revoke - Revoke a user's data access (remove wrapped keys, end sessions)
+router.post('/revoke', requireAuth, requirePermission('keys:revoke'), async (req, res) => {
+  try {
+    const userId = Number(req.body.userId);
+
+    if (!userId) {
+      return res.status(400).json({ error: 'userId required' });
+    }
+    if (userId === req.session.userId) {
+      return res.status(400).json({ error: 'You cannot revoke your own access' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    // Key removal, rotation requirement and audit entry are recorded together, before the
+    // sessions end, so a failing session store can't leave the revoke half-recorded
+    const revoked = db.transaction(() => {
+      const result = db.prepare(`
+        UPDATE key_management
+        SET wrapped_data_key = '', pending_wrapped_data_key = NULL
+        WHERE user_id = ?
+      `).run(userId);
+      if (result.changes === 0) return undefined;
+
+      // The user may still hold a copy of the unwrapped data key - only a rotation started after
+      // this revoke makes it useless
+      setSetting('data_key_rotation_required', `Access revoked for user ${userId}`);
+      const rotation = interruptRotationForRevoke();
+
+      logAudit({
+        action: 'ACCESS_REVOKE',
+        userId: req.session.userId,
+        targetUserId: userId,
+        details: `Admin revoked data access for user ${userId}`
+          + (rotation === 'aborted' ? ', data key rotation aborted' : rotation === 'marked' ? ', data key rotation must be repeated' : ''),
+        ipAddress,
+        success: true
+      });
+      return { rotation };
+    })();
+    if (!revoked) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const { rotation } = revoked;
+
+    let sessionsEnded: number;
+    try {
+      sessionsEnded = await destroyUserSessions(req.sessionStore, userId);
+    } catch (error) {
+      console.error('End sessions after revoke error:', error);
+      return res.status(500).json({ error: 'Access revoked, but the user\'s sessions could not be ended', rotation });
+    }
+
+    res.json({ message: 'Access revoked. Rotate the data key to complete the revocation.', sessionsEnded, rotation });
+  } catch (error) {
+    console.error('Revoke access error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // GET /api/keys/roles/list - Get all roles
 router.get('/roles/list', requireAuth, (req, res) => {
   try {
@@ -98,17 +184,31 @@ router.get('/system/has-data-key', requireAuth, (req, res) => {
   }
 });
 
+// GET /api/keys/system/bootstrap - First-run progress until the seed account is retired
+router.get('/system/bootstrap', requireAuth, (req, res) => {
+  try {
+    res.json(getBootstrapStatus());
+  } catch (error) {
+    console.error('Get bootstrap status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // DELETE /api/keys/reset/:userId - Admin resets a user's keys (for lost keys recovery)
-router.delete('/reset/:userId', requireAuth, requireAdmin, (req, res) => {
+router.delete('/reset/:userId', requireAuth, requirePermission('keys:reset'), (req, res) => {
   try {
     const { userId } = req.params;
 
-    // Clear the user's public key, encrypted private key, and wrapped data key
+    // Clear the user's public key, encrypted private key, and wrapped data key; new keys get a new salt
     db.prepare(`
       UPDATE key_management
-      SET public_key = '', encrypted_private_key = '', wrapped_data_key = ''
+      SET public_key = '', encrypted_private_key = '', wrapped_data_key = '', pending_wrapped_data_key = NULL,
+          kdf_params = ?
       WHERE user_id = ?
-    `).run(userId);
+    `).run(JSON.stringify(newKdfParams()), userId);
+
+    // The recovery copy protects the old private key - useless for the new one
+    db.prepare('DELETE FROM key_recovery WHERE user_id = ?').run(userId);
 
     const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
     logAudit({
@@ -127,8 +227,50 @@ router.delete('/reset/:userId', requireAuth, requireAdmin, (req, res) => {
   }
 });
 
+// PUT /api/keys/kdf - Re-encrypt own private key under a KEK derived with new KDF parameters
+router.put('/kdf', requireAuth, (req, res) => {
+  try {
+    const { encryptedPrivateKey, kdfParams } = req.body;
+    const userId = req.session.userId;
+
+    const params = parseKdfParams(kdfParams);
+    if (!params) {
+      return res.status(400).json({ error: 'Invalid kdfParams' });
+    }
+    if (!meetsKdfPolicy(params)) {
+      return res.status(400).json({ error: 'kdfParams do not meet the KDF policy' });
+    }
+    if (!encryptedPrivateKey || !parseEnvelope(encryptedPrivateKey)) {
+      return res.status(400).json({ error: 'encryptedPrivateKey must be an encrypted envelope' });
+    }
+
+    const result = db.prepare(`
+      UPDATE key_management SET encrypted_private_key = ?, kdf_params = ?
+      WHERE user_id = ? AND encrypted_private_key IS NOT NULL AND encrypted_private_key != ''
+    `).run(encryptedPrivateKey, JSON.stringify(params), userId);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'No private key to re-encrypt' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'KDF_UPGRADE',
+      userId,
+      details: `User ${req.session.username} re-encrypted private key with ${params.algorithm}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Private key re-encrypted' });
+  } catch (error) {
+    console.error('Update KDF error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // PUT /api/keys/setup - Set up user's own keys (first login or new device)
-router.put('/setup', requireAuth, (req, res) => {
+router.put('/setup', requireAuth, async (req, res) => {
   try {
     const { publicKey, encryptedPrivateKey, wrappedDataKey } = req.body;
     const userId = req.session.userId;
@@ -186,6 +328,10 @@ router.put('/setup', requireAuth, (req, res) => {
       success: true
     });
 
+    if (wrappedDataKey) {
+      await retireSeedIfReplaced(req.sessionStore, userId, ipAddress);
+    }
+
     res.json({ message: 'Keys set up successfully', existing: false });
   } catch (error) {
     console.error('Setup keys error:', error);
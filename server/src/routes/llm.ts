@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { db, logAudit } from '../models/database.js';
 import { requireAuth } from '../middleware/auth.js';
+import { isEnvelope } from '../utils/envelope.js';
 
 const router = Router();
 
@@ -49,6 +50,9 @@ router.put('/settings', requireAuth, (req, res) => {
     if (!encryptedApiKey) {
       return res.status(400).json({ error: 'encryptedApiKey is required' });
     }
+    if (!isEnvelope(encryptedApiKey)) {
+      return res.status(400).json({ error: 'encryptedApiKey must be an encrypted envelope' });
+    }
 
     // Check if settings exist
     const existing = db.prepare('SELECT id FROM llm_settings WHERE user_id = ?')
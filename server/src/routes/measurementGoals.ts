@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { db, logAudit } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { findMeasurementType } from '../utils/measurements.js';
+import { isEnvelope } from '../utils/envelope.js';
+
+// Goals per member and measurement type, e.g. a target weight. The value is always encrypted in
+// the browser, bound to the member ({ table: 'measurement_goals', column: 'encrypted_value',
+// recordId: member_id }), so the server only learns that a member has a goal and its unit.
+
+const router = Router();
+
+// GET /api/measurement-goals?memberId= - Goals of a member, one per measurement type at most
+router.get('/', requireAuth, requirePermission('weight:read'), (req, res) => {
+  try {
+    const memberId = Number(req.query.memberId);
+    if (!Number.isInteger(memberId)) {
+      return res.status(400).json({ error: 'memberId must be a member id' });
+    }
+
+    const goals = db.prepare(`
+      SELECT g.id, g.member_id, t.key as type, g.unit, g.encrypted_value, g.updated_at
+      FROM measurement_goals g
+      JOIN measurement_types t ON g.type_id = t.id
+      WHERE g.member_id = ?
+      ORDER BY t.key
+    `).all(memberId);
+
+    res.json(goals);
+  } catch (error) {
+    console.error('Get measurement goals error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/measurement-goals/:memberId/:type - Set a member's goal for a measurement type
+router.put('/:memberId/:type', requireAuth, requirePermission('weight:create'), (req, res) => {
+  try {
+    const memberId = Number(req.params.memberId);
+    const type = findMeasurementType(req.params.type);
+    if (!type) {
+      return res.status(404).json({ error: 'Measurement type not found' });
+    }
+    const { unit = type.unit, encryptedValue } = req.body;
+    if (typeof unit !== 'string' || !Object.hasOwn(type.units, unit)) {
+      return res.status(400).json({ error: `unit of ${type.name} must be one of ${Object.keys(type.units).join(', ')}` });
+    }
+    if (typeof encryptedValue !== 'string' || !isEnvelope(encryptedValue)) {
+      return res.status(400).json({ error: 'encryptedValue must be an encrypted value' });
+    }
+
+    const member = db.prepare('SELECT id FROM members WHERE id = ? AND deleted IS NULL').get(memberId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    db.prepare(`
+      INSERT INTO measurement_goals (member_id, type_id, unit, encrypted_value) VALUES (?, ?, ?, ?)
+      ON CONFLICT (member_id, type_id) DO UPDATE
+      SET unit = excluded.unit, encrypted_value = excluded.encrypted_value, updated_at = CURRENT_TIMESTAMP
+    `).run(memberId, type.id, unit, encryptedValue);
+
+    // The goal itself stays out of the audit log
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEASUREMENT_GOAL_UPDATE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} set the ${type.key} goal of member ${memberId}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Goal saved' });
+  } catch (error) {
+    console.error('Set measurement goal error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/measurement-goals/:memberId/:type - Remove a member's goal for a measurement type
+router.delete('/:memberId/:type', requireAuth, requirePermission('weight:create'), (req, res) => {
+  try {
+    const memberId = Number(req.params.memberId);
+    const type = findMeasurementType(req.params.type);
+    if (!type) {
+      return res.status(404).json({ error: 'Measurement type not found' });
+    }
+
+    const result = db.prepare('DELETE FROM measurement_goals WHERE member_id = ? AND type_id = ?').run(memberId, type.id);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEASUREMENT_GOAL_DELETE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} removed the ${type.key} goal of member ${memberId}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Goal removed' });
+  } catch (error) {
+    console.error('Delete measurement goal error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
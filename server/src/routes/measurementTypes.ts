@@ -0,0 +1,223 @@
+import { Router } from 'express';
+import { db, logAudit } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import {
+  KEY_PATTERN, getMeasurementTypes, findMeasurementType, parseValueSchema, getDisplayUnits
+} from '../utils/measurements.js';
+
+const router = Router();
+
+function countRecords(typeId: number): number {
+  const { count } = db.prepare('SELECT COUNT(*) as count FROM data WHERE type_id = ?').get(typeId) as { count: number };
+  return count;
+}
+
+// Name and unit as sent by a client, or an error message
+function parseLabels(body: Record<string, any>): { name: string; unit: string } | string {
+  const { name, unit = '' } = body;
+  if (typeof name !== 'string' || !name.trim() || name.length > 50) {
+    return 'name must be 1-50 characters';
+  }
+  if (typeof unit !== 'string' || unit.length > 20) {
+    return 'unit must be at most 20 characters';
+  }
+  return { name: name.trim(), unit: unit.trim() };
+}
+
+// GET /api/measurement-types - List measurement types with the number of records of each and
+// the unit the current user displays them in (null: the type's unit)
+router.get('/', requireAuth, (req, res) => {
+  try {
+    const counts = new Map((db.prepare('SELECT type_id, COUNT(*) as count FROM data GROUP BY type_id')
+      .all() as Array<{ type_id: number; count: number }>).map(r => [r.type_id, r.count]));
+    const displayUnits = getDisplayUnits(req.session.userId!);
+
+    res.json(getMeasurementTypes().map(type => ({
+      ...type,
+      record_count: counts.get(type.id) ?? 0,
+      display_unit: displayUnits.get(type.id) ?? null
+    })));
+  } catch (error) {
+    console.error('Get measurement types error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/measurement-types - Create a measurement type
+router.post('/', requireAuth, requirePermission('measurement_type:manage'), (req, res) => {
+  try {
+    const { key, valueSchema, sensitive = false } = req.body;
+
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      return res.status(400).json({ error: 'key must be 1-32 lowercase letters, digits or underscores, starting with a letter' });
+    }
+    const labels = parseLabels(req.body);
+    if (typeof labels === 'string') {
+      return res.status(400).json({ error: labels });
+    }
+    const schema = parseValueSchema(valueSchema);
+    if (typeof schema === 'string') {
+      return res.status(400).json({ error: schema });
+    }
+    if (typeof sensitive !== 'boolean') {
+      return res.status(400).json({ error: 'sensitive must be true or false' });
+    }
+
+    const result = db.prepare(`
+      INSERT INTO measurement_types (key, name, unit, value_schema, sensitive)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(key, labels.name, labels.unit, JSON.stringify(schema), sensitive ? 1 : 0);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEASUREMENT_TYPE_CREATE',
+      userId: req.session.userId,
+      details: `Created measurement type ${key} (${schema.components.map(c => c.key).join(', ')}${sensitive ? ', encrypted' : ''})`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Measurement type created', id: Number(result.lastInsertRowid) });
+  } catch (error: any) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'Measurement type already exists' });
+    }
+    console.error('Create measurement type error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/measurement-types/:key - Edit a measurement type. Its value schema and unit can only
+// change while it has no records, and not at all for built-in types: bounds are in the unit. Changing sensitivity leaves existing
+// records to be converted (see PUT /api/data/sensitivity/batch).
+router.put('/:key', requireAuth, requirePermission('measurement_type:manage'), (req, res) => {
+  try {
+    const type = findMeasurementType(req.params.key);
+    if (!type) {
+      return res.status(404).json({ error: 'Measurement type not found' });
+    }
+
+    const labels = parseLabels(req.body);
+    if (typeof labels === 'string') {
+      return res.status(400).json({ error: labels });
+    }
+    const { valueSchema, sensitive = type.sensitive } = req.body;
+    if (typeof sensitive !== 'boolean') {
+      return res.status(400).json({ error: 'sensitive must be true or false' });
+    }
+
+    let schema = type.value_schema;
+    if (valueSchema !== undefined) {
+      const parsed = parseValueSchema(valueSchema);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ error: parsed });
+      }
+      schema = parsed;
+    }
+    if (JSON.stringify(schema) !== JSON.stringify(type.value_schema) || labels.unit !== type.unit) {
+      if (type.built_in) {
+        return res.status(400).json({ error: 'The value schema and unit of built-in measurement types cannot be changed' });
+      }
+      const count = countRecords(type.id);
+      if (count > 0) {
+        return res.status(409).json({ error: `Measurement type has ${count} record(s); its value schema and unit cannot be changed` });
+      }
+    }
+
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE measurement_types SET name = ?, unit = ?, value_schema = ?, sensitive = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(labels.name, labels.unit, JSON.stringify(schema), sensitive ? 1 : 0, type.id);
+      // Display units and goals in the old unit may no longer convert
+      if (labels.unit !== type.unit) {
+        db.prepare('DELETE FROM measurement_unit_preferences WHERE type_id = ?').run(type.id);
+        db.prepare('DELETE FROM measurement_goals WHERE type_id = ?').run(type.id);
+      }
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEASUREMENT_TYPE_UPDATE',
+      userId: req.session.userId,
+      details: `Updated measurement type ${type.key}` +
+        (sensitive !== type.sensitive ? `; values ${sensitive ? 'encrypted' : 'no longer encrypted'}` : ''),
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Measurement type updated' });
+  } catch (error) {
+    console.error('Update measurement type error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/measurement-types/:key - Delete a custom measurement type without records, with any goals set for it
+router.delete('/:key', requireAuth, requirePermission('measurement_type:manage'), (req, res) => {
+  try {
+    const type = findMeasurementType(req.params.key);
+    if (!type) {
+      return res.status(404).json({ error: 'Measurement type not found' });
+    }
+    if (type.built_in) {
+      return res.status(400).json({ error: 'Built-in measurement types cannot be deleted' });
+    }
+    const count = countRecords(type.id);
+    if (count > 0) {
+      return res.status(409).json({ error: `Measurement type still has ${count} record(s)` });
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM measurement_unit_preferences WHERE type_id = ?').run(type.id);
+      db.prepare('DELETE FROM measurement_goals WHERE type_id = ?').run(type.id);
+      db.prepare('DELETE FROM measurement_types WHERE id = ?').run(type.id);
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEASUREMENT_TYPE_DELETE',
+      userId: req.session.userId,
+      details: `Deleted measurement type ${type.key}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Measurement type deleted' });
+  } catch (error) {
+    console.error('Delete measurement type error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/measurement-types/:key/display-unit - Choose the unit the current user sees a
+// measurement type's values in; null goes back to the type's unit
+router.put('/:key/display-unit', requireAuth, (req, res) => {
+  try {
+    const type = findMeasurementType(req.params.key);
+    if (!type) {
+      return res.status(404).json({ error: 'Measurement type not found' });
+    }
+    const { unit } = req.body as { unit?: unknown };
+    if (unit !== null && (typeof unit !== 'string' || !Object.hasOwn(type.units, unit))) {
+      return res.status(400).json({ error: `unit of ${type.name} must be one of ${Object.keys(type.units).join(', ')}, or null` });
+    }
+
+    if (unit === null) {
+      db.prepare('DELETE FROM measurement_unit_preferences WHERE user_id = ? AND type_id = ?')
+        .run(req.session.userId, type.id);
+    } else {
+      db.prepare(`
+        INSERT INTO measurement_unit_preferences (user_id, type_id, unit) VALUES (?, ?, ?)
+        ON CONFLICT (user_id, type_id) DO UPDATE SET unit = excluded.unit, updated_at = CURRENT_TIMESTAMP
+      `).run(req.session.userId, type.id, unit);
+    }
+
+    res.json({ message: 'Display unit saved', display_unit: unit });
+  } catch (error) {
+    console.error('Set display unit error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
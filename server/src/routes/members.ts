@@ -1,30 +1,96 @@
 import { Router } from 'express';
-import { db, logAudit } from '../models/database.js';
-import { requireAuth, requireRole } from '../middleware/auth.js';
+import { db, logAudit, ENCRYPTED_COLUMNS } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { findInvalidEnvelope } from '../utils/envelope.js';
+import { parseSearchTokens, replaceSearchTokens, parseSearchQuery, searchCondition } from '../utils/searchIndex.js';
+import {
+  SortKey, parsePageRequest, parseDeletedFilter, deletedCondition, orderBy, keysetCondition, toPage
+} from '../utils/pagination.js';
 
 const router = Router();
 
-// GET /api/members - Get all members (encrypted PII), sorted with deleted at end
-router.get('/', requireAuth, (req, res) => {
+// Most records a single bulk request may create or fill
+const MAX_BULK_SIZE = 500;
+
+// Optional search tokens sent with a member's fields: undefined if absent, null if malformed
+function searchTokensOf(body: Record<string, any>): string[] | null | undefined {
+  return body.searchTokens === undefined ? undefined : parseSearchTokens(body.searchTokens);
+}
+
+// Newest first, deleted at end
+const MEMBER_SORT: SortKey<{ id: number; deleted: string | null; created_at: string }>[] = [
+  { expr: '(m.deleted IS NOT NULL)', desc: false, value: m => m.deleted ? 1 : 0 },
+  { expr: 'm.created_at', desc: true, value: m => m.created_at },
+  { expr: 'm.id', desc: true, value: m => m.id }
+];
+
+// GET /api/members - Get members (encrypted PII), sorted with deleted at end.
+// ?q= narrows the list to members matching blind index tokens computed by the browser,
+// ?deleted=include|exclude|only filters on deleted state. With ?limit= or ?cursor= returns a page.
+router.get('/', requireAuth, requirePermission('member:read'), (req, res) => {
   try {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (typeof req.query.q === 'string' && req.query.q !== '') {
+      const terms = parseSearchQuery(req.query.q);
+      if (!terms) {
+        return res.status(400).json({ error: 'q must be a list of search tokens' });
+      }
+      const search = searchCondition(terms);
+      conditions.push(search.sql);
+      params.push(...search.params);
+    }
+
+    const deleted = parseDeletedFilter(req.query.deleted);
+    if (!deleted) {
+      return res.status(400).json({ error: 'deleted must be include, exclude or only' });
+    }
+    conditions.push(deletedCondition('m.deleted', deleted));
+
+    const page = parsePageRequest(req.query, MEMBER_SORT.length);
+    if (typeof page === 'string') {
+      return res.status(400).json({ error: page });
+    }
+    if (page) {
+      const keyset = keysetCondition(MEMBER_SORT, page.after);
+      conditions.push(keyset.sql);
+      params.push(...keyset.params);
+    }
+
     const members = db.prepare(`
-      SELECT * FROM members
-      ORDER BY
-        CASE WHEN deleted IS NULL THEN 0 ELSE 1 END,
-        created_at DESC
-    `).all();
-    res.json(members);
+      SELECT m.* FROM members m
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${orderBy(MEMBER_SORT)}
+      ${page ? 'LIMIT ?' : ''}
+    `).all(...params, ...(page ? [page.limit + 1] : [])) as Array<{ id: number; deleted: string | null; created_at: string }>;
+    res.json(page ? toPage(members, page.limit, MEMBER_SORT) : members);
   } catch (error) {
     console.error('Get members error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST /api/members - Add new member record
-router.post('/', requireAuth, requireRole(['admin-role', 'user-role']), (req, res) => {
+// Highest member id ever used. AUTOINCREMENT never hands out an id again, even after an erasure,
+// so any id above it is free. Ciphertexts are bound to the member id: the client encrypts for
+// the next free ids and sends them with the fields; if another member took one meanwhile, the
+// request fails with 409 and the client encrypts again for the new next id.
+function lastMemberId(): number {
+  const row = db.prepare(`SELECT seq FROM sqlite_sequence WHERE name = 'members'`).get() as { seq: number } | undefined;
+  return row?.seq ?? 0;
+}
+
+// POST /api/members - Add new member record in one step. Fields bound to the record need its id
+// first: encrypt for GET /api/members/next-id and create it with PUT /:id/fields.
+router.post('/', requireAuth, requirePermission('member:create'), (req, res) => {
   try {
     const { name, surname, birthdate, email, gender } = req.body;
 
+    const invalidField = findInvalidEnvelope({ name, surname, birthdate, email, gender });
+    if (invalidField) {
+      return res.status(400).json({ error: `${invalidField} must be an encrypted envelope` });
+    }
+
     const result = db.prepare(`
       INSERT INTO members (name, surname, birthdate, email, gender)
       VALUES (?, ?, ?, ?, ?)
@@ -49,8 +115,325 @@ router.post('/', requireAuth, requireRole(['admin-role', 'user-role']), (req, re
   }
 });
 
+// GET /api/members/next-id - Id the next member will get, to encrypt its fields for
+router.get('/next-id', requireAuth, requirePermission('member:create'), (req, res) => {
+  try {
+    res.json({ nextId: lastMemberId() + 1 });
+  } catch (error) {
+    console.error('Get next member id error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/members/bulk - Create the members of an import with their encrypted PII, in one
+// transaction. Each record carries the free id its fields were encrypted for (see next-id), so
+// a failed batch leaves nothing behind.
+router.post('/bulk', requireAuth, requirePermission('member:create'), (req, res) => {
+  try {
+    const { members } = req.body as { members?: Array<Record<string, any>> };
+    const columns = ENCRYPTED_COLUMNS.members;
+
+    if (!Array.isArray(members) || members.length === 0 || members.length > MAX_BULK_SIZE) {
+      return res.status(400).json({ error: `members must be a list of 1 to ${MAX_BULK_SIZE} records` });
+    }
+
+    for (const [index, member] of members.entries()) {
+      if (!Number.isInteger(member.id) || member.id < 1) {
+        return res.status(400).json({ error: `Record ${index}: id must be a positive integer` });
+      }
+      const invalidField = findInvalidEnvelope(Object.fromEntries(columns.map(c => [c, member[c]])));
+      if (invalidField) {
+        return res.status(400).json({ error: `Record ${index}: ${invalidField} must be an encrypted envelope` });
+      }
+      if (searchTokensOf(member) === null) {
+        return res.status(400).json({ error: `Record ${index}: searchTokens must be a list of search tokens` });
+      }
+    }
+
+    const ids: number[] = members.map(member => member.id);
+    if (new Set(ids).size !== ids.length) {
+      return res.status(400).json({ error: 'Each member id may appear only once' });
+    }
+    const lastId = lastMemberId();
+    const taken = ids.find(id => id <= lastId);
+    if (taken !== undefined) {
+      return res.status(409).json({ error: `Member id ${taken} is already taken, encrypt again for new ids` });
+    }
+
+    const insert = db.prepare(`INSERT INTO members (id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})`);
+    db.transaction(() => {
+      for (const member of members) {
+        insert.run(member.id, ...columns.map(c => member[c] || null));
+        replaceSearchTokens(member.id, searchTokensOf(member) ?? []);
+      }
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEMBER_IMPORT',
+      userId: req.session.userId,
+      details: `User ${req.session.username} imported ${ids.length} member record(s) (ids ${Math.min(...ids)}-${Math.max(...ids)})`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Members created', ids });
+  } catch (error) {
+    console.error('Bulk create members error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/members/search-index - How many members with searchable fields have no search tokens
+router.get('/search-index', requireAuth, requirePermission('member:read'), (req, res) => {
+  try {
+    const { indexed } = db.prepare('SELECT COUNT(DISTINCT member_id) as indexed FROM member_search_tokens')
+      .get() as { indexed: number };
+    const { unindexed } = db.prepare(`
+      SELECT COUNT(*) as unindexed FROM members m
+      WHERE (m.name IS NOT NULL OR m.surname IS NOT NULL OR m.email IS NOT NULL)
+      AND NOT EXISTS (SELECT 1 FROM member_search_tokens t WHERE t.member_id = m.id)
+    `).get() as { unindexed: number };
+    res.json({ indexed, unindexed });
+  } catch (error) {
+    console.error('Get search index status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/members/search-index - Replace the search tokens of existing members,
+// e.g. members created before the search index existed. All or nothing.
+router.put('/search-index', requireAuth, requirePermission('member:update'), (req, res) => {
+  try {
+    const { members } = req.body as { members?: Array<Record<string, any>> };
+
+    if (!Array.isArray(members) || members.length === 0 || members.length > MAX_BULK_SIZE) {
+      return res.status(400).json({ error: `members must be a list of 1 to ${MAX_BULK_SIZE} records` });
+    }
+
+    const exists = db.prepare('SELECT id FROM members WHERE id = ?');
+    for (const [index, member] of members.entries()) {
+      if (!parseSearchTokens(member.searchTokens)) {
+        return res.status(400).json({ error: `Record ${index}: searchTokens must be a list of search tokens` });
+      }
+      if (!exists.get(Number(member.id))) {
+        return res.status(404).json({ error: `Member ${member.id} not found` });
+      }
+    }
+
+    db.transaction(() => {
+      for (const member of members) {
+        replaceSearchTokens(Number(member.id), parseSearchTokens(member.searchTokens)!);
+      }
+    })();
+
+    res.json({ message: 'Search index updated', updated: members.length });
+  } catch (error) {
+    console.error('Update search index error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/members/:id/fields - Create a member with its encrypted PII under the free id its
+// fields were encrypted for (see next-id); the record only exists once its fields do.
+router.put('/:id/fields', requireAuth, requirePermission('member:create'), (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    const { name, surname, birthdate, email, gender } = req.body;
+
+    const invalidField = findInvalidEnvelope({ name, surname, birthdate, email, gender });
+    if (invalidField) {
+      return res.status(400).json({ error: `${invalidField} must be an encrypted envelope` });
+    }
+    const searchTokens = searchTokensOf(req.body);
+    if (searchTokens === null) {
+      return res.status(400).json({ error: 'searchTokens must be a list of search tokens' });
+    }
+
+    if (!Number.isInteger(id) || id < 1) {
+      return res.status(400).json({ error: 'Invalid member id' });
+    }
+    if (id <= lastMemberId()) {
+      return res.status(409).json({ error: 'Member id is already taken, encrypt again for a new id' });
+    }
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO members (id, name, surname, birthdate, email, gender) VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, name, surname, birthdate, email, gender);
+      replaceSearchTokens(id, searchTokens ?? []);
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEMBER_CREATE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} created member record id: ${id}`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Member created', id });
+  } catch (error) {
+    console.error('Create member with fields error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Encrypted PII of a members or member_history row, by column (ENCRYPTED_COLUMNS.members)
+interface MemberFieldsRow {
+  [column: string]: string | null;
+}
+
+// Encrypted PII of a member that isn't deleted
+function findMemberFields(memberId: number): MemberFieldsRow | undefined {
+  return db.prepare(`SELECT ${ENCRYPTED_COLUMNS.members.join(', ')} FROM members WHERE id = ? AND deleted IS NULL`)
+    .get(memberId) as MemberFieldsRow | undefined;
+}
+
+// Keep the current encrypted version of a member before it changes.
+// The server can't see which values differ, so the history records which fields were written.
+function saveMemberVersion(memberId: number, member: MemberFieldsRow, changedFields: string[], changedBy: number | undefined): void {
+  const columns = ENCRYPTED_COLUMNS.members;
+  db.prepare(`
+    INSERT INTO member_history (member_id, ${columns.join(', ')}, changed_fields, changed_by)
+    VALUES (?, ${columns.map(() => '?').join(', ')}, ?, ?)
+  `).run(memberId, ...columns.map(c => member[c] ?? null), changedFields.join(','), changedBy ?? null);
+}
+
+// PUT /api/members/:id - Update encrypted fields of a member.
+// Only the fields present in the body change; null clears a field. The client re-encrypts
+// each value with the member's record context, so the server never sees plaintext.
+router.put('/:id', requireAuth, requirePermission('member:update'), (req, res) => {
+  try {
+    const memberId = Number(req.params.id);
+    const fields = ENCRYPTED_COLUMNS.members.filter(column => column in req.body);
+
+    if (fields.length === 0) {
+      return res.status(400).json({ error: `Nothing to update (fields: ${ENCRYPTED_COLUMNS.members.join(', ')})` });
+    }
+
+    const invalidField = findInvalidEnvelope(Object.fromEntries(fields.map(f => [f, req.body[f]])));
+    if (invalidField) {
+      return res.status(400).json({ error: `${invalidField} must be an encrypted envelope` });
+    }
+    const searchTokens = searchTokensOf(req.body);
+    if (searchTokens === null) {
+      return res.status(400).json({ error: 'searchTokens must be a list of search tokens' });
+    }
+
+    const member = findMemberFields(memberId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    db.transaction(() => {
+      saveMemberVersion(memberId, member, fields, req.session.userId);
+      db.prepare(`UPDATE members SET ${fields.map(f => `${f} = ?`).join(', ')} WHERE id = ?`)
+        .run(...fields.map(f => req.body[f] || null), memberId);
+      if (searchTokens) {
+        replaceSearchTokens(memberId, searchTokens);
+      }
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEMBER_UPDATE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} updated member id: ${memberId} (${fields.join(', ')})`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Member updated', fields });
+  } catch (error) {
+    console.error('Update member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/members/:id/history - Prior encrypted versions of a member, newest first
+router.get('/:id/history', requireAuth, requirePermission('member:read'), (req, res) => {
+  try {
+    const memberId = Number(req.params.id);
+
+    const member = db.prepare('SELECT id FROM members WHERE id = ?').get(memberId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const versions = db.prepare(`
+      SELECT h.*, u.username as changed_by_username
+      FROM member_history h
+      LEFT JOIN users u ON h.changed_by = u.id
+      WHERE h.member_id = ?
+      ORDER BY h.id DESC
+    `).all(memberId);
+
+    res.json(versions);
+  } catch (error) {
+    console.error('Get member history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/members/:id/history/:versionId/restore - Bring back an older version of a member.
+// Its ciphertexts are bound to the same member, so they are copied back as they are;
+// the version being replaced goes into the history like any other edit.
+router.post('/:id/history/:versionId/restore', requireAuth, requirePermission('member:update'), (req, res) => {
+  try {
+    const memberId = Number(req.params.id);
+    const versionId = Number(req.params.versionId);
+    const columns = ENCRYPTED_COLUMNS.members;
+
+    const member = findMemberFields(memberId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const searchTokens = searchTokensOf(req.body);
+    if (searchTokens === null) {
+      return res.status(400).json({ error: 'searchTokens must be a list of search tokens' });
+    }
+
+    const version = db.prepare(`SELECT ${columns.join(', ')} FROM member_history WHERE id = ? AND member_id = ?`)
+      .get(versionId, memberId) as MemberFieldsRow | undefined;
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const fields = columns.filter(c => (member[c] || null) !== (version[c] || null));
+    if (fields.length === 0) {
+      return res.status(409).json({ error: 'Member already matches this version' });
+    }
+
+    db.transaction(() => {
+      saveMemberVersion(memberId, member, fields, req.session.userId);
+      db.prepare(`UPDATE members SET ${fields.map(f => `${f} = ?`).join(', ')} WHERE id = ?`)
+        .run(...fields.map(f => version[f] || null), memberId);
+      if (searchTokens) {
+        replaceSearchTokens(memberId, searchTokens);
+      }
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEMBER_UPDATE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} restored member id: ${memberId} to version ${versionId} (${fields.join(', ')})`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Member restored', fields });
+  } catch (error) {
+    console.error('Restore member version error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // DELETE /api/members/:id - Soft delete a member record
-router.delete('/:id', requireAuth, requireRole(['admin-role', 'user-role']), (req, res) => {
+router.delete('/:id', requireAuth, requirePermission('member:delete'), (req, res) => {
   try {
     const { id } = req.params;
     const deletedAt = new Date().toISOString();
@@ -78,4 +461,66 @@ router.delete('/:id', requireAuth, requireRole(['admin-role', 'user-role']), (re
   }
 });
 
+// Formats a member export can be produced in
+const EXPORT_FORMATS = ['json', 'csv'];
+
+// POST /api/members/:id/export - Log an export of a member's record.
+// The export itself is decrypted and assembled in the browser; the server only records that it happened.
+router.post('/:id/export', requireAuth, requirePermission('member:read'), (req, res) => {
+  try {
+    const memberId = Number(req.params.id);
+    const { format, passwordProtected } = req.body;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const member = db.prepare('SELECT id FROM members WHERE id = ?').get(memberId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEMBER_EXPORT',
+      userId: req.session.userId,
+      details: `User ${req.session.username} exported member id: ${memberId} as ${format}${passwordProtected ? ' (password-protected)' : ''}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Logged' });
+  } catch (error) {
+    console.error('Log member export error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/members/:id/restore - Undo the soft delete of a member record
+router.post('/:id/restore', requireAuth, requirePermission('member:delete'), (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = db.prepare('UPDATE members SET deleted = NULL WHERE id = ? AND deleted IS NOT NULL').run(id);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Member not found or not deleted' });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'MEMBER_RESTORE',
+      userId: req.session.userId,
+      details: `User ${req.session.username} restored member id: ${id}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Member restored' });
+  } catch (error) {
+    console.error('Restore member error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
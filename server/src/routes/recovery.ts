@@ -0,0 +1,199 @@
+import { Router } from 'express';
+import { db, logAudit } from '../models/database.js';
+import { requireAuth } from '../middleware/auth.js';
+import { hashPassword, hashToken, verifyToken } from '../utils/crypto.js';
+import { parseEnvelope } from '../utils/envelope.js';
+import { newKdfParams, meetsKdfPolicy, parseKdfParams } from '../utils/kdf.js';
+import { destroyUserSessions } from '../utils/sessions.js';
+
+const router = Router();
+
+// The browser derives two values from a recovery code: a key that encrypts the recovery
+// copy of the private key (never sent), and a token proving knowledge of the code.
+// The server only stores a hash of the token as verifier.
+
+interface RecoveryRow {
+  user_id: number;
+  encrypted_private_key: string;
+  verifier: string;
+}
+
+// Find the recovery entry of an active user, if the token matches
+function findRecovery(username: unknown, recoveryToken: unknown): RecoveryRow | undefined {
+  if (typeof username !== 'string' || typeof recoveryToken !== 'string') {
+    return undefined;
+  }
+  const row = db.prepare(`
+    SELECT kr.user_id, kr.encrypted_private_key, kr.verifier
+    FROM key_recovery kr
+    JOIN users u ON kr.user_id = u.id
+    WHERE u.username = ? AND u.is_active = 1
+  `).get(username) as RecoveryRow | undefined;
+
+  return row && verifyToken(recoveryToken, row.verifier) ? row : undefined;
+}
+
+// GET /api/recovery/status - Whether the current user has a recovery code
+router.get('/status', requireAuth, (req, res) => {
+  try {
+    const row = db.prepare('SELECT created_at FROM key_recovery WHERE user_id = ?')
+      .get(req.session.userId) as { created_at: string } | undefined;
+
+    res.json({ enabled: !!row, createdAt: row?.created_at ?? null });
+  } catch (error) {
+    console.error('Get recovery status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/recovery - Store (or replace) the current user's recovery copy of their private key
+router.put('/', requireAuth, (req, res) => {
+  try {
+    const { encryptedPrivateKey, recoveryToken } = req.body;
+    const userId = req.session.userId;
+
+    if (!encryptedPrivateKey || !parseEnvelope(encryptedPrivateKey)) {
+      return res.status(400).json({ error: 'encryptedPrivateKey must be an encrypted envelope' });
+    }
+    if (typeof recoveryToken !== 'string' || recoveryToken.length < 32) {
+      return res.status(400).json({ error: 'recoveryToken required' });
+    }
+
+    const keys = db.prepare(`
+      SELECT encrypted_private_key FROM key_management WHERE user_id = ?
+    `).get(userId) as { encrypted_private_key: string | null } | undefined;
+    if (!keys?.encrypted_private_key) {
+      return res.status(409).json({ error: 'Set up encryption keys first' });
+    }
+
+    db.prepare(`
+      INSERT INTO key_recovery (user_id, encrypted_private_key, verifier)
+      VALUES (?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        encrypted_private_key = excluded.encrypted_private_key,
+        verifier = excluded.verifier,
+        created_at = CURRENT_TIMESTAMP
+    `).run(userId, encryptedPrivateKey, hashToken(recoveryToken));
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'RECOVERY_SETUP',
+      userId,
+      details: `User ${req.session.username} created a recovery code`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Recovery code stored' });
+  } catch (error) {
+    console.error('Store recovery error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/recovery - Remove the current user's recovery code
+router.delete('/', requireAuth, (req, res) => {
+  try {
+    db.prepare('DELETE FROM key_recovery WHERE user_id = ?').run(req.session.userId);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'RECOVERY_SETUP',
+      userId: req.session.userId,
+      details: `User ${req.session.username} removed their recovery code`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Recovery code removed' });
+  } catch (error) {
+    console.error('Delete recovery error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/recovery/start - Get the recovery copy of the private key (no login required)
+router.post('/start', (req, res) => {
+  const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+  try {
+    const { username, recoveryToken } = req.body;
+
+    const row = findRecovery(username, recoveryToken);
+    if (!row) {
+      logAudit({
+        action: 'KEY_RECOVER',
+        details: `Failed recovery attempt for username: ${username}`,
+        ipAddress,
+        success: false
+      });
+      return res.status(401).json({ error: 'Invalid username or recovery code' });
+    }
+
+    // KDF parameters for the KEK of the new password
+    res.json({ encryptedPrivateKey: row.encrypted_private_key, kdfParams: newKdfParams() });
+  } catch (error) {
+    console.error('Start recovery error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/recovery/complete - Set a new password and private key ciphertext (no login required).
+// The used recovery code is replaced by a new one, and all sessions of the user end.
+router.post('/complete', async (req, res) => {
+  const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+  try {
+    const { username, recoveryToken, newPassword, encryptedPrivateKey, kdfParams, newRecovery } = req.body;
+
+    const row = findRecovery(username, recoveryToken);
+    if (!row) {
+      logAudit({
+        action: 'KEY_RECOVER',
+        details: `Failed recovery attempt for username: ${username}`,
+        ipAddress,
+        success: false
+      });
+      return res.status(401).json({ error: 'Invalid username or recovery code' });
+    }
+
+    const params = parseKdfParams(kdfParams);
+    if (!newPassword || !params || !meetsKdfPolicy(params)) {
+      return res.status(400).json({ error: 'newPassword and valid kdfParams required' });
+    }
+    if (!encryptedPrivateKey || !parseEnvelope(encryptedPrivateKey) ||
+        !newRecovery?.encryptedPrivateKey || !parseEnvelope(newRecovery.encryptedPrivateKey) ||
+        typeof newRecovery.recoveryToken !== 'string' || newRecovery.recoveryToken.length < 32) {
+      return res.status(400).json({ error: 'encryptedPrivateKey and newRecovery required' });
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+
+    const recover = db.transaction(() => {
+      db.prepare('UPDATE users SET password_hash = ? WHERE id = ?')
+        .run(passwordHash, row.user_id);
+      db.prepare('UPDATE key_management SET encrypted_private_key = ?, kdf_params = ? WHERE user_id = ?')
+        .run(encryptedPrivateKey, JSON.stringify(params), row.user_id);
+      db.prepare(`
+        UPDATE key_recovery SET encrypted_private_key = ?, verifier = ?, created_at = CURRENT_TIMESTAMP
+        WHERE user_id = ?
+      `).run(newRecovery.encryptedPrivateKey, hashToken(newRecovery.recoveryToken), row.user_id);
+    });
+    recover();
+
+    const sessionsEnded = await destroyUserSessions(req.sessionStore, row.user_id);
+
+    logAudit({
+      action: 'KEY_RECOVER',
+      userId: row.user_id,
+      details: `User ${username} recovered access with a recovery code (${sessionsEnded} session(s) ended)`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Access recovered. Log in with your new password.' });
+  } catch (error) {
+    console.error('Complete recovery error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
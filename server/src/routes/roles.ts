@@ -0,0 +1,221 @@
+import { Router } from 'express';
+import { db, logAudit, PERMISSIONS, BUILT_IN_ROLES, isPermission } from '../models/database.js';
+import { requireAuth, requirePermission, invalidatePermissions } from '../middleware/auth.js';
+
+const router = Router();
+
+const ROLE_NAME = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+function getRole(id: number): { id: number; name: string } | undefined {
+  return db.prepare('SELECT id, name FROM roles WHERE id = ?').get(id) as { id: number; name: string } | undefined;
+}
+
+// GET /api/roles - List roles with the number of users holding each
+router.get('/', requireAuth, (req, res) => {
+  try {
+    const roles = db.prepare(`
+      SELECT r.id, r.name, COUNT(km.user_id) as user_count
+      FROM roles r
+      LEFT JOIN key_management km ON km.role_id = r.id
+      GROUP BY r.id
+      ORDER BY r.id
+    `).all() as Array<{ id: number; name: string; user_count: number }>;
+
+    res.json(roles.map(role => ({ ...role, built_in: BUILT_IN_ROLES.includes(role.name) })));
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/roles - Create a role, optionally with capabilities
+router.post('/', requireAuth, requirePermission('roles:manage'), (req, res) => {
+  try {
+    const { name, permissions = [] } = req.body;
+
+    if (typeof name !== 'string' || !ROLE_NAME.test(name)) {
+      return res.status(400).json({ error: 'name must be 1-50 lowercase letters, digits or hyphens' });
+    }
+    if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+      return res.status(400).json({ error: 'permissions must be a list of known capabilities' });
+    }
+
+    const insert = db.prepare('INSERT INTO permissions (role_id, permission) VALUES (?, ?)');
+    const roleId = db.transaction(() => {
+      const result = db.prepare('INSERT INTO roles (name) VALUES (?)').run(name);
+      for (const permission of new Set<string>(permissions)) {
+        insert.run(result.lastInsertRowid, permission);
+      }
+      return Number(result.lastInsertRowid);
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ROLE_CREATE',
+      userId: req.session.userId,
+      details: `Created role ${name} with capabilities [${permissions.join(', ')}]`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Role created', id: roleId });
+  } catch (error: any) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'Role already exists' });
+    }
+    console.error('Create role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/roles/:id - Rename a role
+router.patch('/:id', requireAuth, requirePermission('roles:manage'), (req, res) => {
+  try {
+    const { name } = req.body;
+
+    if (typeof name !== 'string' || !ROLE_NAME.test(name)) {
+      return res.status(400).json({ error: 'name must be 1-50 lowercase letters, digits or hyphens' });
+    }
+
+    const role = getRole(Number(req.params.id));
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    if (BUILT_IN_ROLES.includes(role.name)) {
+      return res.status(400).json({ error: 'Built-in roles cannot be renamed' });
+    }
+
+    db.prepare('UPDATE roles SET name = ? WHERE id = ?').run(name, role.id);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ROLE_UPDATE',
+      userId: req.session.userId,
+      details: `Renamed role ${role.name} to ${name}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Role renamed' });
+  } catch (error: any) {
+    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'Role already exists' });
+    }
+    console.error('Rename role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/roles/:id - Delete a role no user holds
+router.delete('/:id', requireAuth, requirePermission('roles:manage'), (req, res) => {
+  try {
+    const role = getRole(Number(req.params.id));
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    if (BUILT_IN_ROLES.includes(role.name)) {
+      return res.status(400).json({ error: 'Built-in roles cannot be deleted' });
+    }
+
+    const { count } = db.prepare('SELECT COUNT(*) as count FROM key_management WHERE role_id = ?')
+      .get(role.id) as { count: number };
+    if (count > 0) {
+      return res.status(409).json({ error: `Role is still assigned to ${count} user(s)` });
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM permissions WHERE role_id = ?').run(role.id);
+      db.prepare('DELETE FROM roles WHERE id = ?').run(role.id);
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'ROLE_DELETE',
+      userId: req.session.userId,
+      details: `Deleted role ${role.name}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Role deleted' });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/roles/permissions - Capability catalog and the capabilities of each role
+router.get('/permissions', requireAuth, requirePermission('roles:manage'), (req, res) => {
+  try {
+    const roles = db.prepare('SELECT id, name FROM roles ORDER BY id').all() as Array<{ id: number; name: string }>;
+    const grants = db.prepare('SELECT role_id, permission FROM permissions')
+      .all() as Array<{ role_id: number; permission: string }>;
+
+    res.json({
+      permissions: PERMISSIONS,
+      roles: roles.map(role => ({
+        ...role,
+        permissions: grants.filter(g => g.role_id === role.id).map(g => g.permission)
+      }))
+    });
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/roles/:id/permissions - Replace the capabilities of a role
+router.put('/:id/permissions', requireAuth, requirePermission('roles:manage'), (req, res) => {
+  try {
+    const roleId = Number(req.params.id);
+    const { permissions } = req.body;
+
+    if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+      return res.status(400).json({ error: 'permissions must be a list of known capabilities' });
+    }
+
+    const role = getRole(roleId);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    // Nobody could grant it back
+    const ownRole = db.prepare('SELECT role_id FROM key_management WHERE user_id = ?')
+      .get(req.session.userId) as { role_id: number } | undefined;
+    if (ownRole?.role_id === roleId && !permissions.includes('roles:manage')) {
+      return res.status(400).json({ error: 'You cannot remove roles:manage from your own role' });
+    }
+
+    const previous = new Set((db.prepare('SELECT permission FROM permissions WHERE role_id = ?')
+      .all(roleId) as Array<{ permission: string }>).map(r => r.permission));
+    const next = new Set<string>(permissions);
+
+    const insert = db.prepare('INSERT INTO permissions (role_id, permission) VALUES (?, ?)');
+    db.transaction(() => {
+      db.prepare('DELETE FROM permissions WHERE role_id = ?').run(roleId);
+      for (const permission of next) {
+        insert.run(roleId, permission);
+      }
+    })();
+    invalidatePermissions();
+
+    const added = [...next].filter(p => !previous.has(p));
+    const removed = [...previous].filter(p => !next.has(p));
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'PERMISSION_CHANGE',
+      userId: req.session.userId,
+      details: `Changed capabilities of ${role.name}: added [${added.join(', ')}], removed [${removed.join(', ')}]`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Permissions updated', permissions: [...next] });
+  } catch (error) {
+    console.error('Update permissions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,288 @@
+import { Router } from 'express';
+import { db, logAudit, ENCRYPTED_COLUMNS, ENCRYPTED_RECORD_KEYS, ENCRYPTED_CONTEXT_TABLES, getCurrentDataKeyVersion, getSetting, setSetting } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { envelopeKeyPrefix, parseEnvelope } from '../utils/envelope.js';
+import { parseSearchTokens, replaceSearchTokens } from '../utils/searchIndex.js';
+import { getActiveRotation, KEY_HOLDER_CONDITION } from '../utils/keyRotation.js';
+
+const router = Router();
+
+const MAX_BATCH_SIZE = 200;
+
+// SQL condition matching rows with at least one column not yet encrypted with the given key version.
+// Envelopes for one key id share a fixed base64 prefix, so the server can match them without the key.
+function staleCondition(table: string): string {
+  return '(' + ENCRYPTED_COLUMNS[table]
+    .map(col => `(${col} IS NOT NULL AND ${col} != '' AND ${col} NOT LIKE ?)`)
+    .join(' OR ') + ')';
+}
+
+function staleParams(table: string, version: number): string[] {
+  return ENCRYPTED_COLUMNS[table].map(() => `${envelopeKeyPrefix(version)}%`);
+}
+
+function countRemaining(version: number): Record<string, number> {
+  const remaining: Record<string, number> = {};
+  for (const table of Object.keys(ENCRYPTED_COLUMNS)) {
+    const { count } = db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE ${staleCondition(table)}`)
+      .get(...staleParams(table, version)) as { count: number };
+    remaining[table] = count;
+  }
+  return remaining;
+}
+
+// GET /api/keys/rotation/status - Current data key version and rotation progress
+router.get('/status', requireAuth, requirePermission('keys:rotate'), (req, res) => {
+  try {
+    const rotation = getActiveRotation();
+
+    res.json({
+      currentVersion: getCurrentDataKeyVersion(),
+      rotationRequired: getSetting('data_key_rotation_required'),
+      rotation: rotation ? {
+        id: rotation.id,
+        fromVersion: rotation.from_version,
+        toVersion: rotation.to_version,
+        startedAt: rotation.started_at,
+        accessRevokedAt: rotation.access_revoked_at,
+        remaining: countRemaining(rotation.to_version)
+      } : null
+    });
+  } catch (error) {
+    console.error('Get rotation status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/keys/rotation/recipients - Active users holding the current data key (need the new one too)
+router.get('/recipients', requireAuth, requirePermission('keys:rotate'), (req, res) => {
+  try {
+    const recipients = db.prepare(`
+      SELECT km.user_id, u.username, km.public_key
+      FROM key_management km
+      JOIN users u ON km.user_id = u.id
+      WHERE ${KEY_HOLDER_CONDITION}
+    `).all();
+
+    res.json(recipients);
+  } catch (error) {
+    console.error('Get rotation recipients error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/rotation/start - Store the new data key wrapped for every recipient
+router.post('/start', requireAuth, requirePermission('keys:rotate'), (req, res) => {
+  try {
+    const { wrappedKeys } = req.body as { wrappedKeys?: Array<{ userId: number; wrappedDataKey: string }> };
+
+    if (!Array.isArray(wrappedKeys) || wrappedKeys.length === 0) {
+      return res.status(400).json({ error: 'wrappedKeys required' });
+    }
+
+    if (getActiveRotation()) {
+      return res.status(409).json({ error: 'A data key rotation is already in progress' });
+    }
+
+    if (!wrappedKeys.some(k => Number(k.userId) === req.session.userId)) {
+      return res.status(400).json({ error: 'The new data key must be wrapped for the rotating admin' });
+    }
+
+    // The new key only goes to current recipients; anyone else needs keys:grant first
+    const holders = new Set((db.prepare(`
+      SELECT km.user_id FROM key_management km JOIN users u ON km.user_id = u.id WHERE ${KEY_HOLDER_CONDITION}
+    `).all() as Array<{ user_id: number }>).map(r => r.user_id));
+    const outsider = wrappedKeys.find(k => !holders.has(Number(k.userId)));
+    if (outsider) {
+      return res.status(400).json({ error: `User ${outsider.userId} is not an active holder of the current data key` });
+    }
+
+    // Versions of aborted rotations are skipped, their keys may have been handed out
+    const fromVersion = getCurrentDataKeyVersion();
+    const { maxVersion } = db.prepare('SELECT MAX(to_version) as maxVersion FROM data_key_rotations').get() as { maxVersion: number | null };
+    const toVersion = Math.max(fromVersion, maxVersion ?? 0) + 1;
+
+    const start = db.transaction(() => {
+      const setPending = db.prepare(`
+        UPDATE key_management SET pending_wrapped_data_key = ? WHERE user_id = ?
+      `);
+      for (const { userId, wrappedDataKey } of wrappedKeys) {
+        if (!userId || !wrappedDataKey) {
+          throw new Error('Each wrapped key needs userId and wrappedDataKey');
+        }
+        setPending.run(wrappedDataKey, userId);
+      }
+
+      return db.prepare(`
+        INSERT INTO data_key_rotations (from_version, to_version, started_by)
+        VALUES (?, ?, ?)
+      `).run(fromVersion, toVersion, req.session.userId).lastInsertRowid;
+    });
+
+    const rotationId = start();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'KEY_ROTATE',
+      userId: req.session.userId,
+      details: `Admin started data key rotation from version ${fromVersion} to ${toVersion} (${wrappedKeys.length} recipients)`,
+      ipAddress,
+      success: true
+    });
+
+    res.status(201).json({ message: 'Rotation started', id: rotationId, fromVersion, toVersion });
+  } catch (error: any) {
+    if (error.message?.startsWith('Each wrapped key')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Start rotation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/keys/rotation/batch - Next rows still encrypted with an older data key version
+router.get('/batch', requireAuth, requirePermission('keys:rotate'), (req, res) => {
+  try {
+    const table = String(req.query.table || '');
+    const afterId = Number(req.query.afterId) || 0;
+    const limit = Math.min(Number(req.query.limit) || 50, MAX_BATCH_SIZE);
+
+    if (!ENCRYPTED_COLUMNS[table]) {
+      return res.status(400).json({ error: 'Unknown table' });
+    }
+
+    const rotation = getActiveRotation();
+    if (!rotation) {
+      return res.status(409).json({ error: 'No data key rotation in progress' });
+    }
+
+    const rows = db.prepare(`
+      SELECT id, ${ENCRYPTED_RECORD_KEYS[table]} as record_id, ${ENCRYPTED_COLUMNS[table].join(', ')}
+      FROM ${table}
+      WHERE id > ? AND ${staleCondition(table)}
+      ORDER BY id
+      LIMIT ?
+    `).all(afterId, ...staleParams(table, rotation.to_version), limit);
+
+    res.json({
+      table,
+      contextTable: ENCRYPTED_CONTEXT_TABLES[table] || table,
+      columns: ENCRYPTED_COLUMNS[table],
+      rows
+    });
+  } catch (error) {
+    console.error('Get rotation batch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/rotation/batch - Store re-encrypted rows
+router.post('/batch', requireAuth, requirePermission('keys:rotate'), (req, res) => {
+  try {
+    const { table, rows } = req.body as { table?: string; rows?: Array<Record<string, any>> };
+
+    if (!table || !ENCRYPTED_COLUMNS[table]) {
+      return res.status(400).json({ error: 'Unknown table' });
+    }
+    if (!Array.isArray(rows)) {
+      return res.status(400).json({ error: 'rows required' });
+    }
+
+    const rotation = getActiveRotation();
+    if (!rotation) {
+      return res.status(409).json({ error: 'No data key rotation in progress' });
+    }
+
+    const columns = ENCRYPTED_COLUMNS[table];
+    for (const row of rows) {
+      for (const col of columns) {
+        const value = row[col];
+        if (value && parseEnvelope(value)?.keyId !== rotation.to_version) {
+          return res.status(400).json({ error: `Row ${row.id} column ${col} is not encrypted with key version ${rotation.to_version}` });
+        }
+      }
+      // Members come with their search tokens recomputed under the new key
+      if (table === 'members' && row.searchTokens !== undefined && !parseSearchTokens(row.searchTokens)) {
+        return res.status(400).json({ error: `Row ${row.id} searchTokens must be a list of search tokens` });
+      }
+    }
+
+    const update = db.prepare(`
+      UPDATE ${table} SET ${columns.map(col => `${col} = ?`).join(', ')} WHERE id = ?
+    `);
+    const store = db.transaction(() => {
+      for (const row of rows) {
+        update.run(...columns.map(col => row[col] ?? null), row.id);
+        if (table === 'members' && row.searchTokens !== undefined) {
+          replaceSearchTokens(row.id, parseSearchTokens(row.searchTokens)!);
+        }
+      }
+    });
+    store();
+
+    res.json({ message: 'Batch stored', updated: rows.length });
+  } catch (error) {
+    console.error('Store rotation batch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/keys/rotation/complete - Make the new data key current once nothing uses the old one
+router.post('/complete', requireAuth, requirePermission('keys:rotate'), (req, res) => {
+  try {
+    const rotation = getActiveRotation();
+    if (!rotation) {
+      return res.status(409).json({ error: 'No data key rotation in progress' });
+    }
+
+    const remaining = countRemaining(rotation.to_version);
+    const total = Object.values(remaining).reduce((sum, n) => sum + n, 0);
+    if (total > 0) {
+      return res.status(409).json({ error: `${total} row(s) still use an older data key`, remaining });
+    }
+
+    const complete = db.transaction(() => {
+      // Users who only hold the old key lose it; everyone else switches to the new one
+      db.prepare(`
+        UPDATE key_management
+        SET wrapped_data_key = COALESCE(pending_wrapped_data_key, ''),
+            data_key_version = ?,
+            pending_wrapped_data_key = NULL
+        WHERE pending_wrapped_data_key IS NOT NULL
+        OR (wrapped_data_key IS NOT NULL AND wrapped_data_key != '' AND wrapped_data_key != 'SEED_WRAPPED_KEY_PLACEHOLDER')
+      `).run(rotation.to_version);
+
+      db.prepare(`
+        UPDATE data_key_rotations SET status = 'completed', completed_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(rotation.id);
+
+      // A revoke during the rotation may have leaked the new key, so another rotation is still required
+      if (rotation.access_revoked_at) {
+        setSetting('data_key_rotation_required', `Access was revoked during the rotation to version ${rotation.to_version}`);
+      } else {
+        setSetting('data_key_rotation_required', null);
+      }
+    });
+    complete();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'KEY_ROTATE',
+      userId: req.session.userId,
+      details: `Admin completed data key rotation to version ${rotation.to_version}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({
+      message: 'Rotation completed',
+      currentVersion: rotation.to_version,
+      rotationRequired: getSetting('data_key_rotation_required')
+    });
+  } catch (error) {
+    console.error('Complete rotation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
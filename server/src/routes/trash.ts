@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { db, logAudit, getSetting, setSetting } from '../models/database.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+
+const router = Router();
+
+// Soft-deleted members and weight records are kept this many days before they can be purged
+const DEFAULT_RETENTION_DAYS = 30;
+const MAX_RETENTION_DAYS = 3650;
+
+function getRetentionDays(): number {
+  const value = getSetting('trash_retention_days');
+  return value === null ? DEFAULT_RETENTION_DAYS : Number(value);
+}
+
+// Records deleted at or before this instant are past the retention period.
+// Deletion timestamps are ISO strings, so they compare as text.
+function retentionCutoff(retentionDays: number): string {
+  return new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function countPurgeable(cutoff: string): { members: number; weights: number } {
+  const { members } = db.prepare('SELECT COUNT(*) as members FROM members WHERE deleted IS NOT NULL AND deleted <= ?')
+    .get(cutoff) as { members: number };
+  // Weight records go with their member, even when they are not deleted themselves
+  const { weights } = db.prepare(`
+    SELECT COUNT(*) as weights FROM data d
+    LEFT JOIN members m ON d.member_id = m.id
+    WHERE (d.deleted IS NOT NULL AND d.deleted <= ?)
+    OR (m.deleted IS NOT NULL AND m.deleted <= ?)
+  `).get(cutoff, cutoff) as { weights: number };
+  return { members, weights };
+}
+
+// GET /api/trash/settings - Retention period and how many records it lets us purge now
+router.get('/settings', requireAuth, (req, res) => {
+  try {
+    const retentionDays = getRetentionDays();
+    res.json({
+      retentionDays,
+      purgeable: countPurgeable(retentionCutoff(retentionDays))
+    });
+  } catch (error) {
+    console.error('Get trash settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/trash/settings - Change the retention period
+router.put('/settings', requireAuth, requirePermission('trash:purge'), (req, res) => {
+  try {
+    const retentionDays = Number(req.body.retentionDays);
+
+    if (!Number.isInteger(retentionDays) || retentionDays < 0 || retentionDays > MAX_RETENTION_DAYS) {
+      return res.status(400).json({ error: `retentionDays must be a whole number between 0 and ${MAX_RETENTION_DAYS}` });
+    }
+
+    const previous = getRetentionDays();
+    setSetting('trash_retention_days', String(retentionDays));
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'TRASH_RETENTION_UPDATE',
+      userId: req.session.userId,
+      details: `Trash retention changed from ${previous} to ${retentionDays} day(s)`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({
+      retentionDays,
+      purgeable: countPurgeable(retentionCutoff(retentionDays))
+    });
+  } catch (error) {
+    console.error('Update trash settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/trash/purge - Permanently erase members and weight records deleted before the retention period.
+// A purged member takes its measurements, goals, edit history and search tokens with it.
+router.post('/purge', requireAuth, requirePermission('trash:purge'), (req, res) => {
+  try {
+    const retentionDays = getRetentionDays();
+    const cutoff = retentionCutoff(retentionDays);
+
+    const purged = db.transaction(() => {
+      const memberIds = (db.prepare('SELECT id FROM members WHERE deleted IS NOT NULL AND deleted <= ?')
+        .all(cutoff) as Array<{ id: number }>).map(m => m.id);
+      const placeholders = memberIds.map(() => '?').join(', ');
+
+      let weights = db.prepare('DELETE FROM data WHERE deleted IS NOT NULL AND deleted <= ?').run(cutoff).changes;
+      if (memberIds.length > 0) {
+        weights += db.prepare(`DELETE FROM data WHERE member_id IN (${placeholders})`).run(...memberIds).changes;
+        db.prepare(`DELETE FROM member_history WHERE member_id IN (${placeholders})`).run(...memberIds);
+        db.prepare(`DELETE FROM member_search_tokens WHERE member_id IN (${placeholders})`).run(...memberIds);
+        db.prepare(`DELETE FROM measurement_goals WHERE member_id IN (${placeholders})`).run(...memberIds);
+        db.prepare(`DELETE FROM members WHERE id IN (${placeholders})`).run(...memberIds);
+      }
+      return { members: memberIds.length, weights };
+    })();
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'TRASH_PURGE',
+      userId: req.session.userId,
+      details: `Purged ${purged.members} member(s) and ${purged.weights} weight record(s) deleted before ${cutoff} (retention ${retentionDays} day(s))`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'Trash purged', retentionDays, purged });
+  } catch (error) {
+    console.error('Purge trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,12 +1,25 @@
-import { Router } from 'express';
-import { db, logAudit } from '../models/database.js';
-import { requireAuth, requireAdmin } from '../middleware/auth.js';
+import { Router, Request, Response } from 'express';
+import { db, logAudit, ENCRYPTED_COLUMNS } from '../models/database.js';
+import { requireAuth, requirePermission, hasPermission, invalidatePermissions } from '../middleware/auth.js';
+import { destroyUserSessions } from '../utils/sessions.js';
+import { SEED_USERNAME, isSeedRetired } from '../utils/bootstrap.js';
 import { hashPassword } from '../utils/crypto.js';
+import { findInvalidEnvelope } from '../utils/envelope.js';
+import { newKdfParams } from '../utils/kdf.js';
 
 const router = Router();
 
+function findRole(roleId: number): { id: number; name: string } | undefined {
+  return db.prepare('SELECT id, name FROM roles WHERE id = ?').get(roleId) as { id: number; name: string } | undefined;
+}
+
+function findUsername(userId: number): string | undefined {
+  const user = db.prepare('SELECT username FROM users WHERE id = ?').get(userId) as { username: string } | undefined;
+  return user?.username;
+}
+
 // GET /api/users - List all users (encrypted PII)
-router.get('/', requireAuth, (req, res) => {
+router.get('/', requireAuth, requirePermission('user:read'), (req, res) => {
   try {
     const users = db.prepare(`
       SELECT u.id, u.username, u.name, u.surname, u.birthdate, u.email, u.is_active, u.created_at,
@@ -24,14 +37,26 @@ router.get('/', requireAuth, (req, res) => {
 });
 
 // POST /api/users - Create new user
-router.post('/', requireAuth, requireAdmin, async (req, res) => {
+router.post('/', requireAuth, requirePermission('user:create'), async (req, res) => {
   try {
-    const { username, password, name, surname, birthdate, email, roleId, publicKey } = req.body;
+    const { username, password, name, surname, birthdate, email, roleName, roleId, publicKey } = req.body;
 
     if (!username || !password) {
       return res.status(400).json({ error: 'Username and password required' });
     }
 
+    const invalidField = findInvalidEnvelope({ name, surname, birthdate, email });
+    if (invalidField) {
+      return res.status(400).json({ error: `${invalidField} must be an encrypted envelope` });
+    }
+
+    // Role by name, view-role if not specified; roleId is the name field of earlier clients
+    const role = db.prepare('SELECT id, name FROM roles WHERE name = ?')
+      .get(roleName || roleId || 'view-role') as { id: number; name: string } | undefined;
+    if (!role) {
+      return res.status(400).json({ error: 'Unknown role' });
+    }
+
     const passwordHash = await hashPassword(password);
 
     const result = db.prepare(`
@@ -41,21 +66,17 @@ router.post('/', requireAuth, requireAdmin, async (req, res) => {
 
     const userId = result.lastInsertRowid;
 
-    // Role defaults to view-role if not specified
-    const role = db.prepare('SELECT id FROM roles WHERE name = ?')
-      .get(roleId ? roleId : 'view-role') as { id: number };
-
     db.prepare(`
-      INSERT INTO key_management (user_id, role_id, public_key)
-      VALUES (?, ?, ?)
-    `).run(userId, role.id, publicKey || '');
+      INSERT INTO key_management (user_id, role_id, public_key, kdf_params)
+      VALUES (?, ?, ?, ?)
+    `).run(userId, role.id, publicKey || '', JSON.stringify(newKdfParams()));
 
     const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
     logAudit({
       action: 'USER_CREATE',
       userId: req.session.userId,
       targetUserId: userId as number,
-      details: `Created user ${username} with role ${roleId || 'view-role'}`,
+      details: `Created user ${username} with role ${role.name}`,
       ipAddress,
       success: true
     });
@@ -73,4 +94,213 @@ router.post('/', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// Updates the encrypted PII fields and/or role of a user; changing the role also needs roles:assign
+function updateUser(req: Request, res: Response) {
+  try {
+    const userId = Number(req.params.id);
+    const fields = ENCRYPTED_COLUMNS.users.filter(column => column in req.body);
+    const roleId = req.body.roleId === undefined ? undefined : Number(req.body.roleId);
+
+    if (fields.length === 0 && roleId === undefined) {
+      return res.status(400).json({ error: `Nothing to update (fields: ${ENCRYPTED_COLUMNS.users.join(', ')}, roleId)` });
+    }
+
+    const invalidField = findInvalidEnvelope(Object.fromEntries(fields.map(f => [f, req.body[f]])));
+    if (invalidField) {
+      return res.status(400).json({ error: `${invalidField} must be an encrypted envelope` });
+    }
+
+    const role = roleId === undefined ? undefined : findRole(roleId);
+    if (roleId !== undefined) {
+      if (!hasPermission(req.session.userId, 'roles:assign')) {
+        return res.status(403).json({ error: 'Permission roles:assign required' });
+      }
+      if (userId === req.session.userId) {
+        return res.status(400).json({ error: 'You cannot change your own role' });
+      }
+      if (!role) {
+        return res.status(400).json({ error: 'Unknown role' });
+      }
+    }
+
+    const user = db.prepare(`
+      SELECT u.username, r.name as role_name
+      FROM users u
+      JOIN key_management km ON km.user_id = u.id
+      JOIN roles r ON km.role_id = r.id
+      WHERE u.id = ?
+    `).get(userId) as { username: string; role_name: string } | undefined;
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    db.transaction(() => {
+      if (fields.length > 0) {
+        db.prepare(`UPDATE users SET ${fields.map(f => `${f} = ?`).join(', ')} WHERE id = ?`)
+          .run(...fields.map(f => req.body[f] || null), userId);
+      }
+      if (role) {
+        db.prepare('UPDATE key_management SET role_id = ? WHERE user_id = ?').run(role.id, userId);
+      }
+    })();
+    if (role) {
+      invalidatePermissions(userId);
+    }
+
+    const changes = role ? [...fields, `role (from ${user.role_name} to ${role.name})`] : fields;
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'USER_UPDATE',
+      userId: req.session.userId,
+      targetUserId: userId,
+      details: `Updated ${changes.join(', ')} of user ${user.username}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'User updated' });
+  } catch (error) {
+    console.error('Update user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// PATCH /api/users/:id - Update a user's encrypted PII fields and/or role
+router.patch('/:id', requireAuth, requirePermission('user:update'), updateUser);
+
+// PUT /api/users/:id/role - Change a user's role (same as PATCH /:id with only roleId)
+router.put('/:id/role', requireAuth, requirePermission('roles:assign'), (req, res) => {
+  if (req.body.roleId === undefined) {
+    return res.status(400).json({ error: 'roleId required' });
+  }
+  req.body = { roleId: req.body.roleId };
+  updateUser(req, res);
+});
+
+// POST /api/users/:id/deactivate - Block logins and end the user's live sessions
+router.post('/:id/deactivate', requireAuth, requirePermission('user:deactivate'), async (req, res) => {
+  try {
+    const userId = Number(req.params.id);
+
+    if (userId === req.session.userId) {
+      return res.status(400).json({ error: 'You cannot deactivate your own account' });
+    }
+
+    const username = findUsername(userId);
+    if (!username) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    db.prepare('UPDATE users SET is_active = 0 WHERE id = ?').run(userId);
+    const sessionsEnded = await destroyUserSessions(req.sessionStore, userId);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'USER_DEACTIVATE',
+      userId: req.session.userId,
+      targetUserId: userId,
+      details: `Deactivated user ${username} (${sessionsEnded} session(s) ended)`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'User deactivated', sessionsEnded });
+  } catch (error) {
+    console.error('Deactivate user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/users/:id/reactivate - Allow a deactivated user to log in again
+router.post('/:id/reactivate', requireAuth, requirePermission('user:deactivate'), (req, res) => {
+  try {
+    const userId = Number(req.params.id);
+
+    const username = findUsername(userId);
+    if (!username) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (username === SEED_USERNAME && isSeedRetired()) {
+      return res.status(409).json({ error: 'The seed account has been retired and cannot be reactivated' });
+    }
+
+    db.prepare('UPDATE users SET is_active = 1 WHERE id = ?').run(userId);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'USER_REACTIVATE',
+      userId: req.session.userId,
+      targetUserId: userId,
+      details: `Reactivated user ${username}`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'User reactivated' });
+  } catch (error) {
+    console.error('Reactivate user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/users/:id - Permanently delete a user with their keys and settings
+router.delete('/:id', requireAuth, requirePermission('user:delete'), async (req, res) => {
+  try {
+    const userId = Number(req.params.id);
+
+    if (userId === req.session.userId) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const username = findUsername(userId);
+    if (!username) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Escrow records name their custodians and must stay verifiable
+    const { count } = db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM key_escrows WHERE created_by = ?) +
+        (SELECT COUNT(*) FROM key_escrow_shares WHERE custodian_id = ?) +
+        (SELECT COUNT(*) FROM escrow_ceremonies WHERE target_user_id = ? OR started_by = ?) +
+        (SELECT COUNT(*) FROM escrow_approvals WHERE custodian_id = ?) as count
+    `).get(userId, userId, userId, userId, userId) as { count: number };
+    if (count > 0) {
+      return res.status(409).json({ error: 'User took part in the data key escrow - deactivate them instead' });
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM llm_settings WHERE user_id = ?').run(userId);
+      db.prepare('DELETE FROM measurement_unit_preferences WHERE user_id = ?').run(userId);
+      db.prepare('DELETE FROM key_recovery WHERE user_id = ?').run(userId);
+      db.prepare('DELETE FROM key_management WHERE user_id = ?').run(userId);
+      // Past entries keep their details (which name the user) but no longer point at the row
+      db.prepare('UPDATE audit_log SET user_id = NULL WHERE user_id = ?').run(userId);
+      db.prepare('UPDATE audit_log SET target_user_id = NULL WHERE target_user_id = ?').run(userId);
+      db.prepare('UPDATE data_key_rotations SET started_by = NULL WHERE started_by = ?').run(userId);
+      db.prepare('UPDATE member_history SET changed_by = NULL WHERE changed_by = ?').run(userId);
+      db.prepare('UPDATE erasure_requests SET requested_by = NULL WHERE requested_by = ?').run(userId);
+      db.prepare('UPDATE erasure_requests SET completed_by = NULL WHERE completed_by = ?').run(userId);
+      db.prepare('DELETE FROM users WHERE id = ?').run(userId);
+    })();
+
+    const sessionsEnded = await destroyUserSessions(req.sessionStore, userId);
+    invalidatePermissions(userId);
+
+    const ipAddress = req.ip || req.socket.remoteAddress || 'unknown';
+    logAudit({
+      action: 'USER_DELETE',
+      userId: req.session.userId,
+      details: `Deleted user ${username} (id ${userId}, ${sessionsEnded} session(s) ended)`,
+      ipAddress,
+      success: true
+    });
+
+    res.json({ message: 'User deleted' });
+  } catch (error) {
+    console.error('Delete user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -17,11 +17,12 @@ async function seed() {
 
   const passwordHash = await hashPassword('init');
 
-  // Create seed admin user
+  // Create seed admin user (no PII: the seed user cannot encrypt, and plaintext
+  // values in encrypted columns would block data key rotation)
   const result = db.prepare(`
-    INSERT INTO users (username, password_hash, name, surname, email, is_active)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run('seed', passwordHash, 'Seed', 'Admin', 'seed@example.com', 1);
+    INSERT INTO users (username, password_hash, is_active)
+    VALUES (?, ?, ?)
+  `).run('seed', passwordHash, 1);
 
   const userId = result.lastInsertRowid;
 
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { db, SCHEMA_VERSION, getCurrentDataKeyVersion } from '../models/database.js';
+import { getSchemaVersion } from '../models/migrator.js';
+
+// Full-database backups: a consistent SQLite snapshot taken with the online backup API,
+// bundled in one JSON file with the schema version and checksums. The snapshot is a copy of
+// the database as stored, so PII stays ciphertext. It does hold the key material the database
+// holds: data keys wrapped for each user, private keys encrypted with their passwords and
+// recovery verifiers, none usable without a user's password or recovery code.
+
+export const BACKUP_FORMAT = 'dcsdemo-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Tables a restorable database must contain
+const REQUIRED_TABLES = ['roles', 'permissions', 'users', 'key_management', 'members', 'data', 'audit_log', 'system_settings'];
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_FORMAT_VERSION;
+  createdAt: string;
+  createdBy: string;
+  schemaVersion: number;
+  dataKeyVersion: number;
+  checksums: {
+    algorithm: 'SHA-256';
+    database: string; // hex digest of the SQLite file
+    tables: Record<string, { rows: number; sha256: string }>;
+  };
+  database: string; // base64 SQLite file
+}
+
+export class BackupError extends Error {}
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function tempPath(): string {
+  return path.join(os.tmpdir(), `dcsdemo-backup-${crypto.randomUUID()}.db`);
+}
+
+// Row count and digest of every table, rows in rowid order
+function tableChecksums(snapshot: Database.Database): BackupBundle['checksums']['tables'] {
+  const tables = snapshot.prepare(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name
+  `).all() as Array<{ name: string }>;
+
+  const checksums: BackupBundle['checksums']['tables'] = {};
+  for (const { name } of tables) {
+    const hash = crypto.createHash('sha256');
+    let rows = 0;
+    for (const row of snapshot.prepare(`SELECT * FROM "${name}" ORDER BY rowid`).iterate()) {
+      hash.update(JSON.stringify(row) + '\n');
+      rows++;
+    }
+    checksums[name] = { rows, sha256: hash.digest('hex') };
+  }
+  return checksums;
+}
+
+export async function createBackup(createdBy: string): Promise<BackupBundle> {
+  const file = tempPath();
+  try {
+    await db.backup(file);
+    const snapshot = new Database(file, { readonly: true });
+    let tables: BackupBundle['checksums']['tables'];
+    let schemaVersion: number;
+    try {
+      tables = tableChecksums(snapshot);
+      schemaVersion = getSchemaVersion(snapshot);
+    } finally {
+      snapshot.close();
+    }
+    const content = fs.readFileSync(file);
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      schemaVersion,
+      dataKeyVersion: getCurrentDataKeyVersion(),
+      checksums: { algorithm: 'SHA-256', database: sha256(content), tables },
+      database: content.toString('base64')
+    };
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Narrows untrusted input to a bundle field by field, throwing a BackupError for the first bad one
+function parseBundle(input: unknown): BackupBundle {
+  if (!isRecord(input) || input.format !== BACKUP_FORMAT || input.version !== BACKUP_FORMAT_VERSION) {
+    throw new BackupError(`Not a ${BACKUP_FORMAT} version ${BACKUP_FORMAT_VERSION} bundle`);
+  }
+  const { createdAt, createdBy, schemaVersion, dataKeyVersion, checksums, database } = input;
+  if (typeof database !== 'string' || !isRecord(checksums) || checksums.algorithm !== 'SHA-256'
+    || typeof checksums.database !== 'string' || !isRecord(checksums.tables)) {
+    throw new BackupError('Bundle is missing the database or its checksums');
+  }
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion)) {
+    throw new BackupError('Bundle is missing its schema version');
+  }
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new BackupError(`Bundle schema version ${schemaVersion} is not supported (current: ${SCHEMA_VERSION})`);
+  }
+  if (typeof createdAt !== 'string' || typeof createdBy !== 'string'
+    || typeof dataKeyVersion !== 'number' || !Number.isInteger(dataKeyVersion)) {
+    throw new BackupError('Bundle is missing when, by whom or with which data key version it was created');
+  }
+
+  const tables: BackupBundle['checksums']['tables'] = {};
+  for (const [name, table] of Object.entries(checksums.tables)) {
+    if (!isRecord(table) || typeof table.rows !== 'number' || !Number.isInteger(table.rows) || typeof table.sha256 !== 'string') {
+      throw new BackupError(`Bundle checksum of table ${name} is malformed`);
+    }
+    tables[name] = { rows: table.rows, sha256: table.sha256 };
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    createdAt,
+    createdBy,
+    schemaVersion,
+    dataKeyVersion,
+    checksums: { algorithm: 'SHA-256', database: checksums.database, tables },
+    database
+  };
+}
+
+// Checks a bundle end to end and writes its database to a temporary file; returns the bundle
+// and the file's path, which the caller removes. Throws a BackupError naming the first problem found.
+export function validateBackup(input: unknown): { bundle: BackupBundle; file: string } {
+  const bundle = parseBundle(input);
+
+  const content = Buffer.from(bundle.database, 'base64');
+  if (sha256(content) !== bundle.checksums.database) {
+    throw new BackupError('Database checksum mismatch: the bundle is damaged or was modified');
+  }
+
+  const file = tempPath();
+  fs.writeFileSync(file, content);
+  try {
+    const snapshot = new Database(file, { readonly: true });
+    try {
+      const integrity = snapshot.pragma('integrity_check', { simple: true });
+      if (integrity !== 'ok') {
+        throw new BackupError(`Database integrity check failed: ${integrity}`);
+      }
+      if ((snapshot.pragma('foreign_key_check') as unknown[]).length > 0) {
+        throw new BackupError('Database has rows violating foreign keys');
+      }
+      if (getSchemaVersion(snapshot) !== bundle.schemaVersion) {
+        throw new BackupError('Database schema version does not match the bundle');
+      }
+
+      const tables = tableChecksums(snapshot);
+      const missing = REQUIRED_TABLES.filter(name => !tables[name]);
+      if (missing.length > 0) {
+        throw new BackupError(`Database is missing tables: ${missing.join(', ')}`);
+      }
+      const expected = bundle.checksums.tables;
+      for (const name of new Set([...Object.keys(tables), ...Object.keys(expected)])) {
+        if (tables[name]?.rows !== expected[name]?.rows || tables[name]?.sha256 !== expected[name]?.sha256) {
+          throw new BackupError(`Table ${name} does not match its checksum`);
+        }
+      }
+    } finally {
+      snapshot.close();
+    }
+    return { bundle, file };
+  } catch (error) {
+    fs.rmSync(file, { force: true });
+    throw error;
+  }
+}
+
+// Replaces the live database with a validated snapshot, page by page through the backup API,
+// after saving the current database next to it. Returns the path of that copy.
+export async function restoreBackup(snapshotFile: string): Promise<string> {
+  const previous = `${db.name}.before-restore-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  await db.backup(previous);
+
+  const snapshot = new Database(snapshotFile, { readonly: true });
+  try {
+    await snapshot.backup(db.name);
+  } finally {
+    snapshot.close();
+  }
+  return previous;
+}
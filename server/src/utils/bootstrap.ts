@@ -0,0 +1,83 @@
+import { Store } from 'express-session';
+import { db, logAudit, getSetting, setSetting } from '../models/database.js';
+import { destroyUserSessions } from './sessions.js';
+import { invalidatePermissions } from '../middleware/auth.js';
+
+// The seed account (created by seed.ts) only exists to create the first real admin.
+// Once an admin who can create users and grant access holds the data key, it is retired for good.
+export const SEED_USERNAME = 'seed';
+
+export interface BootstrapStatus {
+  seedRetired: boolean;
+  adminCreated: boolean;
+  adminHasDataKey: boolean;
+}
+
+export function isSeedRetired(): boolean {
+  return getSetting('seed_retired_at') !== null;
+}
+
+// Active non-seed users able to replace the seed account, and whether they hold the data key
+function findReplacementAdmins(): Array<{ username: string; has_data_key: number }> {
+  return db.prepare(`
+    SELECT u.username,
+           (km.wrapped_data_key IS NOT NULL
+            AND km.wrapped_data_key != ''
+            AND km.wrapped_data_key != 'SEED_WRAPPED_KEY_PLACEHOLDER') as has_data_key
+    FROM users u
+    JOIN key_management km ON km.user_id = u.id
+    WHERE u.username != ?
+    AND u.is_active = 1
+    AND (
+      SELECT COUNT(*) FROM permissions p
+      WHERE p.role_id = km.role_id AND p.permission IN ('user:create', 'keys:grant')
+    ) = 2
+  `).all(SEED_USERNAME) as Array<{ username: string; has_data_key: number }>;
+}
+
+export function getBootstrapStatus(): BootstrapStatus {
+  const admins = findReplacementAdmins();
+  return {
+    seedRetired: isSeedRetired(),
+    adminCreated: admins.length > 0,
+    adminHasDataKey: admins.some(a => a.has_data_key)
+  };
+}
+
+// Deactivate the seed account if a real admin now holds the data key. Returns true if it was retired.
+export async function retireSeedIfReplaced(store: Store, actorId: number | undefined, ipAddress: string): Promise<boolean> {
+  if (isSeedRetired()) {
+    return false;
+  }
+
+  const admin = findReplacementAdmins().find(a => a.has_data_key);
+  if (!admin) {
+    return false;
+  }
+
+  const seed = db.prepare('SELECT id FROM users WHERE username = ?')
+    .get(SEED_USERNAME) as { id: number } | undefined;
+
+  db.transaction(() => {
+    if (seed) {
+      db.prepare('UPDATE users SET is_active = 0 WHERE id = ?').run(seed.id);
+    }
+    setSetting('seed_retired_at', new Date().toISOString());
+  })();
+
+  const sessionsEnded = seed ? await destroyUserSessions(store, seed.id) : 0;
+  if (seed) {
+    invalidatePermissions(seed.id);
+  }
+
+  logAudit({
+    action: 'USER_DEACTIVATE',
+    userId: actorId,
+    targetUserId: seed?.id,
+    details: `Seed account retired: admin ${admin.username} holds the data key (${sessionsEnded} session(s) ended)`,
+    ipAddress,
+    success: true
+  });
+
+  return true;
+}
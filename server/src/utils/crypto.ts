@@ -23,3 +23,14 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
     });
   });
 }
+
+// High-entropy secrets (e.g. recovery tokens) need no slow hash - SHA-256 is enough
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyToken(token: string, hash: string): boolean {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
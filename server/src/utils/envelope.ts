@@ -0,0 +1,59 @@
+// Server-side view of the client's ciphertext envelope (see client/src/utils/crypto.ts):
+//   version (1 byte) | key id (2 bytes, big-endian) | algorithm (1 byte) | IV (12 bytes) | ciphertext + GCM tag
+// The server cannot decrypt envelopes, but it can check that they are well-formed
+// and read the key id from the header.
+
+export const ENVELOPE_VERSION = 1;
+export const KNOWN_ALGORITHMS = [1, 2]; // 1 = AES-256-GCM, 2 = AES-256-GCM bound to its record
+
+const HEADER_LENGTH = 4;
+const IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+interface EnvelopeHeader {
+  version: number;
+  keyId: number;
+  algorithm: number;
+}
+
+// Parse an envelope header; returns null if the value is not a well-formed envelope
+export function parseEnvelope(value: string): EnvelopeHeader | null {
+  if (typeof value !== 'string' || value.length % 4 !== 0 || !BASE64_PATTERN.test(value)) {
+    return null;
+  }
+
+  const bytes = Buffer.from(value, 'base64');
+  if (bytes.length < HEADER_LENGTH + IV_LENGTH + GCM_TAG_LENGTH) {
+    return null;
+  }
+  if (bytes[0] !== ENVELOPE_VERSION || !KNOWN_ALGORITHMS.includes(bytes[3])) {
+    return null;
+  }
+
+  return {
+    version: bytes[0],
+    keyId: bytes.readUInt16BE(1),
+    algorithm: bytes[3]
+  };
+}
+
+export function isEnvelope(value: string): boolean {
+  return parseEnvelope(value) !== null;
+}
+
+// Base64 prefix shared by every envelope with the given key id (version + key id = first 3 bytes)
+export function envelopeKeyPrefix(keyId: number): string {
+  return Buffer.from([ENVELOPE_VERSION, (keyId >> 8) & 0xff, keyId & 0xff]).toString('base64');
+}
+
+// Find the first field that is set but not a well-formed envelope (empty values are allowed)
+export function findInvalidEnvelope(fields: Record<string, unknown>): string | null {
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string' || !isEnvelope(value)) {
+      return field;
+    }
+  }
+  return null;
+}
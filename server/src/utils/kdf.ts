@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+
+// Parameters for deriving a user's KEK from their password (see client/src/utils/crypto.ts).
+// Stored per user in key_management.kdf_params; NULL means the legacy derivation
+// (PBKDF2-SHA256, 100,000 iterations, salt "dcsdemo-kek-<username>").
+export type KdfParams =
+  | { algorithm: 'pbkdf2-sha256'; salt: string; iterations: number }
+  | { algorithm: 'argon2id'; salt: string; memorySize: number; iterations: number; parallelism: number };
+
+const SALT_LENGTH = 16;
+
+// Policy for new and upgraded users; KDF_ALGORITHM=pbkdf2-sha256 selects PBKDF2 instead of Argon2id
+const PBKDF2_POLICY = { iterations: 600000 };
+const ARGON2ID_POLICY = { memorySize: 65536, iterations: 3, parallelism: 1 }; // memorySize in KiB
+
+function policyAlgorithm(): KdfParams['algorithm'] {
+  return process.env.KDF_ALGORITHM === 'pbkdf2-sha256' ? 'pbkdf2-sha256' : 'argon2id';
+}
+
+// Fresh parameters with a random salt, following the current policy
+export function newKdfParams(): KdfParams {
+  const salt = crypto.randomBytes(SALT_LENGTH).toString('base64');
+  if (policyAlgorithm() === 'pbkdf2-sha256') {
+    return { algorithm: 'pbkdf2-sha256', salt, ...PBKDF2_POLICY };
+  }
+  return { algorithm: 'argon2id', salt, ...ARGON2ID_POLICY };
+}
+
+// Whether parameters use the policy algorithm with at least the policy cost
+export function meetsKdfPolicy(params: KdfParams | null): boolean {
+  if (!params || params.algorithm !== policyAlgorithm()) {
+    return false;
+  }
+  if (params.algorithm === 'pbkdf2-sha256') {
+    return params.iterations >= PBKDF2_POLICY.iterations;
+  }
+  return params.memorySize >= ARGON2ID_POLICY.memorySize &&
+    params.iterations >= ARGON2ID_POLICY.iterations &&
+    params.parallelism >= ARGON2ID_POLICY.parallelism;
+}
+
+// Validate client-supplied parameters; returns null if they are malformed
+export function parseKdfParams(value: unknown): KdfParams | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const params = value as Record<string, unknown>;
+  if (typeof params.salt !== 'string' || Buffer.from(params.salt, 'base64').length < SALT_LENGTH) {
+    return null;
+  }
+
+  const isCount = (n: unknown, max: number) => Number.isInteger(n) && (n as number) > 0 && (n as number) <= max;
+
+  if (params.algorithm === 'pbkdf2-sha256' && isCount(params.iterations, 10000000)) {
+    return { algorithm: 'pbkdf2-sha256', salt: params.salt, iterations: params.iterations as number };
+  }
+  if (params.algorithm === 'argon2id' &&
+      isCount(params.memorySize, 4194304) &&
+      isCount(params.iterations, 100) &&
+      isCount(params.parallelism, 16)) {
+    return {
+      algorithm: 'argon2id',
+      salt: params.salt,
+      memorySize: params.memorySize as number,
+      iterations: params.iterations as number,
+      parallelism: params.parallelism as number
+    };
+  }
+  return null;
+}
+
+// Read the stored JSON column
+export function storedKdfParams(value: string | null | undefined): KdfParams | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return parseKdfParams(JSON.parse(value));
+  } catch {
+    return null;
+  }
+}
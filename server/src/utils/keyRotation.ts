@@ -0,0 +1,56 @@
+import { db, ENCRYPTED_COLUMNS } from '../models/database.js';
+import { envelopeKeyPrefix } from './envelope.js';
+
+export interface Rotation {
+  id: number;
+  from_version: number;
+  to_version: number;
+  status: string;
+  started_by: number;
+  started_at: string;
+  completed_at: string | null;
+  access_revoked_at: string | null;
+}
+
+export function getActiveRotation(): Rotation | undefined {
+  return db.prepare(`
+    SELECT * FROM data_key_rotations WHERE status = 'in_progress' ORDER BY id DESC LIMIT 1
+  `).get() as Rotation | undefined;
+}
+
+// Users who hold the current data key and may receive a new one: active, with a real wrapped key
+export const KEY_HOLDER_CONDITION = `
+  km.wrapped_data_key IS NOT NULL
+  AND km.wrapped_data_key != 'SEED_WRAPPED_KEY_PLACEHOLDER'
+  AND km.wrapped_data_key != ''
+  AND km.public_key != ''
+  AND u.is_active = 1
+`;
+
+// Whether any row already uses the given data key version
+function anyRowEncryptedWith(version: number): boolean {
+  return Object.entries(ENCRYPTED_COLUMNS).some(([table, columns]) => db.prepare(`
+    SELECT 1 FROM ${table} WHERE ${columns.map(col => `${col} LIKE ?`).join(' OR ')} LIMIT 1
+  `).get(...columns.map(() => `${envelopeKeyPrefix(version)}%`)) !== undefined);
+}
+
+// A revoked user may already have fetched the pending key of a running rotation. A rotation that
+// hasn't re-encrypted anything yet is aborted, dropping every pending key; one that has must still
+// complete to keep those rows readable, but is marked so it doesn't clear the rotation requirement.
+// Returns what happened to the active rotation, if any.
+export function interruptRotationForRevoke(): 'aborted' | 'marked' | null {
+  const rotation = getActiveRotation();
+  if (!rotation) return null;
+
+  if (!anyRowEncryptedWith(rotation.to_version)) {
+    db.transaction(() => {
+      db.prepare(`UPDATE data_key_rotations SET status = 'aborted', completed_at = CURRENT_TIMESTAMP WHERE id = ?`)
+        .run(rotation.id);
+      db.prepare('UPDATE key_management SET pending_wrapped_data_key = NULL').run();
+    })();
+    return 'aborted';
+  }
+
+  db.prepare('UPDATE data_key_rotations SET access_revoked_at = CURRENT_TIMESTAMP WHERE id = ?').run(rotation.id);
+  return 'marked';
+}
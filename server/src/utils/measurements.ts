@@ -0,0 +1,229 @@
+import { db, getSetting, setSetting } from '../models/database.js';
+import { isEnvelope } from './envelope.js';
+import { unitFactors, roundConverted } from './units.js';
+
+// Measurement types (weight, blood pressure, ...) and the values recorded for them.
+// A value has one or more numeric components, described by its type's value schema, and is
+// stored as JSON. A sensitive type's values are encrypted in the browser like member PII,
+// bound to the record's member, and stored in encrypted_value; otherwise they are stored in
+// plaintext so the server can sort on them. Measurement dates are encrypted deployment-wide
+// when the sensitive_measurement_dates setting is on.
+// Each record keeps the unit it was entered in; bounds in a value schema are in the type's unit.
+
+export interface ValueComponent {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface ValueSchema {
+  components: ValueComponent[];
+}
+
+export interface MeasurementType {
+  id: number;
+  key: string;
+  name: string;
+  unit: string;
+  value_schema: ValueSchema;
+  sensitive: boolean;
+  built_in: boolean;
+  // Units values can be entered in, with the factor converting each into the type's unit
+  units: Record<string, number>;
+}
+
+interface MeasurementTypeRow {
+  id: number;
+  key: string;
+  name: string;
+  unit: string;
+  value_schema: string;
+  sensitive: number;
+  built_in: number;
+}
+
+export type MeasurementValue = Record<string, number>;
+
+// Keys are used in JSON paths and URLs, so they stay simple
+export const KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+const MAX_COMPONENTS = 6;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMeasurementType(row: MeasurementTypeRow): MeasurementType {
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    unit: row.unit,
+    value_schema: JSON.parse(row.value_schema),
+    sensitive: row.sensitive === 1,
+    built_in: row.built_in === 1,
+    units: unitFactors(row.unit)
+  };
+}
+
+export function getMeasurementTypes(): MeasurementType[] {
+  const rows = db.prepare('SELECT * FROM measurement_types ORDER BY built_in DESC, name').all() as MeasurementTypeRow[];
+  return rows.map(toMeasurementType);
+}
+
+export function findMeasurementType(key: unknown): MeasurementType | undefined {
+  if (typeof key !== 'string') return undefined;
+  const row = db.prepare('SELECT * FROM measurement_types WHERE key = ?').get(key) as MeasurementTypeRow | undefined;
+  return row && toMeasurementType(row);
+}
+
+export function getSensitiveDates(): boolean {
+  return getSetting('sensitive_measurement_dates') === 'true';
+}
+
+export function setSensitiveDates(sensitive: boolean): void {
+  setSetting('sensitive_measurement_dates', sensitive ? 'true' : 'false');
+}
+
+// Units each measurement type is displayed in for a user, where they chose one
+export function getDisplayUnits(userId: number): Map<number, string> {
+  const rows = db.prepare('SELECT type_id, unit FROM measurement_unit_preferences WHERE user_id = ?')
+    .all(userId) as Array<{ type_id: number; unit: string }>;
+  return new Map(rows.map(row => [row.type_id, row.unit]));
+}
+
+// A value's components multiplied by a unit conversion factor
+export function convertValue(value: MeasurementValue, factor: number): MeasurementValue {
+  return Object.fromEntries(Object.entries(value).map(([key, number]) => [key, roundConverted(number * factor)]));
+}
+
+// Validate a value schema sent by a client; returns it without unknown properties, or an error message
+export function parseValueSchema(input: unknown): ValueSchema | string {
+  const components = (input as ValueSchema | undefined)?.components;
+  if (!Array.isArray(components) || components.length === 0 || components.length > MAX_COMPONENTS) {
+    return `valueSchema.components must be a list of 1 to ${MAX_COMPONENTS} components`;
+  }
+
+  const parsed: ValueComponent[] = [];
+  for (const component of components) {
+    const { key, label, min, max, integer } = component ?? {};
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      return 'Component keys must be lowercase letters, digits and underscores, starting with a letter';
+    }
+    if (parsed.some(c => c.key === key)) {
+      return `Component ${key} appears twice`;
+    }
+    if (typeof label !== 'string' || !label.trim() || label.length > 50) {
+      return `Component ${key} needs a label of at most 50 characters`;
+    }
+    for (const bound of [min, max]) {
+      if (bound !== undefined && bound !== null && !Number.isFinite(bound)) {
+        return `Bounds of component ${key} must be numbers`;
+      }
+    }
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      return `Component ${key} has min greater than max`;
+    }
+    if (integer !== undefined && typeof integer !== 'boolean') {
+      return `integer of component ${key} must be true or false`;
+    }
+    parsed.push({
+      key,
+      label: label.trim(),
+      ...(typeof min === 'number' ? { min } : {}),
+      ...(typeof max === 'number' ? { max } : {}),
+      ...(integer ? { integer } : {})
+    });
+  }
+  return { components: parsed };
+}
+
+// Validate a plaintext value against a value schema; returns an error message if it doesn't fit.
+// factor converts the value into the type's unit, in which the bounds are; whole numbers are
+// only required in that unit.
+export function checkValue(schema: ValueSchema, value: unknown, factor = 1): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `value must be an object with ${schema.components.map(c => c.key).join(', ')}`;
+  }
+  const extra = Object.keys(value).find(key => !schema.components.some(c => c.key === key));
+  if (extra) {
+    return `Unknown value component ${extra}`;
+  }
+  for (const component of schema.components) {
+    const number = (value as Record<string, unknown>)[component.key];
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      return `${component.key} must be a number`;
+    }
+    if (component.integer && factor === 1 && !Number.isInteger(number)) {
+      return `${component.key} must be a whole number`;
+    }
+    const converted = roundConverted(number * factor);
+    if ((component.min !== undefined && converted < component.min) || (component.max !== undefined && converted > component.max)) {
+      return `${component.key} must be between ${component.min ?? '-∞'} and ${component.max ?? '∞'}` +
+        (factor === 1 ? '' : ' in its type\'s unit');
+    }
+  }
+  return undefined;
+}
+
+// Column values of a measurement record, exactly one of each pair set
+export interface MeasurementColumns {
+  type_id: number;
+  unit: string;
+  value: string | null;
+  encrypted_value: string | null;
+  date: string | null;
+  encrypted_date: string | null;
+}
+
+// Validate the value and date sent for a record of the given type, as plaintext (value, date)
+// or ciphertext (encryptedValue, encryptedDate) depending on what is sensitive, and the unit
+// of the value (default: the type's unit). Returns the columns to store, or an error message.
+export function parseMeasurementValues(
+  record: Record<string, any>,
+  type: MeasurementType,
+  sensitiveDates: boolean
+): MeasurementColumns | string {
+  const { unit = type.unit } = record;
+  if (typeof unit !== 'string' || !Object.hasOwn(type.units, unit)) {
+    return `unit of ${type.name} must be one of ${Object.keys(type.units).join(', ')}`;
+  }
+  const columns: MeasurementColumns = {
+    type_id: type.id, unit, value: null, encrypted_value: null, date: null, encrypted_date: null
+  };
+
+  if (type.sensitive) {
+    if (record.value !== undefined) return `${type.name} values are encrypted in this deployment; send encryptedValue`;
+    if (typeof record.encryptedValue !== 'string' || !isEnvelope(record.encryptedValue)) {
+      return 'encryptedValue must be an encrypted value';
+    }
+    columns.encrypted_value = record.encryptedValue;
+  } else {
+    if (record.encryptedValue !== undefined) return `${type.name} values are not encrypted in this deployment; send value`;
+    const error = checkValue(type.value_schema, record.value, type.units[unit]);
+    if (error) return error;
+    columns.value = JSON.stringify(record.value);
+  }
+
+  if (sensitiveDates) {
+    if (record.date !== undefined) return 'date is encrypted in this deployment; send encryptedDate';
+    if (typeof record.encryptedDate !== 'string' || !isEnvelope(record.encryptedDate)) {
+      return 'encryptedDate must be an encrypted value';
+    }
+    columns.encrypted_date = record.encryptedDate;
+  } else {
+    if (record.encryptedDate !== undefined) return 'date is not encrypted in this deployment; send date';
+    if (typeof record.date !== 'string' || !DATE_PATTERN.test(record.date)) return 'date must be YYYY-MM-DD';
+    columns.date = record.date;
+  }
+
+  return columns;
+}
+
+// SQL condition on data d joined with measurement_types t, matching records not stored the way
+// their type's sensitivity and the date setting require. Weights encrypted before measurement
+// types existed (encrypted_weight) always need converting.
+export function unconvertedCondition(sensitiveDates: boolean): string {
+  return `(d.encrypted_weight IS NOT NULL
+    OR (t.sensitive = 1 AND d.value IS NOT NULL)
+    OR (t.sensitive = 0 AND d.encrypted_value IS NOT NULL)
+    OR ${sensitiveDates ? 'd.date IS NOT NULL' : 'd.encrypted_date IS NOT NULL'})`;
+}
@@ -0,0 +1,110 @@
+// Cursor (keyset) pagination for list endpoints. A list is paginated when the request has
+// ?limit= or ?cursor=; the response is then { items, nextCursor } instead of an array.
+// The cursor holds the sort key values of the last row returned, so rows inserted or
+// deleted meanwhile don't shift pages.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+type KeyValue = string | number;
+
+export interface SortKey<T> {
+  // SQL expression the rows are ordered by
+  expr: string;
+  desc: boolean;
+  // The same value read from a returned row
+  value: (row: T) => KeyValue;
+}
+
+export interface PageRequest {
+  limit: number;
+  after: KeyValue[] | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export type DeletedFilter = 'include' | 'exclude' | 'only';
+
+function encodeCursor(values: KeyValue[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, keyCount: number): KeyValue[] | null {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(values) && values.length === keyCount && values.every(v => typeof v === 'string' || typeof v === 'number')) {
+      return values;
+    }
+  } catch {
+    // Not base64url JSON
+  }
+  return null;
+}
+
+// Read ?limit= and ?cursor=: undefined if the list isn't paginated, a message if invalid
+export function parsePageRequest(query: Record<string, unknown>, keyCount: number): PageRequest | string | undefined {
+  const { limit, cursor } = query;
+  if (limit === undefined && cursor === undefined) {
+    return undefined;
+  }
+
+  const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`;
+  }
+
+  let after: KeyValue[] | null = null;
+  if (cursor !== undefined) {
+    after = typeof cursor === 'string' ? decodeCursor(cursor, keyCount) : null;
+    if (!after) {
+      return 'Invalid cursor';
+    }
+  }
+  return { limit: pageSize, after };
+}
+
+// Read ?deleted=: undefined if invalid
+export function parseDeletedFilter(value: unknown): DeletedFilter | undefined {
+  if (value === undefined) return 'include';
+  return value === 'include' || value === 'exclude' || value === 'only' ? value : undefined;
+}
+
+// SQL condition on a deleted column for a deleted filter
+export function deletedCondition(column: string, filter: DeletedFilter): string {
+  return filter === 'exclude' ? `${column} IS NULL`
+    : filter === 'only' ? `${column} IS NOT NULL`
+    : '1';
+}
+
+export function orderBy<T>(keys: SortKey<T>[]): string {
+  return keys.map(key => `${key.expr} ${key.desc ? 'DESC' : 'ASC'}`).join(', ');
+}
+
+// SQL condition matching the rows sorted after the cursor position
+export function keysetCondition<T>(keys: SortKey<T>[], after: KeyValue[] | null): { sql: string; params: KeyValue[] } {
+  if (!after) {
+    return { sql: '1', params: [] };
+  }
+  // (k1 after v1) OR (k1 = v1 AND k2 after v2) OR ...
+  const clauses: string[] = [];
+  const params: KeyValue[] = [];
+  keys.forEach((key, i) => {
+    const equal = keys.slice(0, i).map(k => `${k.expr} = ?`);
+    clauses.push(`(${[...equal, `${key.expr} ${key.desc ? '<' : '>'} ?`].join(' AND ')})`);
+    params.push(...after.slice(0, i), after[i]);
+  });
+  return { sql: `(${clauses.join(' OR ')})`, params };
+}
+
+// Rows fetched with LIMIT limit + 1: the extra row tells whether there is a next page
+export function toPage<T>(rows: T[], limit: number, keys: SortKey<T>[]): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeCursor(keys.map(key => key.value(last))) : null
+  };
+}
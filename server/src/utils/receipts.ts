@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DB_PATH, setSetting } from '../models/database.js';
+
+// Server-side Ed25519 key signing receipts (e.g. of member erasures), so a receipt handed out
+// can later be shown to be genuine and unmodified. The private key is kept out of the database:
+// it comes from RECEIPT_SIGNING_KEY (PEM) or the key file, generated on first use. Only the
+// public key is stored in system settings.
+
+const KEY_FILE = process.env.RECEIPT_SIGNING_KEY_FILE || path.join(path.dirname(DB_PATH), 'receipt-signing-key.pem');
+
+export interface SignedReceipt<T> {
+  receipt: T;
+  signature: {
+    algorithm: 'Ed25519';
+    keyId: string;
+    value: string; // base64 signature over the JSON serialization of `receipt`
+  };
+}
+
+let privateKey: crypto.KeyObject | null = null;
+
+function publicKeyPem(key: crypto.KeyObject): string {
+  return crypto.createPublicKey(key).export({ type: 'spki', format: 'pem' }) as string;
+}
+
+function loadPrivateKey(): crypto.KeyObject {
+  if (process.env.RECEIPT_SIGNING_KEY) {
+    return crypto.createPrivateKey(process.env.RECEIPT_SIGNING_KEY);
+  }
+  if (fs.existsSync(KEY_FILE)) {
+    return crypto.createPrivateKey(fs.readFileSync(KEY_FILE));
+  }
+  const key = crypto.generateKeyPairSync('ed25519').privateKey;
+  fs.writeFileSync(KEY_FILE, key.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600, flag: 'wx' });
+  return key;
+}
+
+function getPrivateKey(): crypto.KeyObject {
+  if (!privateKey) {
+    privateKey = loadPrivateKey();
+    setSetting('receipt_signing_public_key', publicKeyPem(privateKey));
+  }
+  return privateKey;
+}
+
+export function getReceiptPublicKey(): string {
+  return publicKeyPem(getPrivateKey());
+}
+
+// Key id: first 16 hex digits of the SHA-256 of the DER public key
+function getKeyId(): string {
+  const der = crypto.createPublicKey(getPrivateKey()).export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function signReceipt<T>(receipt: T): SignedReceipt<T> {
+  const value = crypto.sign(null, Buffer.from(JSON.stringify(receipt)), getPrivateKey()).toString('base64');
+  return { receipt, signature: { algorithm: 'Ed25519', keyId: getKeyId(), value } };
+}
@@ -0,0 +1,48 @@
+import { db } from '../models/database.js';
+
+// Blind index over member PII (see client/src/utils/search.ts): for each normalized word of a
+// member's name, surname and email the browser stores an HMAC token keyed from the data key.
+// The server only compares tokens; it can't tell which word or field a token stands for.
+
+// 16 bytes of HMAC-SHA256, base64url without padding
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+export const MAX_MEMBER_TOKENS = 100;
+const MAX_QUERY_TERMS = 10;
+const MAX_TERM_ALTERNATIVES = 4;
+
+// Validate the search tokens sent with a member; returns null if malformed
+export function parseSearchTokens(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_MEMBER_TOKENS || !value.every(t => typeof t === 'string' && TOKEN_PATTERN.test(t))) {
+    return null;
+  }
+  return [...new Set(value as string[])];
+}
+
+// Replace all tokens of a member; call inside the transaction writing its fields
+export function replaceSearchTokens(memberId: number, tokens: string[]): void {
+  db.prepare('DELETE FROM member_search_tokens WHERE member_id = ?').run(memberId);
+  const insert = db.prepare('INSERT INTO member_search_tokens (member_id, token) VALUES (?, ?)');
+  for (const token of tokens) {
+    insert.run(memberId, token);
+  }
+}
+
+// Parse a search query: comma-separated terms, each one or more tokens separated by "|"
+// (the same word under each data key version in use). Returns null if malformed.
+export function parseSearchQuery(q: string): string[][] | null {
+  const terms = q.split(',').map(term => term.split('|'));
+  if (terms.length > MAX_QUERY_TERMS || terms.some(t => t.length > MAX_TERM_ALTERNATIVES || !t.every(token => TOKEN_PATTERN.test(token)))) {
+    return null;
+  }
+  return terms;
+}
+
+// SQL condition (on members aliased as m) matching members that have every term
+export function searchCondition(terms: string[][]): { sql: string; params: string[] } {
+  return {
+    sql: terms.map(term =>
+      `m.id IN (SELECT member_id FROM member_search_tokens WHERE token IN (${term.map(() => '?').join(', ')}))`
+    ).join(' AND '),
+    params: terms.flat()
+  };
+}
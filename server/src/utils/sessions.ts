@@ -0,0 +1,30 @@
+import { Store, SessionData } from 'express-session';
+
+// Stores listing sessions as an array put each session's id on its record
+type ListedSession = SessionData & { id: string };
+
+// Destroy every live session belonging to a user. Returns the number of sessions destroyed.
+export function destroyUserSessions(store: Store, userId: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    if (!store.all) {
+      return reject(new Error('Session store cannot list sessions'));
+    }
+
+    store.all((err, sessions) => {
+      if (err) return reject(err);
+
+      const entries: Array<[string, SessionData]> = Array.isArray(sessions)
+        ? (sessions as ListedSession[]).map(s => [s.id, s])
+        : Object.entries(sessions || {});
+      const sids = entries
+        .filter(([, session]) => session.userId === userId)
+        .map(([sid]) => sid);
+
+      Promise.all(sids.map(sid => new Promise<void>((res, rej) => {
+        store.destroy(sid, (destroyErr) => destroyErr ? rej(destroyErr) : res());
+      })))
+        .then(() => resolve(sids.length))
+        .catch(reject);
+    });
+  });
+}
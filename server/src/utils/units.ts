@@ -0,0 +1,27 @@
+// Units measurements can be recorded in. Units of a group convert into each other by their
+// factor to the group's first unit; a unit outside every group only converts to itself.
+// Only proportional units belong here (no °C/°F).
+const UNIT_GROUPS: Array<Record<string, number>> = [
+  { kg: 1, g: 0.001, lb: 0.45359237, st: 6.35029318 },
+  { cm: 1, mm: 0.1, m: 100, in: 2.54, ft: 30.48 },
+  { mmHg: 1, kPa: 7.500616827 }
+];
+
+// Units a value in the given unit can be converted to, each with the factor that converts
+// a value in it into the given unit
+export function unitFactors(unit: string): Record<string, number> {
+  const group = UNIT_GROUPS.find(g => Object.hasOwn(g, unit));
+  if (!group) return { [unit]: 1 };
+  return Object.fromEntries(Object.entries(group).map(([other, factor]) => [other, factor / group[unit]]));
+}
+
+// Factor converting a value in one unit into another, or undefined if they don't convert
+export function unitFactor(from: string, to: string): number | undefined {
+  const factors = unitFactors(to);
+  return Object.hasOwn(factors, from) ? factors[from] : undefined;
+}
+
+// Converted values keep a precision well beyond any measurement's
+export function roundConverted(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -1,7 +1,18 @@
 import { test, expect } from '@playwright/test';
+import crypto from 'crypto';
 
 const BASE_URL = 'http://localhost:3333';
 
+// Well-formed ciphertext envelope (version 1, key id 1, AES-256-GCM) with dummy IV/ciphertext bytes
+function fakeEnvelope(fill: number): string {
+  return Buffer.concat([Buffer.from([1, 0, 1, 1]), Buffer.alloc(28, fill)]).toString('base64');
+}
+
+// Random well-formed blind index token (16 bytes, base64url)
+function fakeToken(): string {
+  return crypto.randomBytes(16).toString('base64url');
+}
+
 test.describe('DCS Demo - Zero Trust Application', () => {
   test.describe('Seeding', () => {
     test('should have seed admin user in database', async ({ request }) => {
@@ -29,6 +40,22 @@ test.describe('DCS Demo - Zero Trust Application', () => {
 
       expect(loginResponse.status()).toBe(401);
     });
+
+    test('should report first-run progress while the seed account is active', async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const cookies = loginResponse.headers()['set-cookie'] || '';
+
+      const response = await request.get(`${BASE_URL}/api/keys/system/bootstrap`, {
+        headers: { Cookie: cookies }
+      });
+
+      expect(response.ok()).toBeTruthy();
+      const status = await response.json();
+      expect(status.seedRetired).toBe(false);
+      expect(status.adminHasDataKey).toBe(false);
+    });
   });
 
   test.describe('User Management', () => {
@@ -66,9 +93,9 @@ test.describe('DCS Demo - Zero Trust Application', () => {
         data: {
           username: testUsername,
           password: 'testpass123',
-          name: 'ENCRYPTED_NAME_DATA_BASE64',
-          surname: 'ENCRYPTED_SURNAME_DATA_BASE64',
-          email: 'ENCRYPTED_EMAIL_DATA_BASE64',
+          name: fakeEnvelope(1),
+          surname: fakeEnvelope(2),
+          email: fakeEnvelope(3),
           publicKey: 'TEST_PUBLIC_KEY_BASE64'
         }
       });
@@ -86,9 +113,22 @@ test.describe('DCS Demo - Zero Trust Application', () => {
 
       expect(newUser).toBeDefined();
       // PII fields should be encrypted (not plain text)
-      expect(newUser.name).toBe('ENCRYPTED_NAME_DATA_BASE64');
-      expect(newUser.surname).toBe('ENCRYPTED_SURNAME_DATA_BASE64');
-      expect(newUser.email).toBe('ENCRYPTED_EMAIL_DATA_BASE64');
+      expect(newUser.name).toBe(fakeEnvelope(1));
+      expect(newUser.surname).toBe(fakeEnvelope(2));
+      expect(newUser.email).toBe(fakeEnvelope(3));
+    });
+
+    test('should reject PII that is not an encrypted envelope', async ({ request }) => {
+      const response = await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: cookies },
+        data: {
+          username: `plainuser_${Date.now()}`,
+          password: 'testpass123',
+          name: 'Plaintext Name'
+        }
+      });
+
+      expect(response.status()).toBe(400);
     });
 
     test('should reject duplicate username', async ({ request }) => {
@@ -105,6 +145,125 @@ test.describe('DCS Demo - Zero Trust Application', () => {
     });
   });
 
+  test.describe('User Lifecycle', () => {
+    let adminCookies: string;
+
+    test.beforeEach(async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      adminCookies = loginResponse.headers()['set-cookie'] || '';
+    });
+
+    async function createUser(request: any, prefix: string) {
+      const username = `${prefix}_${Date.now()}`;
+      const response = await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: adminCookies },
+        data: { username, password: 'lifepass' }
+      });
+      const { userId } = await response.json();
+      return { username, userId };
+    }
+
+    test('should update encrypted fields only with envelopes', async ({ request }) => {
+      const { userId } = await createUser(request, 'patchuser');
+
+      const invalidResponse = await request.patch(`${BASE_URL}/api/users/${userId}`, {
+        headers: { Cookie: adminCookies },
+        data: { email: 'plain@example.com' }
+      });
+      expect(invalidResponse.status()).toBe(400);
+
+      const response = await request.patch(`${BASE_URL}/api/users/${userId}`, {
+        headers: { Cookie: adminCookies },
+        data: { name: fakeEnvelope(7), email: null }
+      });
+      expect(response.ok()).toBeTruthy();
+
+      const usersResponse = await request.get(`${BASE_URL}/api/users`, {
+        headers: { Cookie: adminCookies }
+      });
+      const user = (await usersResponse.json()).find((u: any) => u.id === userId);
+      expect(user.name).toBe(fakeEnvelope(7));
+      expect(user.email).toBeNull();
+    });
+
+    test('should take the initial role as roleName or roleId', async ({ request }) => {
+      for (const field of ['roleName', 'roleId']) {
+        const username = `roleuser_${field}_${Date.now()}`;
+        const createResponse = await request.post(`${BASE_URL}/api/users`, {
+          headers: { Cookie: adminCookies },
+          data: { username, password: 'lifepass', [field]: 'user-role' }
+        });
+        expect(createResponse.status()).toBe(201);
+
+        const usersResponse = await request.get(`${BASE_URL}/api/users`, {
+          headers: { Cookie: adminCookies }
+        });
+        const user = (await usersResponse.json()).find((u: any) => u.username === username);
+        expect(user.role_name).toBe('user-role');
+      }
+    });
+
+    test('should end sessions on deactivation and allow reactivation', async ({ request, playwright }) => {
+      const { username, userId } = await createUser(request, 'deactuser');
+
+      // Separate context, so the user's session cookie does not replace the admin's
+      const userRequest = await playwright.request.newContext();
+      const userLogin = await userRequest.post(`${BASE_URL}/api/auth/login`, {
+        data: { username, password: 'lifepass' }
+      });
+      expect(userLogin.ok()).toBeTruthy();
+
+      const deactivateResponse = await request.post(`${BASE_URL}/api/users/${userId}/deactivate`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(deactivateResponse.ok()).toBeTruthy();
+      expect((await deactivateResponse.json()).sessionsEnded).toBe(1);
+
+      const meResponse = await userRequest.get(`${BASE_URL}/api/auth/me`);
+      expect(meResponse.status()).toBe(401);
+
+      const blockedLogin = await userRequest.post(`${BASE_URL}/api/auth/login`, {
+        data: { username, password: 'lifepass' }
+      });
+      expect(blockedLogin.status()).toBe(401);
+
+      await request.post(`${BASE_URL}/api/users/${userId}/reactivate`, {
+        headers: { Cookie: adminCookies }
+      });
+      const login = await userRequest.post(`${BASE_URL}/api/auth/login`, {
+        data: { username, password: 'lifepass' }
+      });
+      expect(login.ok()).toBeTruthy();
+      await userRequest.dispose();
+    });
+
+    test('should delete a user with their keys', async ({ request }) => {
+      const { username, userId } = await createUser(request, 'deluser');
+
+      const deleteResponse = await request.delete(`${BASE_URL}/api/users/${userId}`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(deleteResponse.ok()).toBeTruthy();
+
+      const keyResponse = await request.get(`${BASE_URL}/api/keys/${userId}`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(keyResponse.status()).toBe(404);
+
+      const login = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username, password: 'lifepass' }
+      });
+      expect(login.status()).toBe(401);
+
+      const againResponse = await request.delete(`${BASE_URL}/api/users/${userId}`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(againResponse.status()).toBe(404);
+    });
+  });
+
   test.describe('Data Encryption', () => {
     let cookies: string;
 
@@ -189,6 +348,38 @@ test.describe('DCS Demo - Zero Trust Application', () => {
       expect(keyInfo.role_name).toBe('admin-role');
     });
 
+    test('should give new users random KDF parameters', async ({ request }) => {
+      const salts: string[] = [];
+      for (const suffix of ['a', 'b']) {
+        const createResponse = await request.post(`${BASE_URL}/api/users`, {
+          headers: { Cookie: cookies },
+          data: { username: `kdfuser_${suffix}_${Date.now()}`, password: 'kdfpass', roleName: 'view-role' }
+        });
+        const { userId: newUserId } = await createResponse.json();
+
+        const keyResponse = await request.get(`${BASE_URL}/api/keys/${newUserId}`, {
+          headers: { Cookie: cookies }
+        });
+        const keyInfo = await keyResponse.json();
+        expect(['argon2id', 'pbkdf2-sha256']).toContain(keyInfo.kdf_params.algorithm);
+        salts.push(keyInfo.kdf_params.salt);
+      }
+
+      expect(salts[0]).not.toBe(salts[1]);
+    });
+
+    test('should reject KDF parameters below the policy', async ({ request }) => {
+      const response = await request.put(`${BASE_URL}/api/keys/kdf`, {
+        headers: { Cookie: cookies },
+        data: {
+          encryptedPrivateKey: fakeEnvelope(7),
+          kdfParams: { algorithm: 'pbkdf2-sha256', salt: Buffer.alloc(16, 1).toString('base64'), iterations: 1000 }
+        }
+      });
+
+      expect(response.status()).toBe(400);
+    });
+
     test('should list all roles', async ({ request }) => {
       const response = await request.get(`${BASE_URL}/api/keys/roles/list`, {
         headers: { Cookie: cookies }
@@ -203,47 +394,1109 @@ test.describe('DCS Demo - Zero Trust Application', () => {
     });
   });
 
-  test.describe('Role-Based Access Control', () => {
-    test('should require authentication for protected endpoints', async ({ request }) => {
-      const response = await request.get(`${BASE_URL}/api/users`);
+  test.describe('Data Key Rotation', () => {
+    let cookies: string;
+
+    test.beforeEach(async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      cookies = loginResponse.headers()['set-cookie'] || '';
+    });
+
+    test('should report current data key version', async ({ request }) => {
+      const response = await request.get(`${BASE_URL}/api/keys/rotation/status`, {
+        headers: { Cookie: cookies }
+      });
+
+      expect(response.ok()).toBeTruthy();
+      const status = await response.json();
+      expect(status.currentVersion).toBeGreaterThanOrEqual(1);
+    });
+
+    test('should reject rotation without wrapped keys', async ({ request }) => {
+      const response = await request.post(`${BASE_URL}/api/keys/rotation/start`, {
+        headers: { Cookie: cookies },
+        data: { wrappedKeys: [] }
+      });
+
+      expect(response.status()).toBe(400);
+    });
+
+    test('should only wrap a new data key for current key holders', async ({ request }) => {
+      const { user } = await (await request.get(`${BASE_URL}/api/auth/me`, { headers: { Cookie: cookies } })).json();
+      const createResponse = await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: cookies },
+        data: { username: `nokey_${Date.now()}`, password: 'testpass123', publicKey: 'TEST_PUBLIC_KEY_BASE64' }
+      });
+      const { userId } = await createResponse.json();
+
+      // Never granted access, so the new key can't go to them
+      const response = await request.post(`${BASE_URL}/api/keys/rotation/start`, {
+        headers: { Cookie: cookies },
+        data: { wrappedKeys: [{ userId, wrappedDataKey: fakeEnvelope(1) }, { userId: user.id, wrappedDataKey: fakeEnvelope(2) }] }
+      });
+      expect(response.status()).toBe(400);
+      expect((await response.json()).error).toContain(`User ${userId} `);
+    });
+
+    test('should not allow revoking own access', async ({ request }) => {
+      const meResponse = await request.get(`${BASE_URL}/api/auth/me`, {
+        headers: { Cookie: cookies }
+      });
+      const { user } = await meResponse.json();
+
+      const response = await request.post(`${BASE_URL}/api/keys/revoke`, {
+        headers: { Cookie: cookies },
+        data: { userId: user.id }
+      });
+
+      expect(response.status()).toBe(400);
+    });
+
+    test('should reject batches for unknown tables', async ({ request }) => {
+      const response = await request.get(`${BASE_URL}/api/keys/rotation/batch?table=audit_log`, {
+        headers: { Cookie: cookies }
+      });
+
+      expect(response.status()).toBe(400);
+    });
+  });
+
+  test.describe('Recovery Codes', () => {
+    test('should reject recovery with an unknown token', async ({ request }) => {
+      const response = await request.post(`${BASE_URL}/api/recovery/start`, {
+        data: { username: 'seed', recoveryToken: Buffer.alloc(32, 9).toString('base64') }
+      });
+
       expect(response.status()).toBe(401);
     });
 
-    test('should require admin role for user creation', async ({ request }) => {
-      // First create a view-only user
-      const adminLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+    test('should require keys before storing a recovery code', async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
         data: { username: 'seed', password: 'init' }
       });
-      const adminCookies = adminLogin.headers()['set-cookie'] || '';
+      const cookies = loginResponse.headers()['set-cookie'] || '';
 
-      const viewUsername = `viewuser_${Date.now()}`;
-      await request.post(`${BASE_URL}/api/users`, {
-        headers: { Cookie: adminCookies },
+      const statusResponse = await request.get(`${BASE_URL}/api/recovery/status`, {
+        headers: { Cookie: cookies }
+      });
+      expect((await statusResponse.json()).enabled).toBe(false);
+
+      // The seed user has no encrypted private key
+      const response = await request.put(`${BASE_URL}/api/recovery`, {
+        headers: { Cookie: cookies },
+        data: { encryptedPrivateKey: fakeEnvelope(8), recoveryToken: Buffer.alloc(32, 9).toString('base64') }
+      });
+      expect(response.status()).toBe(409);
+    });
+  });
+
+  test.describe('Data Key Escrow', () => {
+    let cookies: string;
+
+    test.beforeEach(async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      cookies = loginResponse.headers()['set-cookie'] || '';
+    });
+
+    test('should report no escrow before one is created', async ({ request }) => {
+      const response = await request.get(`${BASE_URL}/api/keys/escrow`, {
+        headers: { Cookie: cookies }
+      });
+
+      expect(response.ok()).toBeTruthy();
+      const data = await response.json();
+      expect(data.escrow).toBeNull();
+      expect(data.ceremony).toBeNull();
+    });
+
+    test('should reject an escrow below the minimum threshold', async ({ request }) => {
+      const response = await request.post(`${BASE_URL}/api/keys/escrow`, {
+        headers: { Cookie: cookies },
         data: {
-          username: viewUsername,
-          password: 'viewpass',
-          roleId: 'view-role',
-          publicKey: 'VIEW_USER_PUBLIC_KEY'
+          threshold: 1,
+          keyCheck: fakeEnvelope(8),
+          shares: [{ userId: 1, shareIndex: 1, wrappedShare: 'AAAA' }]
         }
       });
 
-      // Login as view user
-      const viewLogin = await request.post(`${BASE_URL}/api/auth/login`, {
-        data: { username: viewUsername, password: 'viewpass' }
+      expect(response.status()).toBe(400);
+    });
+
+    test('should not start a ceremony without an escrow', async ({ request }) => {
+      const response = await request.post(`${BASE_URL}/api/keys/escrow/ceremonies`, {
+        headers: { Cookie: cookies },
+        data: {}
       });
-      const viewCookies = viewLogin.headers()['set-cookie'] || '';
 
-      // Try to create user (should fail)
-      const createResponse = await request.post(`${BASE_URL}/api/users`, {
-        headers: { Cookie: viewCookies },
+      expect(response.status()).toBe(404);
+    });
+  });
+
+  test.describe('Member Records', () => {
+    let cookies: string;
+
+    test.beforeEach(async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      cookies = loginResponse.headers()['set-cookie'] || '';
+    });
+
+    test('should create a member with its encrypted fields under the next id', async ({ request }) => {
+      const nextResponse = await request.get(`${BASE_URL}/api/members/next-id`, { headers: { Cookie: cookies } });
+      expect(nextResponse.ok()).toBeTruthy();
+      const { nextId: id } = await nextResponse.json();
+
+      // Nothing exists until the fields are stored
+      const beforeResponse = await request.get(`${BASE_URL}/api/members`, { headers: { Cookie: cookies } });
+      expect((await beforeResponse.json()).some((m: any) => m.id === id)).toBeFalsy();
+
+      const fieldsResponse = await request.put(`${BASE_URL}/api/members/${id}/fields`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(4), surname: fakeEnvelope(5) }
+      });
+      expect(fieldsResponse.status()).toBe(201);
+
+      // The id is taken now, so fields can't be overwritten through the creation endpoint
+      const secondResponse = await request.put(`${BASE_URL}/api/members/${id}/fields`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(6) }
+      });
+      expect(secondResponse.status()).toBe(409);
+
+      const listResponse = await request.get(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies }
+      });
+      const member = (await listResponse.json()).find((m: any) => m.id === id);
+      expect(member.name).toBe(fakeEnvelope(4));
+      expect(member.surname).toBe(fakeEnvelope(5));
+    });
+
+    test('should bulk create members with their fields all or nothing', async ({ request }) => {
+      const { nextId } = await (await request.get(`${BASE_URL}/api/members/next-id`, {
+        headers: { Cookie: cookies }
+      })).json();
+      const ids = [nextId, nextId + 1, nextId + 2];
+
+      // One invalid envelope or duplicate id rejects the whole batch, creating nothing
+      const invalidResponse = await request.post(`${BASE_URL}/api/members/bulk`, {
+        headers: { Cookie: cookies },
+        data: { members: [{ id: ids[0], name: fakeEnvelope(1) }, { id: ids[1], name: 'plain text' }] }
+      });
+      expect(invalidResponse.status()).toBe(400);
+      const duplicateResponse = await request.post(`${BASE_URL}/api/members/bulk`, {
+        headers: { Cookie: cookies },
+        data: { members: [{ id: ids[0], name: fakeEnvelope(1) }, { id: ids[0], name: fakeEnvelope(2) }] }
+      });
+      expect(duplicateResponse.status()).toBe(400);
+      const beforeResponse = await request.get(`${BASE_URL}/api/members`, { headers: { Cookie: cookies } });
+      expect((await beforeResponse.json()).some((m: any) => ids.includes(m.id))).toBeFalsy();
+
+      const createResponse = await request.post(`${BASE_URL}/api/members/bulk`, {
+        headers: { Cookie: cookies },
+        data: { members: ids.map((id: number, i: number) => ({ id, name: fakeEnvelope(i + 1), surname: fakeEnvelope(7) })) }
+      });
+      expect(createResponse.status()).toBe(201);
+      expect((await createResponse.json()).ids).toEqual(ids);
+
+      // Ids already used are refused, so existing fields can't be overwritten
+      const secondResponse = await request.post(`${BASE_URL}/api/members/bulk`, {
+        headers: { Cookie: cookies },
+        data: { members: [{ id: ids[2] + 1, name: fakeEnvelope(8) }, { id: ids[2], name: fakeEnvelope(9) }] }
+      });
+      expect(secondResponse.status()).toBe(409);
+
+      const listResponse = await request.get(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies }
+      });
+      const members = await listResponse.json();
+      const imported = members.filter((m: any) => ids.includes(m.id));
+      expect(imported.map((m: any) => m.name)).toEqual(expect.arrayContaining([fakeEnvelope(1), fakeEnvelope(2), fakeEnvelope(3)]));
+      expect(imported.every((m: any) => m.surname === fakeEnvelope(7))).toBeTruthy();
+      expect(members.some((m: any) => m.id === ids[2] + 1)).toBeFalsy();
+    });
+
+    test('should bulk insert weight records in a single transaction', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+
+      const invalidResponse = await request.post(`${BASE_URL}/api/data/bulk`, {
+        headers: { Cookie: cookies },
         data: {
-          username: 'should_fail',
-          password: 'test',
-          publicKey: 'KEY'
+          records: [
+            { memberId: id, type: 'weight', value: { value: 70.5 }, date: '2024-01-01' },
+            { memberId: id, type: 'weight', value: { value: 71 }, date: '01.02.2024' }
+          ]
         }
       });
+      expect(invalidResponse.status()).toBe(400);
+      expect((await invalidResponse.json()).error).toContain('Record 1');
 
-      expect(createResponse.status()).toBe(403);
+      const countWeights = async () => {
+        const listResponse = await request.get(`${BASE_URL}/api/data`, { headers: { Cookie: cookies } });
+        return (await listResponse.json()).filter((w: any) => w.member_id === id).length;
+      };
+      expect(await countWeights()).toBe(0);
+
+      const bulkResponse = await request.post(`${BASE_URL}/api/data/bulk`, {
+        headers: { Cookie: cookies },
+        data: {
+          records: [
+            { memberId: id, type: 'weight', value: { value: 70.5 }, date: '2024-01-01' },
+            { memberId: id, type: 'weight', value: { value: 71 }, date: '2024-02-01' }
+          ]
+        }
+      });
+      expect(bulkResponse.status()).toBe(201);
+      expect((await bulkResponse.json()).ids).toHaveLength(2);
+      expect(await countWeights()).toBe(2);
+    });
+
+    test('should filter, sort and page weight records with a cursor', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+      const { ids } = await (await request.post(`${BASE_URL}/api/data/bulk`, {
+        headers: { Cookie: cookies },
+        data: { records: [70, 72, 71, 73, 74].map((weight, i) => ({ memberId: id, type: 'weight', value: { value: weight }, date: `2024-0${i + 1}-15` })) }
+      })).json();
+      await request.delete(`${BASE_URL}/api/data/${ids[4]}`, { headers: { Cookie: cookies } });
+
+      const list = async (query: string) => {
+        const response = await request.get(`${BASE_URL}/api/data?memberId=${id}&${query}`, { headers: { Cookie: cookies } });
+        expect(response.ok()).toBeTruthy();
+        return response.json();
+      };
+
+      // Without limit or cursor the whole filtered list is returned
+      const inRange = await list('from=2024-02-01&to=2024-04-30&type=weight&sort=value&order=asc');
+      expect(inRange.map((w: any) => w.value.value)).toEqual([71, 72, 73]);
+      expect((await list('deleted=only')).map((w: any) => w.id)).toEqual([ids[4]]);
+
+      // Pages follow each other without gaps or repeats
+      const weights: number[] = [];
+      let cursor = '';
+      do {
+        const page = await list(`deleted=exclude&type=weight&sort=value&order=desc&limit=2${cursor ? `&cursor=${cursor}` : ''}`);
+        expect(page.items.length).toBeLessThanOrEqual(2);
+        weights.push(...page.items.map((w: any) => w.value.value));
+        cursor = page.nextCursor;
+      } while (cursor);
+      expect(weights).toEqual([73, 72, 71, 70]);
+
+      for (const query of ['limit=0', 'cursor=abc', 'sort=name', 'sort=value', 'type=unknown', 'deleted=maybe', 'from=15.01.2024']) {
+        const response = await request.get(`${BASE_URL}/api/data?${query}`, { headers: { Cookie: cookies } });
+        expect(response.status()).toBe(400);
+      }
+    });
+
+    test('should store sensitive measurements encrypted and convert existing records', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+      const plainResponse = await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId: id, type: 'weight', value: { value: 70.5 }, date: '2024-01-15' }
+      });
+      const { id: plainId } = await plainResponse.json();
+
+      const setWeightSensitive = (sensitive: boolean) => request.put(`${BASE_URL}/api/measurement-types/weight`, {
+        headers: { Cookie: cookies },
+        data: { name: 'Weight', unit: 'kg', sensitive }
+      });
+      expect((await setWeightSensitive(true)).ok()).toBeTruthy();
+      try {
+        const sensitivityResponse = await request.put(`${BASE_URL}/api/data/sensitivity`, {
+          headers: { Cookie: cookies },
+          data: { dates: true }
+        });
+        expect(sensitivityResponse.ok()).toBeTruthy();
+        const sensitivity = await sensitivityResponse.json();
+        expect(sensitivity).toMatchObject({ dates: true });
+        expect(sensitivity.types).toContain('weight');
+        expect(sensitivity.unconverted).toBeGreaterThanOrEqual(1);
+
+        const rejectedResponse = await request.post(`${BASE_URL}/api/data`, {
+          headers: { Cookie: cookies },
+          data: { memberId: id, type: 'weight', value: { value: 71 }, date: '2024-02-15' }
+        });
+        expect(rejectedResponse.status()).toBe(400);
+
+        const encryptedResponse = await request.post(`${BASE_URL}/api/data`, {
+          headers: { Cookie: cookies },
+          data: { memberId: id, type: 'weight', encryptedValue: fakeEnvelope(1), encryptedDate: fakeEnvelope(2) }
+        });
+        expect(encryptedResponse.ok()).toBeTruthy();
+
+        const weights = await (await request.get(`${BASE_URL}/api/data?memberId=${id}&sort=created`, {
+          headers: { Cookie: cookies }
+        })).json();
+        const encrypted = weights.find((w: any) => w.encrypted_value);
+        expect(encrypted).toMatchObject({ type: 'weight', value: null, date: null, encrypted_value: fakeEnvelope(1), encrypted_date: fakeEnvelope(2) });
+
+        // Encrypted values and dates can't be sorted or filtered on
+        for (const query of ['type=weight&sort=value', 'sort=date', 'from=2024-01-01']) {
+          const response = await request.get(`${BASE_URL}/api/data?${query}`, { headers: { Cookie: cookies } });
+          expect(response.status()).toBe(400);
+        }
+
+        // The plaintext record is listed for conversion until it is stored encrypted
+        const batch = await (await request.get(`${BASE_URL}/api/data/sensitivity/batch?afterId=${plainId - 1}&limit=1`, {
+          headers: { Cookie: cookies }
+        })).json();
+        expect(batch.rows[0]).toMatchObject({ id: plainId, member_id: id, type: 'weight', value: { value: 70.5 }, date: '2024-01-15' });
+
+        const storeResponse = await request.put(`${BASE_URL}/api/data/sensitivity/batch`, {
+          headers: { Cookie: cookies },
+          data: { rows: [{ id: plainId, encryptedValue: fakeEnvelope(3), encryptedDate: fakeEnvelope(4) }] }
+        });
+        expect(storeResponse.ok()).toBeTruthy();
+        const next = await (await request.get(`${BASE_URL}/api/data/sensitivity/batch?afterId=${plainId - 1}&limit=1`, {
+          headers: { Cookie: cookies }
+        })).json();
+        expect(next.rows.some((r: any) => r.id === plainId)).toBeFalsy();
+      } finally {
+        await setWeightSensitive(false);
+        await request.put(`${BASE_URL}/api/data/sensitivity`, {
+          headers: { Cookie: cookies },
+          data: { dates: false }
+        });
+      }
+    });
+
+    test('should manage measurement types and validate typed values', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+
+      const key = `waist_${Date.now()}`;
+      const typeResponse = await request.post(`${BASE_URL}/api/measurement-types`, {
+        headers: { Cookie: cookies },
+        data: { key, name: 'Waist', unit: 'cm', valueSchema: { components: [{ key: 'value', label: 'Waist', min: 30, max: 250 }] } }
+      });
+      expect(typeResponse.status()).toBe(201);
+      const duplicateResponse = await request.post(`${BASE_URL}/api/measurement-types`, {
+        headers: { Cookie: cookies },
+        data: { key, name: 'Waist', valueSchema: { components: [{ key: 'value', label: 'Waist' }] } }
+      });
+      expect(duplicateResponse.status()).toBe(409);
+
+      // Values must match their type's schema
+      for (const value of [{ value: 20 }, { value: 80, extra: 1 }, { systolic: 120 }]) {
+        const response = await request.post(`${BASE_URL}/api/data`, {
+          headers: { Cookie: cookies },
+          data: { memberId: id, type: key, value, date: '2024-01-15' }
+        });
+        expect(response.status()).toBe(400);
+      }
+      const fractionResponse = await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId: id, type: 'blood_pressure', value: { systolic: 120.5, diastolic: 80 }, date: '2024-01-15' }
+      });
+      expect(fractionResponse.status()).toBe(400);
+
+      const waistResponse = await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId: id, type: key, value: { value: 82 }, date: '2024-01-15' }
+      });
+      expect(waistResponse.ok()).toBeTruthy();
+      const pressureResponse = await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId: id, type: 'blood_pressure', value: { systolic: 120, diastolic: 80 }, date: '2024-01-15' }
+      });
+      expect(pressureResponse.ok()).toBeTruthy();
+
+      const pressures = await (await request.get(`${BASE_URL}/api/data?memberId=${id}&type=blood_pressure`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(pressures).toHaveLength(1);
+      expect(pressures[0]).toMatchObject({ type: 'blood_pressure', value: { systolic: 120, diastolic: 80 } });
+
+      const types = await (await request.get(`${BASE_URL}/api/measurement-types`, { headers: { Cookie: cookies } })).json();
+      expect(types.find((t: any) => t.key === key)).toMatchObject({ unit: 'cm', sensitive: false, built_in: false, record_count: 1 });
+
+      // A type in use keeps its schema and can't be deleted; built-in types can't be deleted at all
+      const schemaResponse = await request.put(`${BASE_URL}/api/measurement-types/${key}`, {
+        headers: { Cookie: cookies },
+        data: { name: 'Waist', unit: 'cm', valueSchema: { components: [{ key: 'value', label: 'Waist', min: 40 }] } }
+      });
+      expect(schemaResponse.status()).toBe(409);
+      const inUseResponse = await request.delete(`${BASE_URL}/api/measurement-types/${key}`, { headers: { Cookie: cookies } });
+      expect(inUseResponse.status()).toBe(409);
+      const builtInResponse = await request.delete(`${BASE_URL}/api/measurement-types/weight`, { headers: { Cookie: cookies } });
+      expect(builtInResponse.status()).toBe(400);
+
+      const unusedKey = `${key}_unused`;
+      await request.post(`${BASE_URL}/api/measurement-types`, {
+        headers: { Cookie: cookies },
+        data: { key: unusedKey, name: 'Unused', valueSchema: { components: [{ key: 'value', label: 'Unused' }] } }
+      });
+      const deleteResponse = await request.delete(`${BASE_URL}/api/measurement-types/${unusedKey}`, { headers: { Cookie: cookies } });
+      expect(deleteResponse.ok()).toBeTruthy();
+    });
+
+    test('should keep the unit of each measurement and convert values', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+      const addWeight = (value: number, unit?: string) => request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId: id, type: 'weight', value: { value }, unit, date: '2024-01-15' }
+      });
+
+      expect((await addWeight(160, 'lb')).ok()).toBeTruthy();
+      expect((await addWeight(71)).ok()).toBeTruthy();
+      // Bounds are checked in kg, and only units converting to kg are taken
+      expect((await addWeight(2000, 'lb')).status()).toBe(400);
+      expect((await addWeight(70, 'cm')).status()).toBe(400);
+      // Whole numbers are only required in the type's unit
+      const pressureResponse = await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId: id, type: 'blood_pressure', value: { systolic: 16, diastolic: 10.7 }, unit: 'kPa', date: '2024-01-15' }
+      });
+      expect(pressureResponse.ok()).toBeTruthy();
+
+      const list = async (query: string) => (await request.get(`${BASE_URL}/api/data?memberId=${id}&type=weight&${query}`, {
+        headers: { Cookie: cookies }
+      })).json();
+      // Sorted by the value in kg: 71 kg is less than 160 lb (72.6 kg)
+      const asEntered = await list('sort=value&order=asc');
+      expect(asEntered.map((w: any) => [w.value.value, w.unit])).toEqual([[71, 'kg'], [160, 'lb']]);
+      const inPounds = await list('sort=value&order=asc&unit=lb');
+      expect(inPounds.map((w: any) => w.unit)).toEqual(['lb', 'lb']);
+      expect(inPounds[0].value.value).toBeCloseTo(156.53, 2);
+      expect(inPounds[1].value.value).toBe(160);
+
+      for (const query of ['unit=cm', 'unit=']) {
+        const response = await request.get(`${BASE_URL}/api/data?type=weight&${query}`, { headers: { Cookie: cookies } });
+        expect(response.status()).toBe(400);
+      }
+      const untypedResponse = await request.get(`${BASE_URL}/api/data?unit=lb`, { headers: { Cookie: cookies } });
+      expect(untypedResponse.status()).toBe(400);
+
+      const setDisplayUnit = (unit: string | null) => request.put(`${BASE_URL}/api/measurement-types/weight/display-unit`, {
+        headers: { Cookie: cookies },
+        data: { unit }
+      });
+      expect((await setDisplayUnit('lb')).ok()).toBeTruthy();
+      try {
+        const types = await (await request.get(`${BASE_URL}/api/measurement-types`, { headers: { Cookie: cookies } })).json();
+        const weight = types.find((t: any) => t.key === 'weight');
+        expect(weight).toMatchObject({ unit: 'kg', display_unit: 'lb' });
+        expect(weight.units.lb).toBeCloseTo(0.45359237, 8);
+        expect((await setDisplayUnit('cm')).status()).toBe(400);
+      } finally {
+        await setDisplayUnit(null);
+      }
+    });
+
+    test('should store encrypted measurement goals', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+      const setGoal = (data: object, type = 'weight', memberId = id) => request.put(`${BASE_URL}/api/measurement-goals/${memberId}/${type}`, {
+        headers: { Cookie: cookies },
+        data
+      });
+      const listGoals = async () => (await request.get(`${BASE_URL}/api/measurement-goals?memberId=${id}`, {
+        headers: { Cookie: cookies }
+      })).json();
+
+      expect((await setGoal({ unit: 'lb', encryptedValue: fakeEnvelope(1) })).ok()).toBeTruthy();
+      expect((await setGoal({ unit: 'kg', encryptedValue: fakeEnvelope(2) })).ok()).toBeTruthy();
+      const goals = await listGoals();
+      expect(goals).toHaveLength(1);
+      expect(goals[0]).toMatchObject({ member_id: id, type: 'weight', unit: 'kg', encrypted_value: fakeEnvelope(2) });
+
+      // Goals are always encrypted, in one of the type's units
+      expect((await setGoal({ unit: 'kg', encryptedValue: '70' })).status()).toBe(400);
+      expect((await setGoal({ unit: 'cm', encryptedValue: fakeEnvelope(3) })).status()).toBe(400);
+      expect((await setGoal({ unit: 'kg', encryptedValue: fakeEnvelope(3) }, 'no_such_type')).status()).toBe(404);
+
+      // Height is built in, for BMI
+      const types = await (await request.get(`${BASE_URL}/api/measurement-types`, { headers: { Cookie: cookies } })).json();
+      expect(types.find((t: any) => t.key === 'height')).toMatchObject({ unit: 'cm', built_in: true });
+
+      const deleteGoal = () => request.delete(`${BASE_URL}/api/measurement-goals/${id}/weight`, { headers: { Cookie: cookies } });
+      expect((await deleteGoal()).ok()).toBeTruthy();
+      expect((await deleteGoal()).status()).toBe(404);
+      expect(await listGoals()).toEqual([]);
+
+      await request.delete(`${BASE_URL}/api/members/${id}`, { headers: { Cookie: cookies } });
+      expect((await setGoal({ unit: 'kg', encryptedValue: fakeEnvelope(4) })).status()).toBe(404);
+    });
+
+    test('should update only the re-encrypted fields of a member', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(7), email: fakeEnvelope(8) }
+      });
+      const { id } = await createResponse.json();
+
+      const invalidResponse = await request.put(`${BASE_URL}/api/members/${id}`, {
+        headers: { Cookie: cookies },
+        data: { name: 'Plaintext' }
+      });
+      expect(invalidResponse.status()).toBe(400);
+
+      const updateResponse = await request.put(`${BASE_URL}/api/members/${id}`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(9), email: null }
+      });
+      expect(updateResponse.ok()).toBeTruthy();
+
+      const listResponse = await request.get(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies }
+      });
+      const member = (await listResponse.json()).find((m: any) => m.id === id);
+      expect(member.name).toBe(fakeEnvelope(9));
+      expect(member.email).toBeNull();
+
+      const auditResponse = await request.get(`${BASE_URL}/api/audit?action=MEMBER_UPDATE`, {
+        headers: { Cookie: cookies }
+      });
+      const { logs } = await auditResponse.json();
+      expect(logs.some((log: any) => log.details.includes(`member id: ${id} (name, email)`))).toBeTruthy();
+
+      // Deleted members can't be edited
+      await request.delete(`${BASE_URL}/api/members/${id}`, {
+        headers: { Cookie: cookies }
+      });
+      const deletedResponse = await request.put(`${BASE_URL}/api/members/${id}`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(10) }
+      });
+      expect(deletedResponse.status()).toBe(404);
+    });
+
+    test('should log member exports', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id } = await createResponse.json();
+
+      const invalidResponse = await request.post(`${BASE_URL}/api/members/${id}/export`, {
+        headers: { Cookie: cookies },
+        data: { format: 'xml' }
+      });
+      expect(invalidResponse.status()).toBe(400);
+
+      const exportResponse = await request.post(`${BASE_URL}/api/members/${id}/export`, {
+        headers: { Cookie: cookies },
+        data: { format: 'csv', passwordProtected: true }
+      });
+      expect(exportResponse.ok()).toBeTruthy();
+
+      const { logs } = await (await request.get(`${BASE_URL}/api/audit?action=MEMBER_EXPORT`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(logs.some((log: any) => log.details.endsWith(`member id: ${id} as csv (password-protected)`))).toBeTruthy();
+    });
+
+    test('should keep prior encrypted versions and restore them', async ({ request }) => {
+      const createResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(11), surname: fakeEnvelope(12) }
+      });
+      const { id } = await createResponse.json();
+      await request.put(`${BASE_URL}/api/members/${id}`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(13) }
+      });
+      await request.put(`${BASE_URL}/api/members/${id}`, {
+        headers: { Cookie: cookies },
+        data: { surname: fakeEnvelope(14) }
+      });
+
+      const historyResponse = await request.get(`${BASE_URL}/api/members/${id}/history`, {
+        headers: { Cookie: cookies }
+      });
+      expect(historyResponse.ok()).toBeTruthy();
+      const versions = await historyResponse.json();
+      expect(versions.map((v: any) => v.changed_fields)).toEqual(['surname', 'name']);
+      expect(versions[1].name).toBe(fakeEnvelope(11));
+      expect(versions[1].changed_by_username).toBe('seed');
+
+      // Restore the original version: both fields change back, and the replaced version is kept
+      const restoreResponse = await request.post(`${BASE_URL}/api/members/${id}/history/${versions[1].id}/restore`, {
+        headers: { Cookie: cookies }
+      });
+      expect(restoreResponse.ok()).toBeTruthy();
+      expect((await restoreResponse.json()).fields).toEqual(['name', 'surname']);
+
+      const listResponse = await request.get(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies }
+      });
+      const member = (await listResponse.json()).find((m: any) => m.id === id);
+      expect(member.name).toBe(fakeEnvelope(11));
+      expect(member.surname).toBe(fakeEnvelope(12));
+
+      const afterRestore = await (await request.get(`${BASE_URL}/api/members/${id}/history`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(afterRestore).toHaveLength(3);
+      expect(afterRestore[0].surname).toBe(fakeEnvelope(14));
+
+      const againResponse = await request.post(`${BASE_URL}/api/members/${id}/history/${versions[1].id}/restore`, {
+        headers: { Cookie: cookies }
+      });
+      expect(againResponse.status()).toBe(409);
+    });
+
+    test('should page through members with a cursor', async ({ request }) => {
+      const ids: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const createResponse = await request.post(`${BASE_URL}/api/members`, { headers: { Cookie: cookies }, data: {} });
+        ids.push((await createResponse.json()).id);
+      }
+      await request.delete(`${BASE_URL}/api/members/${ids[0]}`, { headers: { Cookie: cookies } });
+
+      const firstPage = await (await request.get(`${BASE_URL}/api/members?limit=2&deleted=exclude`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(firstPage.items).toHaveLength(2);
+      expect(firstPage.nextCursor).toBeTruthy();
+
+      const seen: number[] = [];
+      let page = firstPage;
+      while (true) {
+        expect(page.items.every((m: any) => !m.deleted)).toBeTruthy();
+        seen.push(...page.items.map((m: any) => m.id));
+        if (!page.nextCursor) break;
+        page = await (await request.get(`${BASE_URL}/api/members?limit=2&deleted=exclude&cursor=${page.nextCursor}`, {
+          headers: { Cookie: cookies }
+        })).json();
+      }
+      expect(new Set(seen).size).toBe(seen.length);
+      expect(seen).toEqual(expect.arrayContaining([ids[1], ids[2]]));
+      expect(seen).not.toContain(ids[0]);
+
+      const deleted = await (await request.get(`${BASE_URL}/api/members?deleted=only`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(deleted.map((m: any) => m.id)).toContain(ids[0]);
+    });
+
+    test('should find members by blind index tokens of every search term', async ({ request }) => {
+      const [ana, smith, other] = [fakeToken(), fakeToken(), fakeToken()];
+      const { nextId: id } = await (await request.get(`${BASE_URL}/api/members/next-id`, {
+        headers: { Cookie: cookies }
+      })).json();
+
+      const invalidResponse = await request.put(`${BASE_URL}/api/members/${id}/fields`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(15), searchTokens: ['ana'] }
+      });
+      expect(invalidResponse.status()).toBe(400);
+
+      const fieldsResponse = await request.put(`${BASE_URL}/api/members/${id}/fields`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(15), surname: fakeEnvelope(16), searchTokens: [ana, smith] }
+      });
+      expect(fieldsResponse.ok()).toBeTruthy();
+
+      const search = async (q: string) => request.get(`${BASE_URL}/api/members?q=${encodeURIComponent(q)}`, {
+        headers: { Cookie: cookies }
+      });
+
+      // Every term must match; alternatives of a term (one per key version) need only one match
+      expect((await (await search(`${ana},${smith}`)).json()).map((m: any) => m.id)).toEqual([id]);
+      expect((await (await search(`${other}|${ana}`)).json()).map((m: any) => m.id)).toEqual([id]);
+      expect(await (await search(`${ana},${other}`)).json()).toEqual([]);
+      expect((await search('ana')).status()).toBe(400);
+
+      // Reindexing replaces the member's tokens
+      const indexResponse = await request.put(`${BASE_URL}/api/members/search-index`, {
+        headers: { Cookie: cookies },
+        data: { members: [{ id, searchTokens: [other] }] }
+      });
+      expect(indexResponse.ok()).toBeTruthy();
+      expect(await (await search(ana)).json()).toEqual([]);
+      expect((await (await search(other)).json()).map((m: any) => m.id)).toEqual([id]);
+    });
+  });
+
+  test.describe('Trash', () => {
+    let cookies: string;
+
+    test.beforeEach(async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      cookies = loginResponse.headers()['set-cookie'] || '';
+    });
+
+    async function createMemberWithWeight(request: any): Promise<{ memberId: number; weightId: number }> {
+      const memberResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: {}
+      });
+      const { id: memberId } = await memberResponse.json();
+      const weightResponse = await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId, type: 'weight', value: { value: 70.5 }, date: '2024-01-15' }
+      });
+      const { id: weightId } = await weightResponse.json();
+      return { memberId, weightId };
+    }
+
+    test('should restore deleted records, members before their weights', async ({ request }) => {
+      const { memberId, weightId } = await createMemberWithWeight(request);
+      await request.delete(`${BASE_URL}/api/data/${weightId}`, { headers: { Cookie: cookies } });
+      await request.delete(`${BASE_URL}/api/members/${memberId}`, { headers: { Cookie: cookies } });
+
+      const blockedResponse = await request.post(`${BASE_URL}/api/data/${weightId}/restore`, {
+        headers: { Cookie: cookies }
+      });
+      expect(blockedResponse.status()).toBe(409);
+
+      const memberResponse = await request.post(`${BASE_URL}/api/members/${memberId}/restore`, {
+        headers: { Cookie: cookies }
+      });
+      expect(memberResponse.ok()).toBeTruthy();
+
+      const weightResponse = await request.post(`${BASE_URL}/api/data/${weightId}/restore`, {
+        headers: { Cookie: cookies }
+      });
+      expect(weightResponse.ok()).toBeTruthy();
+
+      const weights = await (await request.get(`${BASE_URL}/api/data`, { headers: { Cookie: cookies } })).json();
+      expect(weights.find((w: any) => w.id === weightId).deleted).toBeNull();
+
+      // Only deleted records can be restored
+      const againResponse = await request.post(`${BASE_URL}/api/members/${memberId}/restore`, {
+        headers: { Cookie: cookies }
+      });
+      expect(againResponse.status()).toBe(404);
+    });
+
+    test('should purge records deleted before the retention period', async ({ request }) => {
+      const { memberId, weightId } = await createMemberWithWeight(request);
+      await request.delete(`${BASE_URL}/api/members/${memberId}`, { headers: { Cookie: cookies } });
+
+      // Within the default retention period nothing of this member is purged
+      await request.post(`${BASE_URL}/api/trash/purge`, { headers: { Cookie: cookies } });
+      let members = await (await request.get(`${BASE_URL}/api/members`, { headers: { Cookie: cookies } })).json();
+      expect(members.some((m: any) => m.id === memberId)).toBeTruthy();
+
+      const invalidResponse = await request.put(`${BASE_URL}/api/trash/settings`, {
+        headers: { Cookie: cookies },
+        data: { retentionDays: -1 }
+      });
+      expect(invalidResponse.status()).toBe(400);
+
+      await request.put(`${BASE_URL}/api/trash/settings`, {
+        headers: { Cookie: cookies },
+        data: { retentionDays: 0 }
+      });
+      const purgeResponse = await request.post(`${BASE_URL}/api/trash/purge`, {
+        headers: { Cookie: cookies }
+      });
+      expect(purgeResponse.ok()).toBeTruthy();
+      expect((await purgeResponse.json()).purged.members).toBeGreaterThanOrEqual(1);
+
+      await request.put(`${BASE_URL}/api/trash/settings`, {
+        headers: { Cookie: cookies },
+        data: { retentionDays: 30 }
+      });
+
+      // The member is gone, and its weight record with it although it wasn't deleted
+      members = await (await request.get(`${BASE_URL}/api/members`, { headers: { Cookie: cookies } })).json();
+      expect(members.some((m: any) => m.id === memberId)).toBeFalsy();
+      const weights = await (await request.get(`${BASE_URL}/api/data`, { headers: { Cookie: cookies } })).json();
+      expect(weights.some((w: any) => w.id === weightId)).toBeFalsy();
+    });
+  });
+
+  test.describe('Right to Erasure', () => {
+    test('should erase a member and return a signed receipt', async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const cookies = loginResponse.headers()['set-cookie'] || '';
+
+      const memberResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(20), birthdate: fakeEnvelope(21) }
+      });
+      const { id: memberId } = await memberResponse.json();
+      await request.post(`${BASE_URL}/api/data`, {
+        headers: { Cookie: cookies },
+        data: { memberId, type: 'weight', value: { value: 82.3 }, date: '2024-02-01' }
+      });
+
+      const createResponse = await request.post(`${BASE_URL}/api/erasures`, {
+        headers: { Cookie: cookies },
+        data: { memberId, reason: 'Member asked by email' }
+      });
+      expect(createResponse.status()).toBe(201);
+      const { id: requestId } = await createResponse.json();
+
+      const duplicateResponse = await request.post(`${BASE_URL}/api/erasures`, {
+        headers: { Cookie: cookies },
+        data: { memberId }
+      });
+      expect(duplicateResponse.status()).toBe(409);
+
+      const pending = await (await request.get(`${BASE_URL}/api/erasures`, { headers: { Cookie: cookies } })).json();
+      expect(pending.find((e: any) => e.id === requestId).status).toBe('pending');
+
+      const executeResponse = await request.post(`${BASE_URL}/api/erasures/${requestId}/execute`, {
+        headers: { Cookie: cookies }
+      });
+      expect(executeResponse.ok()).toBeTruthy();
+      const signed = await executeResponse.json();
+      expect(signed.receipt.memberId).toBe(memberId);
+      expect(signed.receipt.removed.encryptedFields).toEqual(['name', 'birthdate']);
+      expect(signed.receipt.removed.weightRecords).toBe(1);
+      expect(signed.receipt.removed.auditEntriesScrubbed).toBeGreaterThanOrEqual(2);
+
+      // The signature verifies with the published key
+      const { publicKey } = await (await request.get(`${BASE_URL}/api/erasures/signing-key`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(crypto.verify(
+        null,
+        Buffer.from(JSON.stringify(signed.receipt)),
+        publicKey,
+        Buffer.from(signed.signature.value, 'base64')
+      )).toBeTruthy();
+
+      // Member and weight records are gone, and the audit log no longer names the member
+      const members = await (await request.get(`${BASE_URL}/api/members`, { headers: { Cookie: cookies } })).json();
+      expect(members.some((m: any) => m.id === memberId)).toBeFalsy();
+      const weights = await (await request.get(`${BASE_URL}/api/data`, { headers: { Cookie: cookies } })).json();
+      expect(weights.some((w: any) => w.member_id === memberId)).toBeFalsy();
+      const { logs } = await (await request.get(`${BASE_URL}/api/audit?action=WEIGHT_CREATE&limit=1000`, {
+        headers: { Cookie: cookies }
+      })).json();
+      expect(logs.some((log: any) => log.details.includes(`member ${memberId}:`))).toBeFalsy();
+
+      const againResponse = await request.post(`${BASE_URL}/api/erasures/${requestId}/execute`, {
+        headers: { Cookie: cookies }
+      });
+      expect(againResponse.status()).toBe(409);
+    });
+  });
+
+  test.describe('Backup', () => {
+    test('should download a checksummed snapshot with PII still encrypted', async ({ request }) => {
+      const loginResponse = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const cookies = loginResponse.headers()['set-cookie'] || '';
+
+      const memberResponse = await request.post(`${BASE_URL}/api/members`, {
+        headers: { Cookie: cookies },
+        data: { name: fakeEnvelope(30) }
+      });
+      const { id: memberId } = await memberResponse.json();
+      // Make sure the receipt signing key exists
+      await request.get(`${BASE_URL}/api/erasures/signing-key`, { headers: { Cookie: cookies } });
+
+      const backupResponse = await request.get(`${BASE_URL}/api/backup`, {
+        headers: { Cookie: cookies }
+      });
+      expect(backupResponse.ok()).toBeTruthy();
+      expect(backupResponse.headers()['content-disposition']).toContain('dcsdemo-backup-');
+
+      const bundle = await backupResponse.json();
+      expect(bundle.format).toBe('dcsdemo-backup');
+      expect(bundle.schemaVersion).toBeGreaterThanOrEqual(1);
+
+      const database = Buffer.from(bundle.database, 'base64');
+      expect(database.subarray(0, 15).toString()).toBe('SQLite format 3');
+      expect(crypto.createHash('sha256').update(database).digest('hex')).toBe(bundle.checksums.database);
+      expect(bundle.checksums.tables.members.rows).toBeGreaterThan(0);
+
+      // The snapshot holds the ciphertext exactly as stored
+      expect(database.includes(fakeEnvelope(30))).toBeTruthy();
+      // ...but no private key that could forge erasure receipts
+      expect(database.includes('PRIVATE KEY')).toBeFalsy();
+    });
+  });
+
+  test.describe('Role-Based Access Control', () => {
+    test('should require authentication for protected endpoints', async ({ request }) => {
+      const response = await request.get(`${BASE_URL}/api/users`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('should require admin role for user creation', async ({ request }) => {
+      // First create a view-only user
+      const adminLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const adminCookies = adminLogin.headers()['set-cookie'] || '';
+
+      const viewUsername = `viewuser_${Date.now()}`;
+      await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: adminCookies },
+        data: {
+          username: viewUsername,
+          password: 'viewpass',
+          roleName: 'view-role',
+          publicKey: 'VIEW_USER_PUBLIC_KEY'
+        }
+      });
+
+      // Login as view user
+      const viewLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: viewUsername, password: 'viewpass' }
+      });
+      const viewCookies = viewLogin.headers()['set-cookie'] || '';
+
+      // Try to create user (should fail)
+      const createResponse = await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: viewCookies },
+        data: {
+          username: 'should_fail',
+          password: 'test',
+          publicKey: 'KEY'
+        }
+      });
+
+      expect(createResponse.status()).toBe(403);
+    });
+
+    test('should grant capabilities by role', async ({ request }) => {
+      const adminLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const adminCookies = adminLogin.headers()['set-cookie'] || '';
+
+      const viewUsername = `viewcaps_${Date.now()}`;
+      await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: adminCookies },
+        data: { username: viewUsername, password: 'viewpass', roleName: 'view-role' }
+      });
+
+      const viewLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: viewUsername, password: 'viewpass' }
+      });
+      const viewCookies = viewLogin.headers()['set-cookie'] || '';
+      const { user } = await viewLogin.json();
+      expect(user.permissions).toContain('member:read');
+      expect(user.permissions).not.toContain('user:read');
+
+      const usersResponse = await request.get(`${BASE_URL}/api/users`, {
+        headers: { Cookie: viewCookies }
+      });
+      expect(usersResponse.status()).toBe(403);
+
+      const membersResponse = await request.get(`${BASE_URL}/api/members`, {
+        headers: { Cookie: viewCookies }
+      });
+      expect(membersResponse.ok()).toBeTruthy();
+    });
+
+    test('should validate role permission changes', async ({ request }) => {
+      const adminLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const adminCookies = adminLogin.headers()['set-cookie'] || '';
+
+      const permissionsResponse = await request.get(`${BASE_URL}/api/roles/permissions`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(permissionsResponse.ok()).toBeTruthy();
+      const { roles } = await permissionsResponse.json();
+      const adminRole = roles.find((r: any) => r.name === 'admin-role');
+      expect(adminRole.permissions).toContain('roles:manage');
+
+      const unknownResponse = await request.put(`${BASE_URL}/api/roles/${adminRole.id}/permissions`, {
+        headers: { Cookie: adminCookies },
+        data: { permissions: [...adminRole.permissions, 'everything:all'] }
+      });
+      expect(unknownResponse.status()).toBe(400);
+
+      // Removing roles:manage from your own role would lock everyone out of this screen
+      const lockoutResponse = await request.put(`${BASE_URL}/api/roles/${adminRole.id}/permissions`, {
+        headers: { Cookie: adminCookies },
+        data: { permissions: adminRole.permissions.filter((p: string) => p !== 'roles:manage') }
+      });
+      expect(lockoutResponse.status()).toBe(400);
+    });
+
+    test('should manage custom roles and protect assigned ones', async ({ request }) => {
+      const adminLogin = await request.post(`${BASE_URL}/api/auth/login`, {
+        data: { username: 'seed', password: 'init' }
+      });
+      const adminCookies = adminLogin.headers()['set-cookie'] || '';
+
+      const roleName = `coach-${Date.now()}`;
+      const createResponse = await request.post(`${BASE_URL}/api/roles`, {
+        headers: { Cookie: adminCookies },
+        data: { name: roleName, permissions: ['member:read', 'weight:read', 'weight:create'] }
+      });
+      expect(createResponse.status()).toBe(201);
+      const { id: roleId } = await createResponse.json();
+
+      const renameResponse = await request.patch(`${BASE_URL}/api/roles/${roleId}`, {
+        headers: { Cookie: adminCookies },
+        data: { name: `${roleName}-renamed` }
+      });
+      expect(renameResponse.ok()).toBeTruthy();
+
+      // Assign the role to an existing user
+      const userResponse = await request.post(`${BASE_URL}/api/users`, {
+        headers: { Cookie: adminCookies },
+        data: { username: `coachuser_${Date.now()}`, password: 'coachpass' }
+      });
+      const { userId } = await userResponse.json();
+
+      const assignResponse = await request.put(`${BASE_URL}/api/users/${userId}/role`, {
+        headers: { Cookie: adminCookies },
+        data: { roleId }
+      });
+      expect(assignResponse.ok()).toBeTruthy();
+
+      const deleteAssignedResponse = await request.delete(`${BASE_URL}/api/roles/${roleId}`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(deleteAssignedResponse.status()).toBe(409);
+
+      const rolesResponse = await request.get(`${BASE_URL}/api/roles`, {
+        headers: { Cookie: adminCookies }
+      });
+      const roles = await rolesResponse.json();
+      expect(roles.find((r: any) => r.id === roleId).user_count).toBe(1);
+
+      // Built-in roles can't be deleted
+      const viewRole = roles.find((r: any) => r.name === 'view-role');
+      const deleteBuiltInResponse = await request.delete(`${BASE_URL}/api/roles/${viewRole.id}`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(deleteBuiltInResponse.status()).toBe(400);
+
+      // Once unassigned, the role can be deleted
+      const unassignResponse = await request.patch(`${BASE_URL}/api/users/${userId}`, {
+        headers: { Cookie: adminCookies },
+        data: { roleId: viewRole.id }
+      });
+      expect(unassignResponse.ok()).toBeTruthy();
+      const deleteResponse = await request.delete(`${BASE_URL}/api/roles/${roleId}`, {
+        headers: { Cookie: adminCookies }
+      });
+      expect(deleteResponse.ok()).toBeTruthy();
     });
   });
 });